@@ -0,0 +1,39 @@
+import { parseBacktestOptions, runBacktest } from "../server/backtest";
+
+// Usage: npm run backtest -- --from 2024-08-01 --to 2025-05-31 --min-edge 0.02 --leagues 2021,2014
+// Flags mirror the /api/backtest query parameters in kebab-case.
+const params: Record<string, string> = {};
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i++) {
+  if (!args[i].startsWith("--")) continue;
+  const key = args[i].slice(2).replace(/-([a-z])/g, (_, c) => c.toUpperCase());
+  params[key] = args[i + 1] ?? "";
+  i++;
+}
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+const report = await runBacktest(parseBacktestOptions(params));
+
+console.log(`Market: ${report.market.name}`);
+console.log(`Fixtures replayed: ${report.fixtures} (unsettled picks: ${report.unsettled})`);
+console.log(`Bets: ${report.bets}  Wins: ${report.wins}  Hit rate: ${pct(report.hitRate)}`);
+console.log(`Staked: ${report.staked.toFixed(2)}  Profit: ${report.profit.toFixed(2)}  ROI: ${pct(report.roi)}`);
+console.log(`Max drawdown: ${report.maxDrawdown.toFixed(2)} units`);
+console.log(`CLV: ${report.clv === null ? "n/a" : pct(report.clv)} over ${report.clvBets} bets`);
+if (report.adjustments && report.adjustments.fixtures > 0) {
+  const { fixtures, adjusted, unadjusted } = report.adjustments;
+  console.log(`Manual adjustments on ${fixtures} fixtures: ${adjusted.bets} bets, profit ${adjusted.profit.toFixed(2)} with them; ` +
+    `${unadjusted.bets} bets, profit ${unadjusted.profit.toFixed(2)} without`);
+}
+
+for (const [title, groups] of [["By league", report.byLeague], ["By odds band", report.byOddsBand]] as const) {
+  console.log(`\n${title}`);
+  console.table(Object.fromEntries(Object.entries(groups).map(([k, g]) => [k, {
+    bets: g.bets,
+    hitRate: pct(g.hitRate),
+    profit: g.profit.toFixed(2),
+    yield: pct(g.yield)
+  }])));
+}
+
+process.exit(0);
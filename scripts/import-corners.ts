@@ -0,0 +1,17 @@
+import { importCornersCsv } from "../server/csv";
+import { fitRatings } from "../server/ratings";
+
+// Usage: npm run import:corners -- E0.csv [SP1.csv ...]
+const files = process.argv.slice(2);
+if (files.length === 0) {
+  console.error("Usage: npm run import:corners -- <file.csv> [...]");
+  process.exit(1);
+}
+
+for (const file of files) {
+  const result = importCornersCsv(file);
+  if (result.unmatchedTeams.length > 0) {
+    console.log(`Unknown team names in ${file}: ${result.unmatchedTeams.join(", ")}`);
+  }
+}
+fitRatings();
@@ -1,239 +1,805 @@
 import express from "express";
 import { createServer as createViteServer } from "vite";
 import path from "path";
-import Database from "better-sqlite3";
-import axios from "axios";
-import { format, addDays } from "date-fns";
+import { fitRatings } from "./server/ratings";
+import { backfillResults } from "./server/sync";
+import { importCornersCsv } from "./server/csv";
+import {
+  AliasError, ReviewStatus, addTeamAlias, confirmReview, deleteAlias, listAliases, listEntities, listReviews,
+  parseEntityType, rejectReview, reviewCandidates, setAlias
+} from "./server/aliases";
+import { isSyncRunning, runAllJobs, runJob, startScheduler, syncStatus } from "./server/scheduler";
+import { AlertRuleError, createAlertRule, deleteAlertRule, listAlertDeliveries, listAlertRules, updateAlertRule } from "./server/alerts";
+import { SCHEDULER_ENABLED } from "./server/config";
+import { livePrices, startLiveFeed, subscribeLive } from "./server/live";
+import {
+  OpportunityQuery, OpportunityQueryError, findAllOpportunities, findAnalysis, findOpportunities, parseOpportunityQuery
+} from "./server/opportunities";
+import { ExportError, ExportFormat, Report, backtestReport, ledgerReport, opportunitiesReport, parseExportFormat, renderReport } from "./server/exports";
+import { createSnapshot, getSnapshot, listSnapshots } from "./server/snapshots";
+import { PortfolioError, PortfolioQuery, buildPortfolio, parsePortfolioQuery } from "./server/portfolio";
+import { ArbitrageQuery, ArbitrageQueryError, parseArbitrageQuery, scanMarkets } from "./server/arbitrage";
+import { MatchInputsError, getLineMovement, getMatchDetail, parseInputOverrides } from "./server/match-detail";
+import { BacktestOptions, BacktestOptionsError, parseBacktestOptions, runBacktest } from "./server/backtest";
+import { CalibrationOptions, CalibrationOptionsError, parseCalibrationOptions, runCalibration } from "./server/calibration";
+import { StakingConfigError, saveStakingConfig } from "./server/staking";
+import { LedgerError, bankrollSummary, listBets, placeBet, settleOpenBets } from "./server/ledger";
+import {
+  AuthError, authenticate, clearSessionCookie, createSession, createUser, deleteSession, listUsers, requireAdmin,
+  requireUser, sessionToken, setSessionCookie, setUserRole, verifyLogin
+} from "./server/auth";
+import {
+  PreferenceError, deleteFilterPreset, follow, followedIds, listFilterPresets, listFollows, listWatchlist,
+  parseFollowEntity, saveFilterPreset, unfollow, unwatchMatch, watchMatch
+} from "./server/preferences";
+import {
+  AdjustmentError, adjustmentLog, createAdjustment, deleteAdjustment, listAdjustments, updateAdjustment
+} from "./server/adjustments";
+import { MARKETS, MarketDefinitionError, describeLeg, marketFromQuery } from "./server/markets";
+import { ModelChoice, ModelChoiceError, parseModelChoice } from "./server/simulation";
 
 // --- Configuration ---
 const PORT = 3000;
-const FOOTBALL_DATA_API_KEY = process.env.FOOTBALL_DATA_API_KEY || "9d2c4971eaeb4b63a98ff49b79caad5e";
-const THE_ODDS_API_KEY = process.env.THE_ODDS_API_KEY || "b53c031b935c60d7741a074a16e37ab2";
-
-// --- Database Setup ---
-const db = new Database("football.db");
-db.exec(`
-  CREATE TABLE IF NOT EXISTS leagues (
-    id INTEGER PRIMARY KEY,
-    name TEXT,
-    code TEXT
-  );
-
-  CREATE TABLE IF NOT EXISTS teams (
-    id INTEGER PRIMARY KEY,
-    name TEXT,
-    league_id INTEGER
-  );
-
-  CREATE TABLE IF NOT EXISTS matches (
-    id INTEGER PRIMARY KEY,
-    utc_date TEXT,
-    status TEXT,
-    league_id INTEGER,
-    home_team_id INTEGER,
-    away_team_id INTEGER,
-    home_score_full INTEGER,
-    away_score_full INTEGER,
-    home_score_h1 INTEGER,
-    away_score_h1 INTEGER,
-    home_score_h2 INTEGER,
-    away_score_h2 INTEGER,
-    corners INTEGER
-  );
-
-  CREATE TABLE IF NOT EXISTS odds (
-    match_id INTEGER PRIMARY KEY,
-    home_win REAL,
-    draw REAL,
-    away_win REAL,
-    u35_h1 REAL,
-    u35_h2 REAL,
-    over_55_corners REAL,
-    team_y_wins_half REAL,
-    bookmaker TEXT,
-    last_update TEXT
-  );
-`);
-
-// --- Statistical Utilities ---
-function poisson(lambda: number): number {
-  let L = Math.exp(-lambda);
-  let p = 1.0;
-  let k = 0;
-  do {
-    k++;
-    p *= Math.random();
-  } while (p > L);
-  return k - 1;
-}
 
-// Monte Carlo Simulation
-function simulateMatch(
-  homeExpG: number, 
-  awayExpG: number, 
-  homeExpC: number, 
-  awayExpC: number,
-  isTeamYHome: boolean,
-  iterations = 20000
-) {
-  let successCount = 0;
-
-  for (let i = 0; i < iterations; i++) {
-    // Goals per half (simplified: 45% 1st half, 55% 2nd half)
-    const h1_home = poisson(homeExpG * 0.45);
-    const h1_away = poisson(awayExpG * 0.45);
-    const h2_home = poisson(homeExpG * 0.55);
-    const h2_away = poisson(awayExpG * 0.55);
-
-    // Corners (Poisson)
-    const corners = poisson(homeExpC) + poisson(awayExpC);
-
-    // Criteria 1 & 2: Under 3.5 goals in each half
-    const u35_h1 = (h1_home + h1_away) < 3.5;
-    const u35_h2 = (h2_home + h2_away) < 3.5;
-
-    // Criteria 3: Team Y wins at least one half
-    let teamYWinsHalf = false;
-    if (isTeamYHome) {
-      teamYWinsHalf = (h1_home > h1_away) || (h2_home > h2_away);
-    } else {
-      teamYWinsHalf = (h1_away > h1_home) || (h2_away > h2_home);
-    }
-
-    // Criteria 4: Over 5.5 corners
-    const o55_corners = corners > 5.5;
-
-    if (u35_h1 && u35_h2 && teamYWinsHalf && o55_corners) {
-      successCount++;
-    }
-  }
-
-  return successCount / iterations;
+// Sends a report as a CSV/JSON download or an inline printable HTML page
+function sendReport<T>(res: express.Response, report: Report<T>, format: ExportFormat, filename: string) {
+  const { contentType, disposition, body } = renderReport(report, format, filename);
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Disposition", disposition);
+  res.send(body);
 }
 
-// --- API Services ---
-async function syncLeagues() {
-  try {
-    const response = await axios.get("https://api.football-data.org/v4/competitions", {
-      headers: { "X-Auth-Token": FOOTBALL_DATA_API_KEY }
-    });
-    const competitions = response.data.competitions;
-    const stmt = db.prepare("INSERT OR REPLACE INTO leagues (id, name, code) VALUES (?, ?, ?)");
-    for (const c of competitions) {
-      stmt.run(c.id, c.name, c.code);
-    }
-    console.log(`Synced ${competitions.length} leagues`);
-  } catch (error) {
-    console.error("Error syncing leagues:", error);
-  }
-}
-
-async function syncFixtures() {
-  try {
-    // Fetch matches for the next 10 days across all available competitions
-    const dateFrom = format(new Date(), "yyyy-MM-dd");
-    const dateTo = format(addDays(new Date(), 10), "yyyy-MM-dd");
-    
-    const response = await axios.get("https://api.football-data.org/v4/matches", {
-      headers: { "X-Auth-Token": FOOTBALL_DATA_API_KEY },
-      params: { dateFrom, dateTo }
-    });
-
-    const matches = response.data.matches;
-    const stmtMatch = db.prepare(`
-      INSERT OR REPLACE INTO matches (id, utc_date, status, league_id, home_team_id, away_team_id)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
-    const stmtTeam = db.prepare(`INSERT OR IGNORE INTO teams (id, name, league_id) VALUES (?, ?, ?)`);
-
-    db.transaction(() => {
-      for (const m of matches) {
-        stmtTeam.run(m.homeTeam.id, m.homeTeam.name, m.competition.id);
-        stmtTeam.run(m.awayTeam.id, m.awayTeam.name, m.competition.id);
-        stmtMatch.run(m.id, m.utcDate, m.status, m.competition.id, m.homeTeam.id, m.awayTeam.id);
-      }
-    })();
-    
-    console.log(`Synced ${matches.length} fixtures from all available worldwide leagues`);
-  } catch (error) {
-    console.error("Error syncing fixtures:", error);
-  }
+// followed=true narrows a query to the signed-in user's leagues and teams
+function applyFollows(req: express.Request, params: Record<string, any>, query: OpportunityQuery) {
+  if (params.followed !== "true" && params.followed !== true) return query;
+  if (!req.user) throw new OpportunityQueryError("Sign in to filter by followed leagues and teams");
+  return { ...query, followed: followedIds(req.user.id) };
 }
 
 // --- Server Setup ---
 async function startServer() {
   const app = express();
   app.use(express.json());
+  app.use("/api", authenticate);
 
   // API Routes
+  app.get("/api/markets", (req, res) => {
+    res.json(MARKETS.map(m => ({
+      ...m,
+      legs: m.legs.map(leg => ({ ...leg, label: describeLeg(leg) }))
+    })));
+  });
+
+  app.get("/api/opportunities", async (req, res) => {
+    let query: OpportunityQuery;
+    try {
+      query = applyFollows(req, req.query, parseOpportunityQuery(req.query));
+    } catch (error) {
+      if (error instanceof MarketDefinitionError || error instanceof OpportunityQueryError || error instanceof ModelChoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(400).json({ error: "Invalid opportunity query" });
+    }
+
+    try {
+      res.json(await findOpportunities(query, req.user?.id ?? null));
+    } catch (error) {
+      if (error instanceof OpportunityQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Analysis error:", error);
+      res.status(500).json({ error: "Failed to analyze matches" });
+    }
+  });
+
+  // The response older clients read: the better side of each match for one
+  // market (?market= or ?definition=), +EV only, top 50 by EV
   app.get("/api/analysis", async (req, res) => {
+    let query: OpportunityQuery;
     try {
-      const matches = db.prepare(`
-        SELECT m.*, h.name as home_name, a.name as away_name, l.name as league_name
-        FROM matches m
-        JOIN teams h ON m.home_team_id = h.id
-        JOIN teams a ON m.away_team_id = a.id
-        JOIN leagues l ON m.league_id = l.id
-        WHERE m.status = 'TIMED' OR m.status = 'SCHEDULED'
-        ORDER BY m.utc_date ASC
-      `).all() as any[];
-
-      const analyzedMatches = matches.map(m => {
-        // In a production system, we would calculate these from historical data
-        // For now, we use a heuristic based on league averages and random variance for the demo
-        // but the structure is ready for real Poisson parameters.
-        const homeExpG = 1.2 + (Math.random() * 0.8);
-        const awayExpG = 1.0 + (Math.random() * 0.8);
-        const homeExpC = 4.5 + (Math.random() * 2);
-        const awayExpC = 4.0 + (Math.random() * 2);
-
-        // Simulate for Home Team as Team Y
-        const probHomeY = simulateMatch(homeExpG, awayExpG, homeExpC, awayExpC, true);
-        // Simulate for Away Team as Team Y
-        const probAwayY = simulateMatch(homeExpG, awayExpG, homeExpC, awayExpC, false);
-
-        // We pick the best value (either Home or Away as Team Y)
-        const isHomeBetter = probHomeY >= probAwayY;
-        const probModel = isHomeBetter ? probHomeY : probAwayY;
-        
-        // Mock odds for now - in production these come from The Odds API
-        const oddAvg = 1 / (probModel * 0.8); // 20% margin
-        const bestOdd = oddAvg * 1.1;
-        const probImplied = 1 / bestOdd;
-        const edge = probModel - probImplied;
-        const ev = (probModel * bestOdd) - 1;
-
-        return {
-          id: m.id,
-          homeTeam: m.home_name,
-          awayTeam: m.away_name,
-          league: m.league_name,
-          date: m.utc_date,
-          probModel,
-          oddAvg,
-          bestOdd,
-          probImplied,
-          edge,
-          ev,
-          confidence: probModel > 0.15 ? "High" : "Medium",
-          isTeamYHome: isHomeBetter
-        };
-      });
-
-      // Filter for positive EV and reasonable edge
-      const filtered = analyzedMatches.filter(m => m.ev > 0).slice(0, 50);
-
-      res.json(filtered);
+      if (!marketFromQuery(req.query)) {
+        return res.status(404).json({ error: `Unknown market "${req.query.market}"` });
+      }
+      query = parseOpportunityQuery(req.query);
+    } catch (error) {
+      if (error instanceof MarketDefinitionError || error instanceof OpportunityQueryError || error instanceof ModelChoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(400).json({ error: "Invalid market definition" });
+    }
+
+    try {
+      res.json(await findAnalysis(query, req.user?.id ?? null));
     } catch (error) {
       console.error("Analysis error:", error);
       res.status(500).json({ error: "Failed to analyze matches" });
     }
   });
 
-  app.post("/api/sync", async (req, res) => {
-    await syncLeagues();
-    await syncFixtures();
-    res.json({ status: "Worldwide sync completed" });
+  // The whole filtered slate (every page) as csv, json or html
+  app.get("/api/opportunities/export", async (req, res) => {
+    let query: OpportunityQuery;
+    let format: ExportFormat;
+    try {
+      format = parseExportFormat(req.query.format);
+      query = applyFollows(req, req.query, parseOpportunityQuery(req.query));
+    } catch (error) {
+      if (
+        error instanceof MarketDefinitionError || error instanceof OpportunityQueryError ||
+        error instanceof ModelChoiceError || error instanceof ExportError
+      ) {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(400).json({ error: "Invalid opportunity query" });
+    }
+
+    try {
+      sendReport(res, opportunitiesReport(query, await findAllOpportunities(query, req.user?.id ?? null)), format, "value-slate");
+    } catch (error) {
+      if (error instanceof OpportunityQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Export error:", error);
+      res.status(500).json({ error: "Failed to export opportunities" });
+    }
+  });
+
+  // --- Bet Slip ---
+  // Prices a slip of opportunity keys as singles and an accumulator, with suggested stakes
+  app.post("/api/portfolio", async (req, res) => {
+    let query: PortfolioQuery;
+    try {
+      query = parsePortfolioQuery(req.body || {});
+    } catch (error) {
+      if (error instanceof PortfolioError || error instanceof ModelChoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(400).json({ error: "Invalid bet slip" });
+    }
+
+    try {
+      res.json(await buildPortfolio(query, req.user?.id ?? null));
+    } catch (error) {
+      if (error instanceof PortfolioError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Portfolio error:", error);
+      res.status(500).json({ error: "Failed to price bet slip" });
+    }
+  });
+
+  // --- Snapshots ---
+  // Freezes an analysis run; the body takes the same parameters as /api/opportunities plus a label
+  app.post("/api/snapshots", requireUser, async (req, res) => {
+    let query: OpportunityQuery;
+    try {
+      query = applyFollows(req, req.body || {}, parseOpportunityQuery(req.body || {}));
+    } catch (error) {
+      if (error instanceof MarketDefinitionError || error instanceof OpportunityQueryError || error instanceof ModelChoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(400).json({ error: "Invalid opportunity query" });
+    }
+
+    try {
+      res.status(201).json(await createSnapshot(query, req.user!.id, req.body?.label));
+    } catch (error) {
+      console.error("Snapshot error:", error);
+      res.status(500).json({ error: "Failed to save snapshot" });
+    }
+  });
+
+  app.get("/api/snapshots", (req, res) => {
+    res.json(listSnapshots());
+  });
+
+  app.get("/api/snapshots/:id", (req, res) => {
+    const snapshot = getSnapshot(req.params.id);
+    if (!snapshot) {
+      return res.status(404).json({ error: `Unknown snapshot ${req.params.id}` });
+    }
+    res.json(snapshot);
+  });
+
+  app.get("/api/snapshots/:id/export", (req, res) => {
+    let format: ExportFormat;
+    try {
+      format = parseExportFormat(req.query.format);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    const snapshot = getSnapshot(req.params.id);
+    if (!snapshot) {
+      return res.status(404).json({ error: `Unknown snapshot ${req.params.id}` });
+    }
+    const title = `Value Slate Snapshot ${snapshot.id}${snapshot.label ? ` (${snapshot.label})` : ""}`;
+    sendReport(res, opportunitiesReport(snapshot.query, snapshot.result, snapshot.createdAt, title), format, `snapshot-${snapshot.id}`);
+  });
+
+  app.get("/api/arbs", (req, res) => {
+    let query: ArbitrageQuery;
+    try {
+      query = parseArbitrageQuery(req.query);
+    } catch (error) {
+      if (error instanceof ArbitrageQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(400).json({ error: "Invalid arbitrage query" });
+    }
+
+    try {
+      res.json(scanMarkets(query));
+    } catch (error) {
+      console.error("Arbitrage scan error:", error);
+      res.status(500).json({ error: "Failed to scan prices" });
+    }
+  });
+
+  app.get("/api/matches/:id", (req, res) => {
+    try {
+      const market = marketFromQuery(req.query);
+      if (!market) {
+        return res.status(404).json({ error: `Unknown market "${req.query.market}"` });
+      }
+      // ?homeExpG=&awayExpG=&homeExpC=&awayExpC= re-price with tweaked inputs,
+      // goalModel=&cornerModel=&gameState= with other distributions
+      const detail = getMatchDetail(Number(req.params.id), market, parseInputOverrides(req.query), parseModelChoice(req.query));
+      if (!detail) {
+        return res.status(404).json({ error: `Unknown match ${req.params.id}` });
+      }
+      res.json(detail);
+    } catch (error) {
+      if (error instanceof MarketDefinitionError || error instanceof MatchInputsError || error instanceof ModelChoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Match detail error:", error);
+      res.status(500).json({ error: "Failed to load match" });
+    }
+  });
+
+  app.get("/api/matches/:id/odds", (req, res) => {
+    try {
+      const market = marketFromQuery(req.query);
+      if (!market) {
+        return res.status(404).json({ error: `Unknown market "${req.query.market}"` });
+      }
+      const movement = getLineMovement(Number(req.params.id), market);
+      if (!movement) {
+        return res.status(404).json({ error: `Unknown match ${req.params.id}` });
+      }
+      res.json(movement);
+    } catch (error) {
+      if (error instanceof MarketDefinitionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Line movement error:", error);
+      res.status(500).json({ error: "Failed to load price history" });
+    }
+  });
+
+  // --- Manual Adjustments ---
+  // Analyst changes to a match's expected goals or corners; every change
+  // needs a reason and is logged with the user who made it
+  const adjustmentRoute = (handler: (req: express.Request, res: express.Response) => void) =>
+    (req: express.Request, res: express.Response) => {
+      try {
+        handler(req, res);
+      } catch (error) {
+        if (error instanceof AdjustmentError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error("Adjustment error:", error);
+        res.status(500).json({ error: "Failed to save adjustment" });
+      }
+    };
+
+  app.get("/api/matches/:id/adjustments", (req, res) => {
+    const matchId = Number(req.params.id);
+    res.json({ adjustments: listAdjustments(matchId), log: adjustmentLog(matchId) });
+  });
+
+  app.post("/api/matches/:id/adjustments", requireUser, adjustmentRoute((req, res) => {
+    res.status(201).json(createAdjustment(Number(req.params.id), req.body || {}, req.user!.id));
+  }));
+
+  app.put("/api/adjustments/:id", requireUser, adjustmentRoute((req, res) => {
+    const adjustment = updateAdjustment(Number(req.params.id), req.body || {}, req.user!.id);
+    if (!adjustment) {
+      return res.status(404).json({ error: `Unknown adjustment ${req.params.id}` });
+    }
+    res.json(adjustment);
+  }));
+
+  // The reason comes in the body or as ?reason=
+  app.delete("/api/adjustments/:id", requireUser, adjustmentRoute((req, res) => {
+    if (!deleteAdjustment(Number(req.params.id), req.body?.reason ?? req.query.reason, req.user!.id)) {
+      return res.status(404).json({ error: `Unknown adjustment ${req.params.id}` });
+    }
+    res.status(204).end();
+  }));
+
+  app.get("/api/adjustments/log", (req, res) => {
+    const limit = Math.min(500, Math.max(1, Number(req.query.limit) || 100));
+    res.json(adjustmentLog(undefined, limit));
+  });
+
+  app.get("/api/live", async (req, res) => {
+    try {
+      const market = marketFromQuery(req.query);
+      if (!market) {
+        return res.status(404).json({ error: `Unknown market "${req.query.market}"` });
+      }
+      res.json(await livePrices(market, parseModelChoice(req.query)));
+    } catch (error) {
+      if (error instanceof MarketDefinitionError || error instanceof ModelChoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Live pricing error:", error);
+      res.status(500).json({ error: "Failed to price live matches" });
+    }
+  });
+
+  // Server-Sent Events: the live prices for the market, re-sent whenever the
+  // feed reports a change
+  app.get("/api/live/stream", (req, res) => {
+    let market;
+    let model: ModelChoice;
+    try {
+      market = marketFromQuery(req.query);
+      model = parseModelChoice(req.query);
+    } catch (error) {
+      if (error instanceof MarketDefinitionError || error instanceof ModelChoiceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+    if (!market) {
+      return res.status(404).json({ error: `Unknown market "${req.query.market}"` });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
+    });
+    const send = async () => {
+      try {
+        res.write(`data: ${JSON.stringify(await livePrices(market, model))}\n\n`);
+      } catch (error) {
+        console.error("Live pricing error:", error);
+      }
+    };
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 25000);
+    const unsubscribe = subscribeLive(send);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+    send();
+  });
+
+  app.get("/api/backtest", async (req, res) => {
+    let options: BacktestOptions;
+    try {
+      options = parseBacktestOptions(req.query);
+    } catch (error) {
+      const message = error instanceof MarketDefinitionError || error instanceof BacktestOptionsError || error instanceof ModelChoiceError
+        ? error.message
+        : "Invalid backtest parameters";
+      return res.status(400).json({ error: message });
+    }
+
+    try {
+      res.json(await runBacktest(options));
+    } catch (error) {
+      console.error("Backtest error:", error);
+      res.status(500).json({ error: "Failed to run backtest" });
+    }
+  });
+
+  app.get("/api/backtest/export", async (req, res) => {
+    let options: BacktestOptions;
+    let format: ExportFormat;
+    try {
+      format = parseExportFormat(req.query.format);
+      options = parseBacktestOptions(req.query);
+    } catch (error) {
+      const message = error instanceof MarketDefinitionError || error instanceof BacktestOptionsError || error instanceof ModelChoiceError ||
+        error instanceof ExportError
+        ? error.message
+        : "Invalid backtest parameters";
+      return res.status(400).json({ error: message });
+    }
+
+    try {
+      sendReport(res, backtestReport(options, await runBacktest(options)), format, "backtest");
+    } catch (error) {
+      console.error("Backtest export error:", error);
+      res.status(500).json({ error: "Failed to export backtest" });
+    }
+  });
+
+  app.get("/api/calibration", async (req, res) => {
+    let options: CalibrationOptions;
+    try {
+      options = parseCalibrationOptions(req.query);
+    } catch (error) {
+      const message = error instanceof MarketDefinitionError || error instanceof CalibrationOptionsError || error instanceof ModelChoiceError
+        ? error.message
+        : "Invalid calibration parameters";
+      return res.status(400).json({ error: message });
+    }
+
+    try {
+      res.json(await runCalibration(options));
+    } catch (error) {
+      console.error("Calibration error:", error);
+      res.status(500).json({ error: "Failed to compute calibration" });
+    }
+  });
+
+  // --- Accounts ---
+  const signIn = (res: express.Response, userId: number) => {
+    const { token, expires } = createSession(userId);
+    setSessionCookie(res, token, expires);
+  };
+
+  app.post("/api/auth/register", (req, res) => {
+    try {
+      const user = createUser(req.body || {});
+      signIn(res, user.id);
+      res.status(201).json(user);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Registration error:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res) => {
+    const user = verifyLogin(req.body?.username, req.body?.password);
+    if (!user) {
+      return res.status(401).json({ error: "Wrong username or password" });
+    }
+    signIn(res, user.id);
+    res.json(user);
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    const token = sessionToken(req);
+    if (token) deleteSession(token);
+    clearSessionCookie(res);
+    res.status(204).end();
+  });
+
+  // The signed-in user, or null for visitors
+  app.get("/api/auth/me", (req, res) => {
+    res.json(req.user ?? null);
+  });
+
+  app.get("/api/users", requireAdmin, (req, res) => {
+    res.json(listUsers());
+  });
+
+  // Admins can add accounts even when registration is closed
+  app.post("/api/users", requireAdmin, (req, res) => {
+    try {
+      res.status(201).json(createUser(req.body || {}, true));
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("User error:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  app.put("/api/users/:id", requireAdmin, (req, res) => {
+    try {
+      const user = setUserRole(Number(req.params.id), req.body?.role);
+      if (!user) {
+        return res.status(404).json({ error: `Unknown user ${req.params.id}` });
+      }
+      res.json(user);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("User error:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  // --- Preferences (per user) ---
+  const preferenceRoute = (handler: (req: express.Request, res: express.Response) => void) =>
+    (req: express.Request, res: express.Response) => {
+      try {
+        handler(req, res);
+      } catch (error) {
+        if (error instanceof PreferenceError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error("Preference error:", error);
+        res.status(500).json({ error: "Failed to save preference" });
+      }
+    };
+
+  app.get("/api/me/filters", requireUser, (req, res) => {
+    res.json(listFilterPresets(req.user!.id));
+  });
+
+  app.post("/api/me/filters", requireUser, preferenceRoute((req, res) => {
+    res.status(201).json(saveFilterPreset(req.user!.id, req.body || {}));
+  }));
+
+  app.delete("/api/me/filters/:id", requireUser, (req, res) => {
+    if (!deleteFilterPreset(req.user!.id, Number(req.params.id))) {
+      return res.status(404).json({ error: `Unknown filter preset ${req.params.id}` });
+    }
+    res.status(204).end();
+  });
+
+  app.get("/api/me/follows", requireUser, (req, res) => {
+    res.json(listFollows(req.user!.id));
+  });
+
+  app.put("/api/me/follows/:entity/:id", requireUser, preferenceRoute((req, res) => {
+    res.json(follow(req.user!.id, parseFollowEntity(req.params.entity), Number(req.params.id)));
+  }));
+
+  app.delete("/api/me/follows/:entity/:id", requireUser, preferenceRoute((req, res) => {
+    res.json(unfollow(req.user!.id, parseFollowEntity(req.params.entity), Number(req.params.id)));
+  }));
+
+  app.get("/api/me/watchlist", requireUser, (req, res) => {
+    res.json(listWatchlist(req.user!.id));
+  });
+
+  app.put("/api/me/watchlist/:matchId", requireUser, preferenceRoute((req, res) => {
+    res.json(watchMatch(req.user!.id, Number(req.params.matchId)));
+  }));
+
+  app.delete("/api/me/watchlist/:matchId", requireUser, (req, res) => {
+    res.json(unwatchMatch(req.user!.id, Number(req.params.matchId)));
+  });
+
+  // --- Ledger (per user) ---
+  app.get("/api/bankroll", requireUser, (req, res) => {
+    res.json(bankrollSummary(req.user!.id));
+  });
+
+  app.put("/api/bankroll/settings", requireUser, (req, res) => {
+    try {
+      res.json(saveStakingConfig(req.body || {}, req.user!.id));
+    } catch (error) {
+      if (error instanceof StakingConfigError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Staking settings error:", error);
+      res.status(500).json({ error: "Failed to save staking settings" });
+    }
+  });
+
+  app.get("/api/bets", requireUser, (req, res) => {
+    res.json(listBets(req.user!.id));
+  });
+
+  app.get("/api/bets/export", requireUser, (req, res) => {
+    let format: ExportFormat;
+    try {
+      format = parseExportFormat(req.query.format);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    sendReport(res, ledgerReport(listBets(req.user!.id)), format, "ledger");
+  });
+
+  app.post("/api/bets", requireUser, (req, res) => {
+    try {
+      res.status(201).json(placeBet(req.user!.id, req.body || {}));
+    } catch (error) {
+      if (error instanceof LedgerError || error instanceof MarketDefinitionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Place bet error:", error);
+      res.status(500).json({ error: "Failed to place bet" });
+    }
+  });
+
+  // --- Alerts ---
+  app.get("/api/alerts/rules", requireAdmin, (req, res) => {
+    res.json(listAlertRules());
+  });
+
+  app.post("/api/alerts/rules", requireAdmin, (req, res) => {
+    try {
+      res.status(201).json(createAlertRule(req.body || {}));
+    } catch (error) {
+      if (error instanceof AlertRuleError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Alert rule error:", error);
+      res.status(500).json({ error: "Failed to save alert rule" });
+    }
+  });
+
+  app.put("/api/alerts/rules/:id", requireAdmin, (req, res) => {
+    try {
+      const rule = updateAlertRule(Number(req.params.id), req.body || {});
+      if (!rule) {
+        return res.status(404).json({ error: `Unknown alert rule ${req.params.id}` });
+      }
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof AlertRuleError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Alert rule error:", error);
+      res.status(500).json({ error: "Failed to save alert rule" });
+    }
+  });
+
+  app.delete("/api/alerts/rules/:id", requireAdmin, (req, res) => {
+    if (!deleteAlertRule(Number(req.params.id))) {
+      return res.status(404).json({ error: `Unknown alert rule ${req.params.id}` });
+    }
+    res.status(204).end();
+  });
+
+  app.get("/api/alerts/deliveries", requireAdmin, (req, res) => {
+    res.json(listAlertDeliveries());
+  });
+
+  // Runs the alerts job now instead of waiting for the schedule
+  app.post("/api/alerts/run", requireAdmin, async (req, res) => {
+    const run = await runJob("alerts", "manual");
+    if (!run) {
+      return res.status(409).json({ error: "Alerts are already running" });
+    }
+    res.status(run.status === "error" ? 502 : 200).json(run);
+  });
+
+  // --- Entity Resolution ---
+  app.get("/api/entities/reviews", (req, res) => {
+    const status = req.query.status as ReviewStatus | undefined;
+    if (status && !["pending", "confirmed", "rejected"].includes(status)) {
+      return res.status(400).json({ error: "status must be pending, confirmed or rejected" });
+    }
+    res.json(listReviews(status).map(r => ({
+      ...r,
+      candidates: r.status === "pending" ? reviewCandidates(r) : []
+    })));
+  });
+
+  // Confirms the suggested mapping, or overrides it with { id }
+  app.post("/api/entities/reviews/:id/confirm", requireAdmin, (req, res) => {
+    try {
+      const override = req.body?.id;
+      const review = confirmReview(Number(req.params.id), override === undefined || override === null ? undefined : Number(override));
+      if (!review) {
+        return res.status(404).json({ error: `Unknown review ${req.params.id}` });
+      }
+      res.json(review);
+    } catch (error) {
+      if (error instanceof AliasError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Review error:", error);
+      res.status(500).json({ error: "Failed to confirm review" });
+    }
+  });
+
+  app.post("/api/entities/reviews/:id/reject", requireAdmin, (req, res) => {
+    const review = rejectReview(Number(req.params.id));
+    if (!review) {
+      return res.status(404).json({ error: `Unknown review ${req.params.id}` });
+    }
+    res.json(review);
+  });
+
+  app.get("/api/entities/:entity/aliases", (req, res) => {
+    try {
+      res.json(listAliases(parseEntityType(req.params.entity)));
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  });
+
+  // Maps a spelling by hand: { alias, id }
+  app.put("/api/entities/:entity/aliases", requireAdmin, (req, res) => {
+    try {
+      const entity = parseEntityType(req.params.entity);
+      const { alias, id } = req.body || {};
+      if (!alias || typeof alias !== "string") throw new AliasError("alias is required");
+      if (!listEntities(entity).some(e => e.id === Number(id))) throw new AliasError(`Unknown ${entity} ${id}`);
+      setAlias(entity, alias, Number(id), "manual");
+      res.json(listAliases(entity));
+    } catch (error) {
+      if (error instanceof AliasError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Alias error:", error);
+      res.status(500).json({ error: "Failed to save alias" });
+    }
+  });
+
+  app.delete("/api/entities/:entity/aliases/:alias", requireAdmin, (req, res) => {
+    let entity;
+    try {
+      entity = parseEntityType(req.params.entity);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    if (!deleteAlias(entity, req.params.alias)) {
+      return res.status(404).json({ error: `Unknown alias ${req.params.alias}` });
+    }
+    res.status(204).end();
+  });
+
+  app.get("/api/entities/:entity", (req, res) => {
+    try {
+      const league = req.query.league ? Number(req.query.league) : undefined;
+      res.json(listEntities(parseEntityType(req.params.entity), league));
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/sync", requireAdmin, async (req, res) => {
+    if (isSyncRunning()) {
+      return res.status(409).json({ error: "A sync is already running" });
+    }
+    const runs = await runAllJobs();
+    const failed = runs.filter(r => r.status === "error");
+    res.status(failed.length > 0 ? 502 : 200).json({
+      status: failed.length > 0 ? `Sync failed for ${failed.map(r => r.job).join(", ")}` : "Worldwide sync completed",
+      runs
+    });
+  });
+
+  app.get("/api/sync/status", (req, res) => {
+    res.json(syncStatus());
+  });
+
+  app.post("/api/sync/history", requireAdmin, async (req, res) => {
+    const { seasons, competitions } = req.body || {};
+    if (seasons !== undefined && (!Array.isArray(seasons) || !seasons.every(s => Number.isInteger(s)))) {
+      return res.status(400).json({ error: "seasons must be a list of starting years, e.g. [2024]" });
+    }
+    if (competitions !== undefined && (!Array.isArray(competitions) || !competitions.every(c => typeof c === "string"))) {
+      return res.status(400).json({ error: "competitions must be a list of competition codes, e.g. [\"PL\"]" });
+    }
+    try {
+      const stored = await backfillResults({ seasons, competitions });
+      fitRatings();
+      res.json({ status: "History backfill completed", matches: stored });
+    } catch (error) {
+      console.error("History backfill error:", error);
+      res.status(500).json({ error: "Failed to backfill history" });
+    }
+  });
+
+  app.post("/api/import/corners", requireAdmin, (req, res) => {
+    const { path: filePath, aliases } = req.body || {};
+    if (!filePath) {
+      return res.status(400).json({ error: "path is required" });
+    }
+    try {
+      // Optional { "Man United": 66 } map for names the alias table does not know yet
+      for (const [alias, teamId] of Object.entries(aliases || {})) {
+        addTeamAlias(alias, Number(teamId));
+      }
+      const result = importCornersCsv(filePath);
+      fitRatings();
+      settleOpenBets();
+      res.json(result);
+    } catch (error) {
+      console.error("Corners import error:", error);
+      res.status(500).json({ error: "Failed to import corners" });
+    }
   });
 
   // Vite middleware for development
@@ -249,6 +815,8 @@ async function startServer() {
 
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    if (SCHEDULER_ENABLED) startScheduler();
+    startLiveFeed();
   });
 }
 
@@ -0,0 +1,213 @@
+import { db } from "./db";
+import { MatchRatings } from "./ratings";
+
+export class AdjustmentError extends Error {}
+
+export const ADJUSTMENT_TARGETS = ["homeExpG", "awayExpG", "homeExpC", "awayExpC"] as const;
+export type AdjustmentTarget = typeof ADJUSTMENT_TARGETS[number];
+export const ADJUSTMENT_KINDS = ["percent", "absolute"] as const;
+export type AdjustmentKind = typeof ADJUSTMENT_KINDS[number];
+
+// Bounds that catch typos (15 meant as 1.5 goals) rather than judge the call
+const MIN_PERCENT = -90;
+const MAX_PERCENT = 200;
+const MAX_GOALS = 6;
+const MAX_CORNERS = 20;
+
+// What an adjustment does, as recorded in the audit log
+export interface AdjustmentState {
+  target: AdjustmentTarget;
+  kind: AdjustmentKind;
+  value: number;
+  active: boolean;
+}
+
+export interface Adjustment extends AdjustmentState {
+  id: number;
+  matchId: number;
+  reason: string;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdjustmentLogEntry {
+  id: number;
+  adjustmentId: number;
+  matchId: number;
+  action: "create" | "update" | "delete";
+  user: string | null;
+  reason: string;
+  before: AdjustmentState | null;
+  after: AdjustmentState | null;
+  at: string;
+}
+
+function toAdjustment(r: any): Adjustment {
+  return {
+    id: r.id,
+    matchId: r.match_id,
+    target: r.target,
+    kind: r.kind,
+    value: r.value,
+    active: r.active === 1,
+    reason: r.reason,
+    createdBy: r.username ?? null,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at
+  };
+}
+
+const stateOf = (a: Adjustment): AdjustmentState => ({ target: a.target, kind: a.kind, value: a.value, active: a.active });
+
+// --- Validation ---
+// Every change needs a reason; the fields default to the current state on update
+function parseChange(input: any, current?: AdjustmentState): { state: AdjustmentState; reason: string } {
+  const reason = typeof input?.reason === "string" ? input.reason.trim() : "";
+  if (!reason) throw new AdjustmentError("reason is required");
+
+  const target = input.target ?? current?.target;
+  if (!ADJUSTMENT_TARGETS.includes(target)) {
+    throw new AdjustmentError(`target must be one of ${ADJUSTMENT_TARGETS.join(", ")}`);
+  }
+  const kind = input.kind ?? current?.kind;
+  if (!ADJUSTMENT_KINDS.includes(kind)) throw new AdjustmentError("kind must be percent or absolute");
+  const value = input.value !== undefined ? Number(input.value) : current?.value;
+  if (value === undefined || !Number.isFinite(value)) throw new AdjustmentError("value must be a number");
+  if (kind === "percent" && (value < MIN_PERCENT || value > MAX_PERCENT)) {
+    throw new AdjustmentError(`A percentage change must be between ${MIN_PERCENT} and ${MAX_PERCENT}`);
+  }
+  const max = target.endsWith("ExpG") ? MAX_GOALS : MAX_CORNERS;
+  if (kind === "absolute" && (value <= 0 || value > max)) {
+    throw new AdjustmentError(`An absolute ${target} must be above 0 and at most ${max}`);
+  }
+  const active = input.active !== undefined ? input.active === true || input.active === "true" : current?.active ?? true;
+  return { state: { target, kind, value, active }, reason };
+}
+
+// --- Adjustments ---
+const SELECT_ADJUSTMENTS = `
+  SELECT a.*, u.username FROM match_adjustments a LEFT JOIN users u ON a.created_by = u.id
+`;
+
+export function listAdjustments(matchId: number): Adjustment[] {
+  return (db.prepare(`${SELECT_ADJUSTMENTS} WHERE a.match_id = ? ORDER BY a.id`).all(matchId) as any[]).map(toAdjustment);
+}
+
+function getAdjustment(id: number): Adjustment | null {
+  const row = db.prepare(`${SELECT_ADJUSTMENTS} WHERE a.id = ?`).get(id);
+  return row ? toAdjustment(row) : null;
+}
+
+function logChange(
+  adjustmentId: number, matchId: number, action: AdjustmentLogEntry["action"], userId: number, reason: string,
+  before: AdjustmentState | null, after: AdjustmentState | null
+) {
+  db.prepare(`
+    INSERT INTO adjustment_log (adjustment_id, match_id, action, user_id, reason, before, after, at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    adjustmentId, matchId, action, userId, reason,
+    before ? JSON.stringify(before) : null, after ? JSON.stringify(after) : null, new Date().toISOString()
+  );
+}
+
+export function createAdjustment(matchId: number, input: any, userId: number): Adjustment {
+  if (!db.prepare("SELECT 1 FROM matches WHERE id = ?").get(matchId)) throw new AdjustmentError("Unknown match");
+  const { state, reason } = parseChange(input);
+  const now = new Date().toISOString();
+  const id = db.transaction(() => {
+    const result = db.prepare(`
+      INSERT INTO match_adjustments (match_id, target, kind, value, reason, active, created_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(matchId, state.target, state.kind, state.value, reason, state.active ? 1 : 0, userId, now, now);
+    const id = Number(result.lastInsertRowid);
+    logChange(id, matchId, "create", userId, reason, null, state);
+    return id;
+  })();
+  return getAdjustment(id)!;
+}
+
+// Changes the value, kind, target or active flag; null when there is no such
+// adjustment. The reason for the change goes to the log, the original stays.
+export function updateAdjustment(id: number, input: any, userId: number): Adjustment | null {
+  const current = getAdjustment(id);
+  if (!current) return null;
+  const { state, reason } = parseChange(input, stateOf(current));
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE match_adjustments SET target = ?, kind = ?, value = ?, active = ?, updated_at = ? WHERE id = ?
+    `).run(state.target, state.kind, state.value, state.active ? 1 : 0, new Date().toISOString(), id);
+    logChange(id, current.matchId, "update", userId, reason, stateOf(current), state);
+  })();
+  return getAdjustment(id);
+}
+
+export function deleteAdjustment(id: number, reason: any, userId: number): boolean {
+  const current = getAdjustment(id);
+  if (!current) return false;
+  const why = typeof reason === "string" ? reason.trim() : "";
+  if (!why) throw new AdjustmentError("reason is required");
+  db.transaction(() => {
+    db.prepare("DELETE FROM match_adjustments WHERE id = ?").run(id);
+    logChange(id, current.matchId, "delete", userId, why, stateOf(current), null);
+  })();
+  return true;
+}
+
+// Newest first, for one match or across all of them
+export function adjustmentLog(matchId?: number, limit = 100): AdjustmentLogEntry[] {
+  const rows = db.prepare(`
+    SELECT l.*, u.username FROM adjustment_log l LEFT JOIN users u ON l.user_id = u.id
+    ${matchId !== undefined ? "WHERE l.match_id = ?" : ""}
+    ORDER BY l.id DESC LIMIT ?
+  `).all(...(matchId !== undefined ? [matchId, limit] : [limit])) as any[];
+  return rows.map(r => ({
+    id: r.id,
+    adjustmentId: r.adjustment_id,
+    matchId: r.match_id,
+    action: r.action,
+    user: r.username ?? null,
+    reason: r.reason,
+    before: r.before ? JSON.parse(r.before) : null,
+    after: r.after ? JSON.parse(r.after) : null,
+    at: r.at
+  }));
+}
+
+// --- Applying ---
+// Active adjustments per match, in the order they were made
+export function loadActiveAdjustments(): Map<number, AdjustmentState[]> {
+  const byMatch = new Map<number, AdjustmentState[]>();
+  for (const a of (db.prepare(`${SELECT_ADJUSTMENTS} WHERE a.active = 1 ORDER BY a.id`).all() as any[]).map(toAdjustment)) {
+    if (!byMatch.has(a.matchId)) byMatch.set(a.matchId, []);
+    byMatch.get(a.matchId)!.push(stateOf(a));
+  }
+  return byMatch;
+}
+
+// The adjustments that were active at a moment, replayed from the audit log,
+// so backtests only see what an analyst had entered by the decision time.
+export function adjustmentsAsOf(): (matchId: number, asOf: string) => AdjustmentState[] {
+  const byMatch = new Map<number, { adjustmentId: number; at: string; after: AdjustmentState | null }[]>();
+  for (const r of db.prepare("SELECT adjustment_id, match_id, after, at FROM adjustment_log ORDER BY id").all() as any[]) {
+    if (!byMatch.has(r.match_id)) byMatch.set(r.match_id, []);
+    byMatch.get(r.match_id)!.push({ adjustmentId: r.adjustment_id, at: r.at, after: r.after ? JSON.parse(r.after) : null });
+  }
+  return (matchId, asOf) => {
+    const latest = new Map<number, AdjustmentState | null>();
+    for (const entry of byMatch.get(matchId) ?? []) {
+      if (entry.at <= asOf) latest.set(entry.adjustmentId, entry.after);
+    }
+    return [...latest.values()].filter((s): s is AdjustmentState => s !== null && s.active);
+  };
+}
+
+// An absolute override replaces the input (the latest one wins), then
+// percentage changes compound on top of it.
+export function applyAdjustments<T extends Pick<MatchRatings, AdjustmentTarget>>(inputs: T, adjustments: AdjustmentState[]): T {
+  const adjusted = { ...inputs };
+  for (const a of adjustments) if (a.kind === "absolute") adjusted[a.target] = a.value;
+  for (const a of adjustments) if (a.kind === "percent") adjusted[a.target] *= 1 + a.value / 100;
+  return adjusted;
+}
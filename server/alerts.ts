@@ -0,0 +1,245 @@
+import axios from "axios";
+import { db } from "./db";
+import { findMarket } from "./markets";
+import { findAllOpportunities, findOpportunities, parseOpportunityQuery } from "./opportunities";
+
+export class AlertRuleError extends Error {}
+
+const FORMATS = ["json", "telegram", "discord"] as const;
+export type AlertFormat = typeof FORMATS[number];
+export type AlertEvent = "new" | "price_improved";
+
+// A pick already alerted is only sent again once its best price beats the
+// alerted one by this much (relative)
+const MIN_PRICE_IMPROVEMENT = 0.01;
+const WEBHOOK_TIMEOUT_MS = 10000;
+// Webhooks in flight at once, so a slow receiver holds up one slot rather
+// than the whole run
+const WEBHOOK_CONCURRENCY = 4;
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  enabled: boolean;
+  format: AlertFormat;
+  url: string;
+  // Telegram only: the chat the bot posts to
+  chatId: string | null;
+  // Catalogue market id or "all"
+  market: string;
+  // League names; null matches every league
+  leagues: string[] | null;
+  minEdge: number;
+  minEv: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function toRule(r: any): AlertRule {
+  return {
+    id: r.id,
+    name: r.name,
+    enabled: r.enabled === 1,
+    format: r.format,
+    url: r.url,
+    chatId: r.chat_id,
+    market: r.market,
+    leagues: r.leagues ? JSON.parse(r.leagues) : null,
+    minEdge: r.min_edge,
+    minEv: r.min_ev,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at
+  };
+}
+
+// --- Rules ---
+function validateRule(input: any, current?: AlertRule) {
+  const rule = { ...current, ...input };
+  if (!rule.name || typeof rule.name !== "string") throw new AlertRuleError("name is required");
+  if (!FORMATS.includes(rule.format)) throw new AlertRuleError(`format must be one of ${FORMATS.join(", ")}`);
+  try {
+    const url = new URL(rule.url);
+    if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error();
+  } catch {
+    throw new AlertRuleError("url must be an http(s) URL");
+  }
+  if (rule.format === "telegram" && !rule.chatId) throw new AlertRuleError("chatId is required for Telegram webhooks");
+  rule.market = rule.market || "all";
+  if (rule.market !== "all" && !findMarket(rule.market)) throw new AlertRuleError(`Unknown market "${rule.market}"`);
+  if (rule.leagues !== undefined && rule.leagues !== null &&
+      (!Array.isArray(rule.leagues) || !rule.leagues.every((l: any) => typeof l === "string"))) {
+    throw new AlertRuleError("leagues must be a list of league names");
+  }
+  for (const key of ["minEdge", "minEv"] as const) {
+    rule[key] = Number(rule[key] ?? 0);
+    if (!Number.isFinite(rule[key])) throw new AlertRuleError(`${key} must be a number`);
+  }
+  return {
+    name: rule.name as string,
+    enabled: rule.enabled === undefined ? 1 : rule.enabled ? 1 : 0,
+    format: rule.format as AlertFormat,
+    url: rule.url as string,
+    chatId: rule.format === "telegram" ? String(rule.chatId) : null,
+    market: rule.market as string,
+    leagues: rule.leagues && rule.leagues.length > 0 ? JSON.stringify(rule.leagues) : null,
+    minEdge: rule.minEdge as number,
+    minEv: rule.minEv as number
+  };
+}
+
+export function listAlertRules(): AlertRule[] {
+  return (db.prepare("SELECT * FROM alert_rules ORDER BY id").all() as any[]).map(toRule);
+}
+
+export function getAlertRule(id: number): AlertRule | null {
+  const row = db.prepare("SELECT * FROM alert_rules WHERE id = ?").get(id);
+  return row ? toRule(row) : null;
+}
+
+export function createAlertRule(input: any): AlertRule {
+  const r = validateRule(input);
+  const now = new Date().toISOString();
+  const result = db.prepare(`
+    INSERT INTO alert_rules (name, enabled, format, url, chat_id, market, leagues, min_edge, min_ev, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(r.name, r.enabled, r.format, r.url, r.chatId, r.market, r.leagues, r.minEdge, r.minEv, now, now);
+  return getAlertRule(Number(result.lastInsertRowid))!;
+}
+
+export function updateAlertRule(id: number, input: any): AlertRule | null {
+  const current = getAlertRule(id);
+  if (!current) return null;
+  const r = validateRule(input, current);
+  db.prepare(`
+    UPDATE alert_rules
+    SET name = ?, enabled = ?, format = ?, url = ?, chat_id = ?, market = ?, leagues = ?, min_edge = ?, min_ev = ?, updated_at = ?
+    WHERE id = ?
+  `).run(r.name, r.enabled, r.format, r.url, r.chatId, r.market, r.leagues, r.minEdge, r.minEv, new Date().toISOString(), id);
+  return getAlertRule(id);
+}
+
+export function deleteAlertRule(id: number): boolean {
+  const result = db.prepare("DELETE FROM alert_rules WHERE id = ?").run(id);
+  db.prepare("DELETE FROM alert_notifications WHERE rule_id = ?").run(id);
+  return result.changes > 0;
+}
+
+export function listAlertDeliveries(limit = 50) {
+  return (db.prepare(`
+    SELECT d.*, r.name as rule_name FROM alert_deliveries d
+    LEFT JOIN alert_rules r ON d.rule_id = r.id
+    ORDER BY d.id DESC LIMIT ?
+  `).all(limit) as any[]).map(d => ({
+    id: d.id,
+    ruleId: d.rule_id,
+    ruleName: d.rule_name,
+    opportunityKey: d.opportunity_key,
+    event: d.event as AlertEvent,
+    bestOdd: d.best_odd,
+    status: d.status as "sent" | "failed",
+    error: d.error,
+    sentAt: d.sent_at
+  }));
+}
+
+// --- Payloads ---
+type Opportunity = Awaited<ReturnType<typeof findOpportunities>>["items"][number];
+
+function alertText(event: AlertEvent, o: Opportunity, previousOdd: number | null) {
+  const teamY = o.isTeamYHome ? o.homeTeam : o.awayTeam;
+  const headline = event === "new"
+    ? "New value pick"
+    : `Price improved ${previousOdd!.toFixed(2)} -> ${o.bestOdd.toFixed(2)}`;
+  return [
+    `${headline}: ${o.homeTeam} vs ${o.awayTeam} (${o.league})`,
+    `${o.marketName}, Team Y: ${teamY}`,
+    `Kickoff ${new Date(o.date).toUTCString()}`,
+    `Best odd ${o.bestOdd.toFixed(2)} | model ${(o.probModel * 100).toFixed(1)}% | edge ${(o.edge * 100).toFixed(1)}% | EV ${o.ev.toFixed(2)}`
+  ].join("\n");
+}
+
+export function webhookPayload(rule: AlertRule, event: AlertEvent, o: Opportunity, previousOdd: number | null) {
+  if (rule.format === "telegram") return { chat_id: rule.chatId, text: alertText(event, o, previousOdd) };
+  if (rule.format === "discord") return { content: alertText(event, o, previousOdd) };
+  return {
+    event,
+    rule: { id: rule.id, name: rule.name },
+    previousOdd,
+    opportunity: {
+      key: o.key,
+      matchId: o.matchId,
+      homeTeam: o.homeTeam,
+      awayTeam: o.awayTeam,
+      league: o.league,
+      date: o.date,
+      marketId: o.marketId,
+      marketName: o.marketName,
+      isTeamYHome: o.isTeamYHome,
+      bestOdd: o.bestOdd,
+      fairOdds: o.fairOdds,
+      probModel: o.probModel,
+      edge: o.edge,
+      ev: o.ev,
+      confidence: o.confidence,
+      suggestedStake: o.suggestedStake
+    }
+  };
+}
+
+// --- Evaluation ---
+async function ruleOpportunities(rule: AlertRule) {
+  const params: Record<string, any> = { market: rule.market, minEdge: rule.minEdge, minEv: rule.minEv };
+  if (rule.leagues) params.league = rule.leagues.join(",");
+  return (await findAllOpportunities(parseOpportunityQuery(params))).items;
+}
+
+// Re-runs the analysis for every enabled rule and sends each matching pick
+// once, plus again whenever its best price improves on the alerted one.
+// Webhooks go out WEBHOOK_CONCURRENCY at a time. Failed deliveries are not
+// recorded as notified, so the next run retries.
+export async function runAlerts() {
+  const lastNotified = db.prepare("SELECT best_odd FROM alert_notifications WHERE rule_id = ? AND opportunity_key = ?");
+  const markNotified = db.prepare(`
+    INSERT OR REPLACE INTO alert_notifications (rule_id, opportunity_key, best_odd, notified_at) VALUES (?, ?, ?, ?)
+  `);
+  const logDelivery = db.prepare(`
+    INSERT INTO alert_deliveries (rule_id, opportunity_key, event, best_odd, status, error, sent_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const deliveries: { rule: AlertRule; o: Opportunity; event: AlertEvent; previousOdd: number | null }[] = [];
+  for (const rule of listAlertRules().filter(r => r.enabled)) {
+    for (const o of await ruleOpportunities(rule)) {
+      const previous = lastNotified.get(rule.id, o.key) as any;
+      if (!previous) {
+        deliveries.push({ rule, o, event: "new", previousOdd: null });
+      } else if (o.bestOdd >= previous.best_odd * (1 + MIN_PRICE_IMPROVEMENT)) {
+        deliveries.push({ rule, o, event: "price_improved", previousOdd: previous.best_odd });
+      }
+    }
+  }
+
+  let sent = 0;
+  const errors: string[] = [];
+  let next = 0;
+  const sender = async () => {
+    while (next < deliveries.length) {
+      const { rule, o, event, previousOdd } = deliveries[next++];
+      try {
+        await axios.post(rule.url, webhookPayload(rule, event, o, previousOdd), { timeout: WEBHOOK_TIMEOUT_MS });
+        const now = new Date().toISOString();
+        markNotified.run(rule.id, o.key, o.bestOdd, now);
+        logDelivery.run(rule.id, o.key, event, o.bestOdd, "sent", null, now);
+        sent++;
+      } catch (error: any) {
+        const message = error.response ? `HTTP ${error.response.status}` : error.message;
+        logDelivery.run(rule.id, o.key, event, o.bestOdd, "failed", message, new Date().toISOString());
+        errors.push(`${rule.name}: ${message}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(WEBHOOK_CONCURRENCY, deliveries.length) }, sender));
+
+  if (sent > 0) console.log(`Sent ${sent} alerts`);
+  return { sent, errors: [...new Set(errors)] };
+}
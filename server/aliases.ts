@@ -0,0 +1,409 @@
+import { db } from "./db";
+
+export class AliasError extends Error {}
+
+export type EntityType = "team" | "competition";
+// confirmed: from the canonical source or a person; auto: accepted by fuzzy matching
+export type AliasStatus = "confirmed" | "auto";
+export type ReviewStatus = "pending" | "confirmed" | "rejected";
+
+const ENTITIES: Record<EntityType, { table: string; column: string }> = {
+  team: { table: "team_aliases", column: "team_id" },
+  competition: { table: "competition_aliases", column: "league_id" }
+};
+
+export function parseEntityType(value: any): EntityType {
+  if (value !== "team" && value !== "competition") throw new AliasError("entity must be team or competition");
+  return value;
+}
+
+// Teams (optionally of one league) or competitions, for picking a mapping by hand
+export function listEntities(entity: EntityType, leagueId?: number) {
+  if (entity === "competition") {
+    return db.prepare("SELECT id, name, code FROM leagues ORDER BY name").all() as { id: number; name: string; code: string | null }[];
+  }
+  const where = leagueId !== undefined ? "WHERE t.league_id = ?" : "";
+  return db.prepare(`
+    SELECT t.id, t.name, l.name as league FROM teams t LEFT JOIN leagues l ON t.league_id = l.id ${where} ORDER BY t.name
+  `).all(...(leagueId !== undefined ? [leagueId] : [])) as { id: number; name: string; league: string | null }[];
+}
+
+// A fuzzy match is used without review when it scores at least this and
+// beats the runner-up by the margin; below REVIEW_MIN_SCORE it is discarded.
+const AUTO_ACCEPT_SCORE = 0.8;
+const AUTO_ACCEPT_MARGIN = 0.1;
+const REVIEW_MIN_SCORE = 0.4;
+// Share of the score lost by a fixture at the edge of the kickoff window
+const KICKOFF_PENALTY = 0.2;
+const REVIEW_CANDIDATES = 5;
+
+// --- Name Normalisation ---
+// Other sources (CSV history, odds feeds) name teams differently from
+// football-data.org, e.g. "Man United" vs "Manchester United FC". Every known
+// spelling is stored normalised and mapped to our team id.
+const NOISE_TOKENS = new Set(["fc", "afc", "cf", "sc", "ac", "sv", "fk", "cd", "ud", "ssc", "as", "club", "de", "calcio"]);
+
+export function normalizeTeamName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9 ]/g, " ")
+    .split(/\s+/)
+    .filter(t => t && !NOISE_TOKENS.has(t))
+    .join(" ");
+}
+
+// Dice coefficient over character bigrams of the normalised names (0..1).
+function bigramSimilarity(a: string, b: string): number {
+  const bigrams = (s: string) => {
+    const out = new Map<string, number>();
+    const t = normalizeTeamName(s).replace(/ /g, "");
+    for (let i = 0; i < t.length - 1; i++) {
+      const g = t.slice(i, i + 2);
+      out.set(g, (out.get(g) || 0) + 1);
+    }
+    return out;
+  };
+  const x = bigrams(a);
+  const y = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+  for (const [g, n] of x) {
+    overlap += Math.min(n, y.get(g) || 0);
+    total += n;
+  }
+  for (const n of y.values()) total += n;
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+// "man" ~ "manchester", "utd" ~ "united": equal, or at least three letters
+// that are a prefix or an abbreviation keeping the first letter and the order.
+function tokenMatches(short: string, long: string) {
+  if (short === long) return true;
+  if (short.length < 3 || short[0] !== long[0] || short.length >= long.length) return false;
+  if (long.startsWith(short)) return true;
+  let i = 0;
+  for (const ch of long) if (ch === short[i]) i++;
+  return i === short.length;
+}
+
+// Share of tokens paired up between the names; a single token may also be
+// the initials of the other name ("psg" ~ "paris saint germain").
+function tokenSimilarity(a: string, b: string): number {
+  const x = normalizeTeamName(a).split(" ").filter(Boolean);
+  const y = normalizeTeamName(b).split(" ").filter(Boolean);
+  if (x.length === 0 || y.length === 0) return 0;
+  const [short, long] = x.length <= y.length ? [x, y] : [y, x];
+  if (short.length === 1 && long.length > 1 && short[0] === long.map(t => t[0]).join("")) return 1;
+
+  const unused = [...long];
+  let matched = 0;
+  for (const token of short) {
+    const i = unused.findIndex(t => tokenMatches(token, t) || tokenMatches(t, token));
+    if (i === -1) continue;
+    unused.splice(i, 1);
+    matched++;
+  }
+  return matched / long.length;
+}
+
+// 0..1; token pairing is discounted so an exact spelling still ranks first
+export function nameSimilarity(a: string, b: string): number {
+  return Math.max(bigramSimilarity(a, b), 0.9 * tokenSimilarity(a, b));
+}
+
+// --- Aliases ---
+// A confirmed alias is never replaced by an automatic one. Setting an alias
+// settles any pending review of the same spelling.
+export function setAlias(entity: EntityType, alias: string, id: number, source: string, status: AliasStatus = "confirmed", score: number | null = null) {
+  const key = normalizeTeamName(alias);
+  if (!key) return;
+  const { table, column } = ENTITIES[entity];
+  db.prepare(`
+    INSERT INTO ${table} (alias, ${column}, source, status, score, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(alias) DO UPDATE SET
+      ${column} = excluded.${column},
+      source = excluded.source,
+      status = excluded.status,
+      score = excluded.score,
+      updated_at = excluded.updated_at
+    WHERE ${table}.status != 'confirmed' OR excluded.status = 'confirmed'
+  `).run(key, id, source, status, score, new Date().toISOString());
+  db.prepare(`
+    UPDATE entity_reviews SET status = 'confirmed', resolved_id = ?, updated_at = ?
+    WHERE entity = ? AND alias = ? AND status = 'pending'
+  `).run(id, new Date().toISOString(), entity, key);
+}
+
+export function resolveAlias(entity: EntityType, name: string): number | null {
+  const { table, column } = ENTITIES[entity];
+  const row = db.prepare(`SELECT ${column} as id FROM ${table} WHERE alias = ?`).get(normalizeTeamName(name)) as any;
+  return row ? row.id : null;
+}
+
+export function deleteAlias(entity: EntityType, alias: string): boolean {
+  const { table } = ENTITIES[entity];
+  return db.prepare(`DELETE FROM ${table} WHERE alias = ?`).run(normalizeTeamName(alias)).changes > 0;
+}
+
+export function addTeamAlias(alias: string, teamId: number, source = "manual") {
+  setAlias("team", alias, teamId, source);
+}
+
+export function resolveTeamId(name: string): number | null {
+  return resolveAlias("team", name);
+}
+
+export function listAliases(entity: EntityType) {
+  const { table, column } = ENTITIES[entity];
+  const names = entity === "team" ? "teams" : "leagues";
+  return (db.prepare(`
+    SELECT a.*, a.${column} as id, n.name FROM ${table} a LEFT JOIN ${names} n ON a.${column} = n.id
+    ORDER BY n.name, a.alias
+  `).all() as any[]).map(r => ({
+    alias: r.alias,
+    id: r.id as number,
+    name: r.name as string | null,
+    source: r.source as string | null,
+    status: r.status as AliasStatus,
+    score: r.score as number | null,
+    updatedAt: r.updated_at as string | null
+  }));
+}
+
+// Best similarity of a name to any known spelling of each entity
+function scoreEntities(entity: EntityType, name: string, ids: number[]) {
+  if (ids.length === 0) return new Map<number, number>();
+  const { table, column } = ENTITIES[entity];
+  const names = entity === "team" ? "teams" : "leagues";
+  const placeholders = ids.map(() => "?").join(",");
+  const spellings = [
+    ...db.prepare(`SELECT id, name FROM ${names} WHERE id IN (${placeholders})`).all(...ids) as any[],
+    ...db.prepare(`SELECT ${column} as id, alias as name FROM ${table} WHERE ${column} IN (${placeholders})`).all(...ids) as any[]
+  ];
+  if (entity === "competition") {
+    spellings.push(...db.prepare(`SELECT id, code as name FROM leagues WHERE code IS NOT NULL AND id IN (${placeholders})`).all(...ids) as any[]);
+  }
+  const scores = new Map<number, number>(ids.map(id => [id, 0]));
+  for (const s of spellings) {
+    if (!s.name) continue;
+    scores.set(s.id, Math.max(scores.get(s.id)!, nameSimilarity(name, s.name)));
+  }
+  return scores;
+}
+
+// --- Review Queue ---
+export interface EntityReview {
+  id: number;
+  entity: EntityType;
+  source: string;
+  name: string;
+  leagueId: number | null;
+  // What the name was seen with, e.g. kickoff and opponent
+  context: Record<string, any>;
+  candidateId: number | null;
+  candidateName: string | null;
+  score: number | null;
+  status: ReviewStatus;
+  resolvedId: number | null;
+  seen: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function toReview(r: any): EntityReview {
+  return {
+    id: r.id,
+    entity: r.entity,
+    source: r.source,
+    name: r.name,
+    leagueId: r.league_id,
+    context: r.context ? JSON.parse(r.context) : {},
+    candidateId: r.candidate_id,
+    candidateName: r.candidate_name,
+    score: r.score,
+    status: r.status,
+    resolvedId: r.resolved_id,
+    seen: r.seen,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at
+  };
+}
+
+const REVIEW_QUERY = `
+  SELECT r.*, COALESCE(t.name, l.name) as candidate_name
+  FROM entity_reviews r
+  LEFT JOIN teams t ON r.entity = 'team' AND r.candidate_id = t.id
+  LEFT JOIN leagues l ON r.entity = 'competition' AND r.candidate_id = l.id
+`;
+
+function isRejected(entity: EntityType, name: string) {
+  const row = db.prepare("SELECT status FROM entity_reviews WHERE entity = ? AND alias = ?").get(entity, normalizeTeamName(name)) as any;
+  return row?.status === "rejected";
+}
+
+// One row per entity and spelling; seeing it again refreshes the suggestion
+// while it is pending.
+function queueReview(entity: EntityType, source: string, name: string, leagueId: number | null, candidateId: number | null, score: number, context: Record<string, any>) {
+  const now = new Date().toISOString();
+  db.prepare(`
+    INSERT INTO entity_reviews (entity, source, name, alias, league_id, context, candidate_id, score, status, seen, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', 1, ?, ?)
+    ON CONFLICT(entity, alias) DO UPDATE SET
+      seen = entity_reviews.seen + 1,
+      source = CASE WHEN entity_reviews.status = 'pending' THEN excluded.source ELSE entity_reviews.source END,
+      league_id = CASE WHEN entity_reviews.status = 'pending' THEN excluded.league_id ELSE entity_reviews.league_id END,
+      context = CASE WHEN entity_reviews.status = 'pending' THEN excluded.context ELSE entity_reviews.context END,
+      candidate_id = CASE WHEN entity_reviews.status = 'pending' THEN excluded.candidate_id ELSE entity_reviews.candidate_id END,
+      score = CASE WHEN entity_reviews.status = 'pending' THEN excluded.score ELSE entity_reviews.score END,
+      updated_at = excluded.updated_at
+  `).run(entity, source, name, normalizeTeamName(name), leagueId, JSON.stringify(context), candidateId, score, now, now);
+}
+
+export function listReviews(status?: ReviewStatus) {
+  const where = status ? "WHERE r.status = ?" : "";
+  return (db.prepare(`${REVIEW_QUERY} ${where} ORDER BY r.status = 'pending' DESC, r.updated_at DESC`)
+    .all(...(status ? [status] : [])) as any[]).map(toReview);
+}
+
+export function getReview(id: number): EntityReview | null {
+  const row = db.prepare(`${REVIEW_QUERY} WHERE r.id = ?`).get(id);
+  return row ? toReview(row) : null;
+}
+
+// The entities a reviewer would choose between: same league first, best
+// spelling match first.
+export function reviewCandidates(review: EntityReview) {
+  const table = review.entity === "team" ? "teams" : "leagues";
+  const rows = (review.entity === "team" && review.leagueId !== null
+    ? db.prepare("SELECT id, name FROM teams WHERE league_id = ?").all(review.leagueId)
+    : db.prepare(`SELECT id, name FROM ${table}`).all()) as any[];
+  const scores = scoreEntities(review.entity, review.name, rows.map(r => r.id));
+  return rows
+    .map(r => ({ id: r.id as number, name: r.name as string, score: scores.get(r.id)! }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, REVIEW_CANDIDATES);
+}
+
+// Confirms the suggested mapping, or overrides it with another id, as a
+// confirmed alias the importers use from then on.
+export function confirmReview(id: number, overrideId?: number): EntityReview | null {
+  const review = getReview(id);
+  if (!review) return null;
+  const resolvedId = overrideId ?? review.candidateId;
+  if (resolvedId === null || resolvedId === undefined || !Number.isInteger(resolvedId)) {
+    throw new AliasError("An id is required when the review has no suggestion");
+  }
+  const table = review.entity === "team" ? "teams" : "leagues";
+  if (!db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(resolvedId)) {
+    throw new AliasError(`Unknown ${review.entity} ${resolvedId}`);
+  }
+  db.transaction(() => {
+    setAlias(review.entity, review.name, resolvedId, "review");
+    db.prepare("UPDATE entity_reviews SET status = 'confirmed', resolved_id = ?, updated_at = ? WHERE id = ?")
+      .run(resolvedId, new Date().toISOString(), id);
+  })();
+  return getReview(id);
+}
+
+// The spelling is not one of ours (or not worth mapping); it is no longer
+// queued or fuzzily matched.
+export function rejectReview(id: number): EntityReview | null {
+  if (!getReview(id)) return null;
+  db.prepare("UPDATE entity_reviews SET status = 'rejected', resolved_id = NULL, updated_at = ? WHERE id = ?")
+    .run(new Date().toISOString(), id);
+  return getReview(id);
+}
+
+// --- Resolution ---
+// Picks the best candidate: used (and remembered as an automatic alias) when
+// confident, queued for review when plausible, otherwise left unresolved.
+function decide<T extends { score: number }>(ranked: T[]): { best: T | null; confident: boolean } {
+  const [best, second] = ranked;
+  if (!best || best.score < REVIEW_MIN_SCORE) return { best: null, confident: false };
+  const confident = best.score >= AUTO_ACCEPT_SCORE && best.score - (second?.score ?? 0) >= AUTO_ACCEPT_MARGIN;
+  return { best, confident };
+}
+
+export function resolveCompetition(source: string, name: string): number | null {
+  const known = resolveAlias("competition", name);
+  if (known !== null) return known;
+  if (isRejected("competition", name)) return null;
+
+  const ids = (db.prepare("SELECT id FROM leagues").all() as any[]).map(l => l.id as number);
+  const scores = scoreEntities("competition", name, ids);
+  const ranked = [...scores].map(([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+  const { best, confident } = decide(ranked);
+  if (!best) return null;
+  if (confident) {
+    setAlias("competition", name, best.id, source, "auto", best.score);
+    return best.id;
+  }
+  queueReview("competition", source, name, null, best.id, best.score, {});
+  return null;
+}
+
+export interface FixtureRef {
+  source: string;
+  // Narrows the candidates when the source's competition is known
+  leagueId: number | null;
+  kickoff: string;
+  homeTeam: string;
+  awayTeam: string;
+  // Kickoff difference still treated as the same fixture
+  toleranceMs: number;
+}
+
+// Finds our match for another source's fixture. Candidates are the matches
+// kicking off within the tolerance (in the league, when known); each side
+// scores 1 when its alias resolves to that team, 0 when it resolves to
+// another, otherwise its best name similarity. A fixture scores its weaker
+// side, less a little for the kickoff difference.
+export function resolveFixture(ref: FixtureRef): number | null {
+  const kickoff = new Date(ref.kickoff).getTime();
+  const candidates = db.prepare(`
+    SELECT m.id, m.utc_date, m.league_id, m.home_team_id, m.away_team_id
+    FROM matches m
+    WHERE m.utc_date BETWEEN ? AND ? ${ref.leagueId !== null ? "AND m.league_id = ?" : ""}
+  `).all(
+    new Date(kickoff - ref.toleranceMs).toISOString(),
+    new Date(kickoff + ref.toleranceMs).toISOString(),
+    ...(ref.leagueId !== null ? [ref.leagueId] : [])
+  ) as any[];
+  if (candidates.length === 0) return null;
+
+  const homeId = resolveTeamId(ref.homeTeam);
+  const awayId = resolveTeamId(ref.awayTeam);
+  const exact = candidates.find(c => c.home_team_id === homeId && c.away_team_id === awayId);
+  if (exact) return exact.id;
+  if ((homeId === null && isRejected("team", ref.homeTeam)) || (awayId === null && isRejected("team", ref.awayTeam))) return null;
+
+  const homeScores = homeId === null ? scoreEntities("team", ref.homeTeam, candidates.map(c => c.home_team_id)) : null;
+  const awayScores = awayId === null ? scoreEntities("team", ref.awayTeam, candidates.map(c => c.away_team_id)) : null;
+  const side = (resolved: number | null, scores: Map<number, number> | null, teamId: number) =>
+    resolved !== null ? (resolved === teamId ? 1 : 0) : scores!.get(teamId)!;
+
+  const ranked = candidates.map(c => {
+    const home = side(homeId, homeScores, c.home_team_id);
+    const away = side(awayId, awayScores, c.away_team_id);
+    const offset = Math.abs(new Date(c.utc_date).getTime() - kickoff) / ref.toleranceMs;
+    return { c, home, away, score: Math.min(home, away) * (1 - KICKOFF_PENALTY * offset) };
+  }).sort((a, b) => b.score - a.score);
+
+  const { best, confident } = decide(ranked);
+  if (!best) return null;
+  const unresolved = [
+    { name: ref.homeTeam, resolved: homeId, teamId: best.c.home_team_id, score: best.home },
+    { name: ref.awayTeam, resolved: awayId, teamId: best.c.away_team_id, score: best.away }
+  ].filter(s => s.resolved === null);
+
+  if (confident) {
+    for (const s of unresolved) setAlias("team", s.name, s.teamId, ref.source, "auto", s.score);
+    return best.c.id;
+  }
+  const context = { kickoff: ref.kickoff, homeTeam: ref.homeTeam, awayTeam: ref.awayTeam, matchId: best.c.id };
+  for (const s of unresolved) queueReview("team", ref.source, s.name, best.c.league_id, s.teamId, s.score, context);
+  return null;
+}
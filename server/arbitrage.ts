@@ -0,0 +1,117 @@
+import { db } from "./db";
+import { loadMatchPrices } from "./odds";
+import { DEFAULT_DEVIG_METHOD, DEVIG_METHODS, DevigMethod, completeBooks, devig, overround } from "./margins";
+
+export class ArbitrageQueryError extends Error {}
+
+export interface ArbitrageQuery {
+  devig: DevigMethod;
+  leagues?: string[];
+  from?: string;
+  to?: string;
+}
+
+export interface ArbitrageLeg {
+  selection: string;
+  bookmaker: string;
+  odds: number;
+  // Share of the total outlay on this selection for an equal return
+  stakeShare: number;
+}
+
+// Builds a query from string parameters: devig, league (comma-separated
+// names), from, to.
+export function parseArbitrageQuery(params: Record<string, any>): ArbitrageQuery {
+  const method = (params.devig || DEFAULT_DEVIG_METHOD) as DevigMethod;
+  if (!DEVIG_METHODS.includes(method)) {
+    throw new ArbitrageQueryError(`devig must be one of ${DEVIG_METHODS.join(", ")}`);
+  }
+  return {
+    devig: method,
+    leagues: params.league ? String(params.league).split(",").filter(Boolean) : undefined,
+    from: params.from || undefined,
+    to: params.to || undefined
+  };
+}
+
+// --- Scanner ---
+// Checks every complete book (1X2, over/under at one line, yes/no) of every
+// upcoming match. Taking the best price per selection across bookmakers, an
+// implied total below 100% is a sure bet; each bookmaker's own overround and
+// the consensus fair prices are reported alongside.
+export function scanMarkets(query: ArbitrageQuery) {
+  const dateFilter = `${query.from ? "AND m.utc_date >= ?" : ""} ${query.to ? "AND m.utc_date <= ?" : ""}`;
+  const matches = (db.prepare(`
+    SELECT m.*, h.name as home_name, a.name as away_name, l.name as league_name
+    FROM matches m
+    JOIN teams h ON m.home_team_id = h.id
+    JOIN teams a ON m.away_team_id = a.id
+    JOIN leagues l ON m.league_id = l.id
+    WHERE (m.status = 'TIMED' OR m.status = 'SCHEDULED') ${dateFilter}
+    ORDER BY m.utc_date ASC
+  `).all(...[query.from, query.to].filter(Boolean)) as any[])
+    .filter(m => !query.leagues || query.leagues.includes(m.league_name));
+
+  const arbitrages: any[] = [];
+  const books: any[] = [];
+  const margins = new Map<string, { total: number; books: number }>();
+
+  for (const m of matches) {
+    const match = { matchId: m.id, homeTeam: m.home_name, awayTeam: m.away_name, league: m.league_name, date: m.utc_date };
+
+    for (const book of completeBooks(loadMatchPrices(m.id))) {
+      const byBookmaker = [...book.odds.entries()];
+      for (const [bookmaker, odds] of byBookmaker) {
+        const margin = margins.get(bookmaker) ?? { total: 0, books: 0 };
+        margin.total += overround(odds);
+        margin.books++;
+        margins.set(bookmaker, margin);
+      }
+
+      // Consensus fair probability per selection, as used for the value benchmark
+      const fair = byBookmaker.map(([, odds]) => devig(odds, query.devig));
+      const best = book.selections.map((selection, i) => {
+        const [bookmaker, odds] = byBookmaker.reduce((a, b) => (b[1][i] > a[1][i] ? b : a));
+        const fairProbability = fair.reduce((sum, p) => sum + p[i], 0) / fair.length;
+        return { selection, bookmaker, odds: odds[i], fairProbability, fairOdds: 1 / fairProbability };
+      });
+      const bestOverround = overround(best.map(b => b.odds));
+
+      books.push({
+        ...match,
+        market: book.market,
+        point: book.point,
+        selections: best,
+        bestOverround,
+        overrounds: byBookmaker.map(([bookmaker, odds]) => ({ bookmaker, overround: overround(odds) }))
+      });
+
+      if (bestOverround < 0) {
+        const implied = best.reduce((sum, b) => sum + 1 / b.odds, 0);
+        arbitrages.push({
+          ...match,
+          market: book.market,
+          point: book.point,
+          // Guaranteed return on the total outlay
+          profit: 1 / implied - 1,
+          legs: best.map(b => ({
+            selection: b.selection,
+            bookmaker: b.bookmaker,
+            odds: b.odds,
+            stakeShare: (1 / b.odds) / implied
+          }) as ArbitrageLeg)
+        });
+      }
+    }
+  }
+
+  arbitrages.sort((a, b) => b.profit - a.profit);
+  return {
+    devig: query.devig,
+    arbitrages,
+    bookmakers: [...margins.entries()]
+      .map(([bookmaker, m]) => ({ bookmaker, books: m.books, averageOverround: m.total / m.books }))
+      .sort((a, b) => a.averageOverround - b.averageOverround),
+    books
+  };
+}
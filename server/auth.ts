@@ -0,0 +1,154 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { db } from "./db";
+import { ALLOW_REGISTRATION, SESSION_DAYS } from "./config";
+
+export class AuthError extends Error {}
+
+export type Role = "admin" | "user";
+
+export interface User {
+  id: number;
+  username: string;
+  role: Role;
+  createdAt: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User | null;
+    }
+  }
+}
+
+const SESSION_COOKIE = "session";
+const KEY_LENGTH = 64;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+function toUser(r: any): User {
+  return { id: r.id, username: r.username, role: r.role, createdAt: r.created_at };
+}
+
+function hashPassword(password: string, salt: string) {
+  return scryptSync(password, salt, KEY_LENGTH).toString("hex");
+}
+
+// --- Users ---
+export function listUsers(): User[] {
+  return (db.prepare("SELECT * FROM users ORDER BY id").all() as any[]).map(toUser);
+}
+
+export function getUser(id: number): User | null {
+  const row = db.prepare("SELECT * FROM users WHERE id = ?").get(id);
+  return row ? toUser(row) : null;
+}
+
+// The first account is the admin and takes over the bets and staking config
+// from before accounts existed. Later accounts need open registration unless
+// an admin creates them.
+export function createUser(input: any, createdByAdmin = false): User {
+  const { username, password } = input;
+  if (typeof username !== "string" || !USERNAME_PATTERN.test(username)) {
+    throw new AuthError("username must be 3-32 letters, digits, dots, dashes or underscores");
+  }
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const first = (db.prepare("SELECT COUNT(*) as n FROM users").get() as any).n === 0;
+  if (!first && !createdByAdmin && !ALLOW_REGISTRATION) throw new AuthError("Registration is closed; ask an admin for an account");
+  if (db.prepare("SELECT 1 FROM users WHERE username = ? COLLATE NOCASE").get(username)) {
+    throw new AuthError(`username "${username}" is taken`);
+  }
+  const role: Role = first ? "admin" : input.role === "admin" && createdByAdmin ? "admin" : "user";
+
+  const salt = randomBytes(16).toString("hex");
+  let id = 0;
+  db.transaction(() => {
+    const legacyStaking = first ? (db.prepare("SELECT value FROM settings WHERE key = 'staking'").get() as any)?.value ?? null : null;
+    const result = db.prepare(`
+      INSERT INTO users (username, password_hash, salt, role, staking, created_at) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(username, hashPassword(password, salt), salt, role, legacyStaking, new Date().toISOString());
+    id = Number(result.lastInsertRowid);
+    if (first) db.prepare("UPDATE bets SET user_id = ? WHERE user_id IS NULL").run(id);
+  })();
+  return getUser(id)!;
+}
+
+// An instance always keeps at least one admin.
+export function setUserRole(id: number, role: any): User | null {
+  if (role !== "admin" && role !== "user") throw new AuthError("role must be admin or user");
+  const user = getUser(id);
+  if (!user) return null;
+  if (user.role === "admin" && role === "user") {
+    const admins = (db.prepare("SELECT COUNT(*) as n FROM users WHERE role = 'admin'").get() as any).n;
+    if (admins <= 1) throw new AuthError("The last admin cannot be demoted");
+  }
+  db.prepare("UPDATE users SET role = ? WHERE id = ?").run(role, id);
+  return getUser(id);
+}
+
+export function verifyLogin(username: string, password: string): User | null {
+  const row = db.prepare("SELECT * FROM users WHERE username = ? COLLATE NOCASE").get(String(username ?? "")) as any;
+  if (!row || typeof password !== "string") return null;
+  const expected = Buffer.from(row.password_hash, "hex");
+  const actual = Buffer.from(hashPassword(password, row.salt), "hex");
+  return timingSafeEqual(expected, actual) ? toUser(row) : null;
+}
+
+// --- Sessions ---
+export function createSession(userId: number) {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+  const expires = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  db.prepare("INSERT INTO sessions (token, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)")
+    .run(token, userId, now.toISOString(), expires.toISOString());
+  return { token, expires };
+}
+
+export function deleteSession(token: string) {
+  db.prepare("DELETE FROM sessions WHERE token = ?").run(token);
+}
+
+function sessionUser(token: string): User | null {
+  const row = db.prepare(`
+    SELECT u.* FROM sessions s JOIN users u ON s.user_id = u.id WHERE s.token = ? AND s.expires_at > ?
+  `).get(token, new Date().toISOString());
+  return row ? toUser(row) : null;
+}
+
+export function sessionToken(req: Request): string | null {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+export function setSessionCookie(res: Response, token: string, expires: Date) {
+  res.setHeader("Set-Cookie", `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Expires=${expires.toUTCString()}`);
+}
+
+export function clearSessionCookie(res: Response) {
+  res.setHeader("Set-Cookie", `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`);
+}
+
+// --- Middleware ---
+// Attaches the session's user (or null) to every request.
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  const token = sessionToken(req);
+  req.user = token ? sessionUser(token) : null;
+  next();
+}
+
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return res.status(401).json({ error: "Sign in first" });
+  next();
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return res.status(401).json({ error: "Sign in first" });
+  if (req.user.role !== "admin") return res.status(403).json({ error: "Admins only" });
+  next();
+}
@@ -0,0 +1,351 @@
+import { db } from "./db";
+import { getMatchRatings, loadFinishedMatches, walkForwardRatingsInWorker } from "./ratings";
+import { MarketDefinition, MarketDefinitionError, findMarket, marketFromQuery, DEFAULT_MARKET_ID } from "./markets";
+import { closingOdds, comboPrices, loadMatchPrices } from "./odds";
+import { runSimulations, SimulationJob } from "./simulation-pool";
+import { DEFAULT_MODEL, ModelChoice, modelParams, parseModelChoice } from "./simulation";
+import { settleMarket } from "./settlement";
+import { meetsMinEv, valueMetrics } from "./value";
+import { DEFAULT_DEVIG_METHOD, DEVIG_METHODS, DevigMethod, fairComboOdds, fairPrices } from "./margins";
+import { adjustmentsAsOf, applyAdjustments } from "./adjustments";
+import { parseDateBound } from "./dates";
+
+export interface BacktestOptions {
+  from?: string;
+  to?: string;
+  leagues?: number[];
+  minEdge?: number;
+  minEv?: number;
+  market?: MarketDefinition;
+  // Flat stake in units per bet
+  stake?: number;
+  // Bets are placed at the prices published this many minutes before kickoff
+  // (default 60)
+  leadMinutes?: number;
+  // Ratings are refitted at the start of a matchday at most this often
+  refitDays?: number;
+  // How the market benchmark for the edge filter is made margin-free
+  devig?: DevigMethod;
+  // Goal and corner distributions to price with
+  model?: ModelChoice;
+  // Apply the manual adjustments entered before the decision time (default on)
+  adjustments?: boolean;
+}
+
+export interface BacktestBet {
+  matchId: number;
+  date: string;
+  league: string;
+  homeTeam: string;
+  awayTeam: string;
+  isTeamYHome: boolean;
+  probModel: number;
+  odds: number;
+  closingOdds: number | null;
+  edge: number;
+  ev: number;
+  stake: number;
+  won: boolean;
+  profit: number;
+  clv: number | null;
+  // Priced with manual adjustments
+  adjusted: boolean;
+}
+
+export interface BacktestGroup {
+  bets: number;
+  wins: number;
+  staked: number;
+  profit: number;
+  hitRate: number;
+  yield: number;
+}
+
+export interface BacktestReport {
+  market: MarketDefinition;
+  model: ModelChoice;
+  fixtures: number;
+  unsettled: number;
+  bets: number;
+  wins: number;
+  hitRate: number;
+  staked: number;
+  profit: number;
+  roi: number;
+  maxDrawdown: number;
+  // Average of taken odds / closing odds - 1, over bets with a closing price
+  clv: number | null;
+  clvBets: number;
+  byLeague: Record<string, BacktestGroup>;
+  byOddsBand: Record<string, BacktestGroup>;
+  // Fixtures that had manual adjustments at decision time, bet on with them
+  // and as the model alone would have; null when adjustments are off
+  adjustments: { fixtures: number; adjusted: BacktestGroup; unadjusted: BacktestGroup } | null;
+  history: BacktestBet[];
+}
+
+// Bets are taken an hour before kickoff unless leadMinutes says otherwise;
+// at no lead the taken price is the closing one and there is no CLV to show
+const DEFAULT_LEAD_MINUTES = 60;
+
+const ODDS_BANDS: [number, number, string][] = [
+  [1, 2, "1.00-1.99"],
+  [2, 3, "2.00-2.99"],
+  [3, 5, "3.00-4.99"],
+  [5, 10, "5.00-9.99"],
+  [10, Infinity, "10.00+"]
+];
+
+export class BacktestOptionsError extends Error {}
+
+// Builds options from string parameters (query string or CLI flags):
+// from, to, leagues (comma-separated ids), minEdge, minEv, stake,
+// leadMinutes, refitDays, devig, goalModel, cornerModel, gameState,
+// adjustments ("false" to ignore manual adjustments), market or definition.
+export function parseBacktestOptions(params: Record<string, any>): BacktestOptions {
+  const num = (key: string) => {
+    if (params[key] === undefined || params[key] === "") return undefined;
+    const value = Number(params[key]);
+    if (!Number.isFinite(value)) throw new BacktestOptionsError(`${key} must be a number`);
+    return value;
+  };
+  const market = marketFromQuery(params);
+  if (!market) throw new MarketDefinitionError(`Unknown market "${params.market}"`);
+  const devig = (params.devig || DEFAULT_DEVIG_METHOD) as DevigMethod;
+  if (!DEVIG_METHODS.includes(devig)) {
+    throw new BacktestOptionsError(`devig must be one of ${DEVIG_METHODS.join(", ")}`);
+  }
+  const stake = num("stake");
+  if (stake !== undefined && stake <= 0) throw new BacktestOptionsError("stake must be positive");
+  const leadMinutes = num("leadMinutes");
+  if (leadMinutes !== undefined && leadMinutes < 0) throw new BacktestOptionsError("leadMinutes must not be negative");
+  const refitDays = num("refitDays");
+  if (refitDays !== undefined && refitDays <= 0) throw new BacktestOptionsError("refitDays must be positive");
+  const date = (key: "from" | "to") => {
+    const value = parseDateBound(params[key], key);
+    if (value === null) throw new BacktestOptionsError(`${key} must be a date`);
+    return value;
+  };
+  const leagues = params.leagues ? String(params.leagues).split(",").map(id => (id.trim() === "" ? NaN : Number(id))) : undefined;
+  if (leagues && !leagues.every(Number.isInteger)) {
+    throw new BacktestOptionsError("leagues must be comma-separated league ids");
+  }
+  return {
+    from: date("from"),
+    to: date("to"),
+    leagues,
+    minEdge: num("minEdge"),
+    minEv: num("minEv"),
+    stake,
+    leadMinutes,
+    refitDays,
+    devig,
+    model: parseModelChoice(params),
+    adjustments: params.adjustments !== "false" && params.adjustments !== false,
+    market
+  };
+}
+
+function oddsBand(odds: number) {
+  return ODDS_BANDS.find(([lo, hi]) => odds >= lo && odds < hi)?.[2] ?? ODDS_BANDS[ODDS_BANDS.length - 1][2];
+}
+
+function summarize(bets: BacktestBet[]): BacktestGroup {
+  const wins = bets.filter(b => b.won).length;
+  const staked = bets.reduce((s, b) => s + b.stake, 0);
+  const profit = bets.reduce((s, b) => s + b.profit, 0);
+  return {
+    bets: bets.length,
+    wins,
+    staked,
+    profit,
+    hitRate: bets.length > 0 ? wins / bets.length : 0,
+    yield: staked > 0 ? profit / staked : 0
+  };
+}
+
+function groupBy(bets: BacktestBet[], key: (b: BacktestBet) => string) {
+  const groups: Record<string, BacktestBet[]> = {};
+  for (const b of bets) (groups[key(b)] ||= []).push(b);
+  return Object.fromEntries(Object.entries(groups).map(([k, v]) => [k, summarize(v)]));
+}
+
+function maxDrawdown(bets: BacktestBet[]) {
+  let cumulative = 0;
+  let peak = 0;
+  let worst = 0;
+  for (const b of bets) {
+    cumulative += b.profit;
+    peak = Math.max(peak, cumulative);
+    worst = Math.max(worst, peak - cumulative);
+  }
+  return worst;
+}
+
+interface Candidate {
+  m: any;
+  isTeamYHome: boolean;
+  offered: number[];
+  fair: number | null;
+  adjusted: boolean;
+}
+
+// One bet per fixture: back only the better side. Candidates without a
+// probability are left out.
+function bestSides(candidates: Candidate[], probabilities: (number | null)[]) {
+  const bestByMatch = new Map<number, Candidate & { value: ReturnType<typeof valueMetrics> }>();
+  candidates.forEach((c, i) => {
+    if (probabilities[i] === null) return;
+    const value = valueMetrics(probabilities[i]!, c.offered, c.fair);
+    const current = bestByMatch.get(c.m.id);
+    if (!current || value.ev > current.value.ev) bestByMatch.set(c.m.id, { ...c, value });
+  });
+  return bestByMatch;
+}
+
+// Places the picks that pass the filters and settles them against the result
+function settleBets(fixtures: any[], picks: ReturnType<typeof bestSides>, market: MarketDefinition, options: BacktestOptions) {
+  const stake = options.stake ?? 1;
+  const bets: BacktestBet[] = [];
+  let unsettled = 0;
+  for (const m of fixtures) {
+    const pick = picks.get(m.id);
+    if (!pick || !meetsMinEv(pick.value, options.minEv) || pick.value.edge < (options.minEdge ?? 0)) continue;
+
+    const won = settleMarket(market, pick.isTeamYHome, m);
+    if (won === null) {
+      unsettled++;
+      continue;
+    }
+
+    const odds = pick.value.bestOdd;
+    const closing = (options.leadMinutes ?? DEFAULT_LEAD_MINUTES) > 0
+      ? closingOdds(m.id, m.utc_date, market, pick.isTeamYHome)
+      : null;
+    bets.push({
+      matchId: m.id,
+      date: m.utc_date,
+      league: m.league_name,
+      homeTeam: m.home_name,
+      awayTeam: m.away_name,
+      isTeamYHome: pick.isTeamYHome,
+      probModel: pick.value.probModel,
+      odds,
+      closingOdds: closing,
+      edge: pick.value.edge,
+      ev: pick.value.ev,
+      stake,
+      won,
+      profit: won ? stake * (odds - 1) : -stake,
+      clv: closing ? odds / closing - 1 : null,
+      adjusted: pick.adjusted
+    });
+  }
+  return { bets, unsettled };
+}
+
+// --- Backtest ---
+// Replays finished fixtures in kickoff order. Each fixture is rated with
+// ratings fitted only on results from before its matchday and priced with the
+// odds published before the decision time, then settled against the stored
+// scores and corners. Manual adjustments count as they stood at the decision
+// time; fixtures that had any are also bet on without them, to measure what
+// the adjustments were worth.
+export async function runBacktest(options: BacktestOptions = {}): Promise<BacktestReport> {
+  const market = options.market ?? findMarket(DEFAULT_MARKET_ID)!;
+  const model = options.model ?? DEFAULT_MODEL;
+  const useAdjustments = options.adjustments ?? true;
+  const leadMs = (options.leadMinutes ?? DEFAULT_LEAD_MINUTES) * 60000;
+  const to = options.to ? new Date(options.to) : new Date();
+
+  const leagueFilter = options.leagues && options.leagues.length > 0
+    ? `AND m.league_id IN (${options.leagues.map(() => "?").join(",")})`
+    : "";
+  const fixtures = db.prepare(`
+    SELECT m.*, h.name as home_name, a.name as away_name, l.name as league_name
+    FROM matches m
+    JOIN teams h ON m.home_team_id = h.id
+    JOIN teams a ON m.away_team_id = a.id
+    JOIN leagues l ON m.league_id = l.id
+    WHERE m.status = 'FINISHED'
+      AND m.home_score_full IS NOT NULL
+      AND m.utc_date >= ? AND m.utc_date <= ?
+      ${leagueFilter}
+    ORDER BY m.utc_date ASC
+  `).all(options.from ?? "1970-01-01", to.toISOString(), ...(options.leagues ?? [])) as any[];
+
+  const ratingsAt = await walkForwardRatingsInWorker(
+    loadFinishedMatches(to),
+    options.refitDays ?? 7,
+    fixtures.map(m => new Date(m.utc_date).getTime())
+  );
+  const adjustmentsAt = adjustmentsAsOf();
+
+  const jobs: SimulationJob[] = [];
+  const unadjustedJobs: SimulationJob[] = [];
+  const candidates: Candidate[] = [];
+
+  for (const m of fixtures) {
+    const kickoff = new Date(m.utc_date).getTime();
+    const decisionAt = new Date(kickoff - leadMs).toISOString();
+    const fitted = getMatchRatings(ratingsAt(kickoff), m.league_id, m.home_team_id, m.away_team_id);
+    const adjustments = useAdjustments ? adjustmentsAt(m.id, decisionAt) : [];
+    const inputs = applyAdjustments(fitted, adjustments);
+    const decisionPrices = loadMatchPrices(m.id, decisionAt);
+    const fairDecision = fairPrices(decisionPrices, options.devig);
+
+    for (const isTeamYHome of [true, false]) {
+      const offered = comboPrices(decisionPrices, market, isTeamYHome);
+      if (offered.length === 0) continue;
+      const fair = fairComboOdds(fairDecision, market, isTeamYHome);
+      const adjusted = adjustments.length > 0;
+      candidates.push({ m, isTeamYHome, offered, fair, adjusted });
+      jobs.push({ matchId: m.id, ...inputs, isTeamYHome, market, options: { model, params: modelParams(inputs) } });
+      if (adjusted) {
+        unadjustedJobs.push({ matchId: m.id, ...fitted, isTeamYHome, market, options: { model, params: modelParams(fitted) } });
+      }
+    }
+  }
+
+  const simulations = await runSimulations([...jobs, ...unadjustedJobs]);
+  const { bets, unsettled } = settleBets(fixtures, bestSides(candidates, simulations.slice(0, jobs.length).map(s => s.probability)), market, options);
+
+  let comparison: BacktestReport["adjustments"] = null;
+  if (useAdjustments) {
+    const adjustedIds = new Set(candidates.filter(c => c.adjusted).map(c => c.m.id));
+    let next = jobs.length;
+    const unadjusted = settleBets(
+      fixtures.filter(m => adjustedIds.has(m.id)),
+      bestSides(candidates, candidates.map(c => (c.adjusted ? simulations[next++].probability : null))),
+      market,
+      options
+    );
+    comparison = {
+      fixtures: adjustedIds.size,
+      adjusted: summarize(bets.filter(b => b.adjusted)),
+      unadjusted: summarize(unadjusted.bets)
+    };
+  }
+
+  const overall = summarize(bets);
+  const clvBets = bets.filter(b => b.clv !== null);
+  return {
+    market,
+    model,
+    fixtures: fixtures.length,
+    unsettled,
+    bets: overall.bets,
+    wins: overall.wins,
+    hitRate: overall.hitRate,
+    staked: overall.staked,
+    profit: overall.profit,
+    roi: overall.yield,
+    maxDrawdown: maxDrawdown(bets),
+    clv: clvBets.length > 0 ? clvBets.reduce((s, b) => s + b.clv!, 0) / clvBets.length : null,
+    clvBets: clvBets.length,
+    byLeague: groupBy(bets, b => b.league),
+    byOddsBand: groupBy(bets, b => oddsBand(b.odds)),
+    adjustments: comparison,
+    history: bets
+  };
+}
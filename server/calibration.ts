@@ -0,0 +1,271 @@
+import { db } from "./db";
+import { getMatchRatings, loadFinishedMatches, walkForwardRatingsInWorker } from "./ratings";
+import { MARKETS, MarketDefinition, MarketDefinitionError, marketFromQuery } from "./markets";
+import { runSimulations, SimulationJob } from "./simulation-pool";
+import { settleMarket } from "./settlement";
+import { DEFAULT_MODEL, ModelChoice, modelParams, parseModelChoice } from "./simulation";
+import { adjustmentsAsOf, applyAdjustments } from "./adjustments";
+import { parseDateBound } from "./dates";
+
+export interface CalibrationOptions {
+  from?: string;
+  to?: string;
+  leagues?: number[];
+  // Defaults to every market in the catalogue
+  markets?: MarketDefinition[];
+  // Number of equal-width probability buckets in the reliability curve
+  bins?: number;
+  refitDays?: number;
+  // Goal and corner distributions to score
+  model?: ModelChoice;
+  // Apply the manual adjustments entered before kickoff (default on)
+  adjustments?: boolean;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  predictions: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationGroup {
+  predictions: number;
+  hits: number;
+  // Mean squared error of the predicted probabilities
+  brier: number;
+  logLoss: number;
+  // 1 - brier / brier of always predicting the observed base rate
+  brierSkill: number;
+  baseRate: number;
+  meanPredicted: number;
+  reliability: ReliabilityBin[];
+}
+
+export interface MarketCalibration extends CalibrationGroup {
+  marketId: string;
+  name: string;
+  byLeague: Record<string, CalibrationGroup>;
+}
+
+export interface CalibrationReport {
+  model: ModelChoice;
+  fixtures: number;
+  overall: CalibrationGroup;
+  byLeague: Record<string, CalibrationGroup>;
+  markets: MarketCalibration[];
+  // Predictions for fixtures that had manual adjustments at kickoff, scored
+  // with them and without; null when adjustments are off
+  adjustments: { fixtures: number; adjusted: CalibrationGroup; unadjusted: CalibrationGroup } | null;
+}
+
+interface Prediction {
+  league: string;
+  marketId: string;
+  probability: number;
+  hit: boolean;
+}
+
+export class CalibrationOptionsError extends Error {}
+
+const DEFAULT_BINS = 10;
+// Keeps log loss finite when the model is certain and wrong
+const LOG_LOSS_EPSILON = 1e-15;
+
+// Builds options from string parameters: from, to, leagues (comma-separated
+// ids), bins, refitDays, goalModel, cornerModel, gameState, adjustments
+// ("false" to ignore manual adjustments), and market or definition to
+// restrict the report to one market.
+export function parseCalibrationOptions(params: Record<string, any>): CalibrationOptions {
+  const num = (v: any) => (v === undefined || v === "" ? undefined : Number(v));
+  let markets: MarketDefinition[] | undefined;
+  if (params.market || params.definition) {
+    const market = marketFromQuery(params);
+    if (!market) throw new MarketDefinitionError(`Unknown market "${params.market}"`);
+    markets = [market];
+  }
+  const bins = num(params.bins);
+  if (bins !== undefined && (!Number.isInteger(bins) || bins < 2 || bins > 50)) {
+    throw new CalibrationOptionsError("bins must be an integer between 2 and 50");
+  }
+  const refitDays = num(params.refitDays);
+  if (refitDays !== undefined && !(refitDays > 0)) {
+    throw new CalibrationOptionsError("refitDays must be a positive number");
+  }
+  const date = (key: "from" | "to") => {
+    const value = parseDateBound(params[key], key);
+    if (value === null) throw new CalibrationOptionsError(`${key} must be a date`);
+    return value;
+  };
+  const leagues = params.leagues ? String(params.leagues).split(",").map(id => (id.trim() === "" ? NaN : Number(id))) : undefined;
+  if (leagues && !leagues.every(Number.isInteger)) {
+    throw new CalibrationOptionsError("leagues must be comma-separated league ids");
+  }
+  return {
+    from: date("from"),
+    to: date("to"),
+    leagues,
+    markets,
+    bins,
+    refitDays,
+    model: parseModelChoice(params),
+    adjustments: params.adjustments !== "false" && params.adjustments !== false
+  };
+}
+
+// Legs that name Team Y or its opponent price differently per side; markets
+// without them are the same bet either way round.
+function isSided(market: MarketDefinition) {
+  return market.legs.some(leg => "team" in leg && (leg.team === "teamY" || leg.team === "opponent"));
+}
+
+function summarize(predictions: Prediction[], bins: number): CalibrationGroup {
+  const n = predictions.length;
+  const hits = predictions.filter(p => p.hit).length;
+  const baseRate = n > 0 ? hits / n : 0;
+  let brier = 0;
+  let logLoss = 0;
+  let predicted = 0;
+  const buckets = Array.from({ length: bins }, (_, i) => ({ lower: i / bins, upper: (i + 1) / bins, n: 0, p: 0, hits: 0 }));
+
+  for (const { probability, hit } of predictions) {
+    const y = hit ? 1 : 0;
+    const p = Math.min(Math.max(probability, LOG_LOSS_EPSILON), 1 - LOG_LOSS_EPSILON);
+    brier += (probability - y) ** 2;
+    logLoss -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+    predicted += probability;
+    const bucket = buckets[Math.min(bins - 1, Math.floor(probability * bins))];
+    bucket.n++;
+    bucket.p += probability;
+    bucket.hits += y;
+  }
+
+  const reference = baseRate * (1 - baseRate);
+  return {
+    predictions: n,
+    hits,
+    brier: n > 0 ? brier / n : 0,
+    logLoss: n > 0 ? logLoss / n : 0,
+    brierSkill: n > 0 && reference > 0 ? 1 - brier / n / reference : 0,
+    baseRate,
+    meanPredicted: n > 0 ? predicted / n : 0,
+    reliability: buckets.map(b => ({
+      lower: b.lower,
+      upper: b.upper,
+      predictions: b.n,
+      meanPredicted: b.n > 0 ? b.p / b.n : 0,
+      observedRate: b.n > 0 ? b.hits / b.n : 0
+    }))
+  };
+}
+
+function groupBy(predictions: Prediction[], key: (p: Prediction) => string, bins: number) {
+  const groups: Record<string, Prediction[]> = {};
+  for (const p of predictions) (groups[key(p)] ||= []).push(p);
+  return Object.fromEntries(Object.entries(groups).map(([k, v]) => [k, summarize(v, bins)]));
+}
+
+// --- Calibration ---
+// Replays finished fixtures like the backtest, but scores every prediction
+// rather than only the bets: each market is priced for each side with ratings
+// fitted before the matchday and compared with what happened. Odds are not
+// needed, so fixtures without stored prices count too. Manual adjustments
+// count as they stood at kickoff, and adjusted fixtures are scored without
+// them as well.
+export async function runCalibration(options: CalibrationOptions = {}): Promise<CalibrationReport> {
+  const markets = options.markets ?? MARKETS;
+  const bins = options.bins ?? DEFAULT_BINS;
+  const model = options.model ?? DEFAULT_MODEL;
+  const useAdjustments = options.adjustments ?? true;
+  const to = options.to ? new Date(options.to) : new Date();
+
+  const leagueFilter = options.leagues && options.leagues.length > 0
+    ? `AND m.league_id IN (${options.leagues.map(() => "?").join(",")})`
+    : "";
+  const fixtures = db.prepare(`
+    SELECT m.*, l.name as league_name
+    FROM matches m
+    JOIN leagues l ON m.league_id = l.id
+    WHERE m.status = 'FINISHED'
+      AND m.home_score_full IS NOT NULL
+      AND m.utc_date >= ? AND m.utc_date <= ?
+      ${leagueFilter}
+    ORDER BY m.utc_date ASC
+  `).all(options.from ?? "1970-01-01", to.toISOString(), ...(options.leagues ?? [])) as any[];
+
+  const ratingsAt = await walkForwardRatingsInWorker(
+    loadFinishedMatches(to),
+    options.refitDays ?? 7,
+    fixtures.map(m => new Date(m.utc_date).getTime())
+  );
+  const adjustmentsAt = adjustmentsAsOf();
+
+  const jobs: SimulationJob[] = [];
+  const unadjustedJobs: SimulationJob[] = [];
+  const pending: { m: any; market: MarketDefinition; hit: boolean; adjusted: boolean }[] = [];
+  for (const m of fixtures) {
+    const fit = ratingsAt(new Date(m.utc_date).getTime());
+    // A team's first match has nothing before it to be rated on
+    if (!fit.teams.has(m.home_team_id) || !fit.teams.has(m.away_team_id)) continue;
+    const fitted = getMatchRatings(fit, m.league_id, m.home_team_id, m.away_team_id);
+    const adjustments = useAdjustments ? adjustmentsAt(m.id, new Date(m.utc_date).toISOString()) : [];
+    const inputs = applyAdjustments(fitted, adjustments);
+    const adjusted = adjustments.length > 0;
+
+    for (const market of markets) {
+      for (const isTeamYHome of isSided(market) ? [true, false] : [true]) {
+        const hit = settleMarket(market, isTeamYHome, m);
+        if (hit === null) continue;
+        pending.push({ m, market, hit, adjusted });
+        const job = (x: typeof inputs): SimulationJob => ({
+          matchId: m.id,
+          homeExpG: x.homeExpG,
+          awayExpG: x.awayExpG,
+          homeExpC: x.homeExpC,
+          awayExpC: x.awayExpC,
+          isTeamYHome,
+          market,
+          options: { method: "exact", model, params: modelParams(x) }
+        });
+        jobs.push(job(inputs));
+        if (adjusted) unadjustedJobs.push(job(fitted));
+      }
+    }
+  }
+
+  const simulations = await runSimulations([...jobs, ...unadjustedJobs]);
+  const predictions: Prediction[] = pending.map((p, i) => ({
+    league: p.m.league_name,
+    marketId: p.market.id,
+    probability: simulations[i].probability,
+    hit: p.hit
+  }));
+
+  let comparison: CalibrationReport["adjustments"] = null;
+  if (useAdjustments) {
+    const adjusted = pending.map((p, i) => ({ p, prediction: predictions[i] })).filter(x => x.p.adjusted);
+    comparison = {
+      fixtures: new Set(adjusted.map(x => x.p.m.id)).size,
+      adjusted: summarize(adjusted.map(x => x.prediction), bins),
+      unadjusted: summarize(adjusted.map((x, j) => ({ ...x.prediction, probability: simulations[jobs.length + j].probability })), bins)
+    };
+  }
+
+  return {
+    model,
+    fixtures: fixtures.length,
+    overall: summarize(predictions, bins),
+    byLeague: groupBy(predictions, p => p.league, bins),
+    markets: markets.map(market => {
+      const own = predictions.filter(p => p.marketId === market.id);
+      return {
+        marketId: market.id,
+        name: market.name,
+        ...summarize(own, bins),
+        byLeague: groupBy(own, p => p.league, bins)
+      };
+    }),
+    adjustments: comparison
+  };
+}
@@ -0,0 +1,78 @@
+import { MarketDefinition } from "./markets";
+import { MatchRatings, RatingsFit, ratingsUncertainty } from "./ratings";
+import { DEFAULT_MODEL, ModelChoice, SimulationResult, modelParams } from "./simulation";
+import { SimulationJob, runSimulations } from "./simulation-pool";
+
+export type ConfidenceLabel = "High" | "Medium" | "Low";
+
+export interface Uncertainty {
+  // Fewest finished matches behind either team's ratings
+  sampleSize: number;
+  standardDeviation: number;
+  // Approximate 95% interval for the combo probability
+  lower: number;
+  upper: number;
+}
+
+export interface ConfidenceInput {
+  matchId: number;
+  leagueId: number;
+  homeTeamId: number;
+  awayTeamId: number;
+  inputs: MatchRatings;
+  isTeamYHome: boolean;
+  simulation: SimulationResult;
+}
+
+// --- Labels ---
+// High needs a full half-season behind both teams and a probability known to
+// within a fifth of itself; thin histories or a spread above 40% are Low.
+export function confidenceLabel(probability: number, u: Uncertainty): ConfidenceLabel {
+  const relative = probability > 0 ? u.standardDeviation / probability : Infinity;
+  if (u.sampleSize >= 19 && relative <= 0.2) return "High";
+  if (u.sampleSize < 8 || relative > 0.4) return "Low";
+  return "Medium";
+}
+
+// --- Posterior Uncertainty ---
+// Delta method: the combo is re-priced with each side's means moved one
+// standard deviation up and down on the log scale (goals and corners
+// together), and the central differences are combined with the simulation's
+// own standard error.
+export async function probabilityUncertainty(
+  fit: RatingsFit,
+  market: MarketDefinition,
+  picks: ConfidenceInput[],
+  model: ModelChoice = DEFAULT_MODEL
+): Promise<Uncertainty[]> {
+  const spreads = picks.map(p => ratingsUncertainty(fit, p.leagueId, p.homeTeamId, p.awayTeamId));
+
+  const jobs: SimulationJob[] = picks.flatMap((p, i) => {
+    const s = spreads[i].logSd;
+    return [[s, 0], [-s, 0], [0, s], [0, -s]].map(([home, away]) => ({
+      matchId: p.matchId,
+      homeExpG: p.inputs.homeExpG * Math.exp(home),
+      awayExpG: p.inputs.awayExpG * Math.exp(away),
+      homeExpC: p.inputs.homeExpC * Math.exp(home),
+      awayExpC: p.inputs.awayExpC * Math.exp(away),
+      isTeamYHome: p.isTeamYHome,
+      market,
+      options: { method: "exact" as const, model, params: modelParams(p.inputs) }
+    }));
+  });
+  const shifted = await runSimulations(jobs);
+
+  return picks.map((p, i) => {
+    const [homeUp, homeDown, awayUp, awayDown] = shifted.slice(i * 4, i * 4 + 4).map(r => r.probability);
+    const homeSd = (homeUp - homeDown) / 2;
+    const awaySd = (awayUp - awayDown) / 2;
+    const sd = Math.sqrt(homeSd * homeSd + awaySd * awaySd + p.simulation.standardError ** 2);
+    const probability = p.simulation.probability;
+    return {
+      sampleSize: spreads[i].sampleSize,
+      standardDeviation: sd,
+      lower: Math.max(0, probability - 1.96 * sd),
+      upper: Math.min(1, probability + 1.96 * sd)
+    };
+  });
+}
@@ -0,0 +1,49 @@
+import "dotenv/config";
+import { fileURLToPath } from "url";
+
+// --- Configuration ---
+// Everything is read from the environment (or a .env file); credentials have
+// no fallbacks, and a provider that needs a missing key fails its sync.
+export const FOOTBALL_DATA_API_KEY = process.env.FOOTBALL_DATA_API_KEY || "";
+export const THE_ODDS_API_KEY = process.env.THE_ODDS_API_KEY || "";
+// Overridable so the odds sync can be pointed at a local stub serving recorded responses
+export const THE_ODDS_API_URL = process.env.THE_ODDS_API_URL || "https://api.the-odds-api.com/v4";
+
+// SQLite database file; ":memory:" gives each process a fresh, empty one (tests)
+export const DB_PATH = process.env.DB_PATH || "football.db";
+
+// Data providers: competitions, fixtures and results come from
+// FIXTURE_PROVIDER ("football-data" or "file"), prices from ODDS_PROVIDER
+// ("the-odds-api", "file" or "off"). The file provider reads JSON or CSV
+// files from DATA_DIR.
+export const FIXTURE_PROVIDER = process.env.FIXTURE_PROVIDER || "football-data";
+export const ODDS_PROVIDER = process.env.ODDS_PROVIDER || "the-odds-api";
+export const DATA_DIR = process.env.DATA_DIR || "data";
+
+// The market catalogue: a JSON array of combined-market definitions
+export const MARKETS_FILE = process.env.MARKETS_FILE || fileURLToPath(new URL("./markets.json", import.meta.url));
+
+// Background sync intervals in minutes per job; 0 disables a job's schedule
+const minutes = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+export const SYNC_INTERVALS = {
+  leagues: minutes("SYNC_LEAGUES_INTERVAL_MINUTES", 24 * 60),
+  fixtures: minutes("SYNC_FIXTURES_INTERVAL_MINUTES", 6 * 60),
+  results: minutes("SYNC_RESULTS_INTERVAL_MINUTES", 60),
+  odds: minutes("SYNC_ODDS_INTERVAL_MINUTES", 6 * 60),
+  // Not a sync: re-runs the analysis and fires alert webhooks for new picks
+  alerts: minutes("SYNC_ALERTS_INTERVAL_MINUTES", 30)
+};
+export const SCHEDULER_ENABLED = process.env.SCHEDULER_ENABLED !== "false";
+
+// In-play feed: "football-data" (default when its key is set), "file:<path>"
+// for a scripted JSON feed, or "off"
+export const LIVE_FEED = process.env.LIVE_FEED || (FOOTBALL_DATA_API_KEY ? "football-data" : "off");
+export const LIVE_POLL_SECONDS = Math.max(5, Number(process.env.LIVE_POLL_SECONDS) || 60);
+
+// Accounts: the first account is always allowed and becomes the admin; after
+// that, self-registration can be closed so only admins add users
+export const ALLOW_REGISTRATION = process.env.ALLOW_REGISTRATION !== "false";
+export const SESSION_DAYS = Math.max(1, Number(process.env.SESSION_DAYS) || 30);
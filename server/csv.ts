@@ -0,0 +1,124 @@
+import fs from "fs";
+import { db } from "./db";
+import { resolveCompetition, resolveFixture, resolveTeamId } from "./aliases";
+
+// --- CSV Parsing ---
+export function parseCsv(text: string): Record<string, string>[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter(l => l.trim() !== "");
+  if (lines.length === 0) return [];
+
+  const splitLine = (line: string) => {
+    const cells: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (quoted) {
+        if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+        else if (ch === '"') quoted = false;
+        else cell += ch;
+      } else if (ch === '"') quoted = true;
+      else if (ch === ",") { cells.push(cell); cell = ""; }
+      else cell += ch;
+    }
+    cells.push(cell);
+    return cells.map(c => c.trim());
+  };
+
+  const header = splitLine(lines[0]);
+  return lines.slice(1).map(line => {
+    const cells = splitLine(line);
+    const row: Record<string, string> = {};
+    header.forEach((h, i) => { row[h] = cells[i] ?? ""; });
+    return row;
+  });
+}
+
+// football-data.co.uk writes dates as dd/mm/yy (older files) or dd/mm/yyyy.
+function parseUkDate(value: string): string | null {
+  const m = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (!m) return null;
+  const year = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+  return `${year}-${m[2].padStart(2, "0")}-${m[1].padStart(2, "0")}`;
+}
+
+const toInt = (value: string | undefined) => {
+  if (value === undefined || value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+// football-data.co.uk division codes -> football-data.org competition codes
+const DIVISION_CODES: Record<string, string> = {
+  E0: "PL",
+  E1: "ELC",
+  D1: "BL1",
+  I1: "SA",
+  SP1: "PD",
+  F1: "FL1",
+  N1: "DED",
+  P1: "PPL"
+};
+
+// The files only give the UK date, so any kickoff on the day before or after counts
+const KICKOFF_TOLERANCE_MS = 36 * 60 * 60 * 1000;
+
+// --- Corners Import ---
+// Imports a football-data.co.uk style results file (Div, HomeTeam, AwayTeam,
+// Date, HC, AC, HTHG, HTAG) into existing match rows. Fixtures are resolved
+// through the alias tables and fuzzy matching; uncertain ones are queued for
+// review and picked up by a later import once confirmed.
+export function importCornersCsv(filePath: string) {
+  const rows = parseCsv(fs.readFileSync(filePath, "utf8"));
+  const update = db.prepare(`
+    UPDATE matches SET
+      corners = COALESCE(?, corners),
+      home_score_h1 = COALESCE(home_score_h1, ?),
+      away_score_h1 = COALESCE(away_score_h1, ?),
+      home_score_h2 = COALESCE(home_score_h2, home_score_full - ?),
+      away_score_h2 = COALESCE(away_score_h2, away_score_full - ?)
+    WHERE id = ?
+  `);
+
+  let updated = 0;
+  const unmatchedTeams = new Set<string>();
+  let unmatchedFixtures = 0;
+
+  db.transaction(() => {
+    for (const row of rows) {
+      const date = parseUkDate(row.Date || "");
+      const homeCorners = toInt(row.HC);
+      const awayCorners = toInt(row.AC);
+      if (!date || !row.HomeTeam || !row.AwayTeam) continue;
+
+      // Divisions outside the map are matched on teams and date alone rather
+      // than queued for review as unknown competitions
+      const code = DIVISION_CODES[row.Div];
+      const leagueId = code ? resolveCompetition("football-data.co.uk", code) : null;
+      const matchId = resolveFixture({
+        source: "football-data.co.uk",
+        leagueId,
+        kickoff: `${date}T12:00:00Z`,
+        homeTeam: row.HomeTeam,
+        awayTeam: row.AwayTeam,
+        toleranceMs: KICKOFF_TOLERANCE_MS
+      });
+      if (matchId === null) {
+        unmatchedFixtures++;
+        for (const name of [row.HomeTeam, row.AwayTeam]) {
+          if (resolveTeamId(name) === null) unmatchedTeams.add(name);
+        }
+        continue;
+      }
+
+      const corners = homeCorners !== null && awayCorners !== null ? homeCorners + awayCorners : null;
+      const hthg = toInt(row.HTHG);
+      const htag = toInt(row.HTAG);
+      update.run(corners, hthg, htag, hthg, htag, matchId);
+      updated++;
+    }
+  })();
+
+  console.log(`Imported corners for ${updated} of ${rows.length} rows from ${filePath}`);
+  return { rows: rows.length, updated, unmatchedFixtures, unmatchedTeams: [...unmatchedTeams].sort() };
+}
@@ -0,0 +1,14 @@
+// --- Date Parameters ---
+// Parses a from/to bound given as an ISO date or timestamp into a full ISO
+// timestamp, comparable as a string with the stored kickoffs. A date-only
+// upper bound covers the whole of that day. Returns undefined when the value
+// is absent and null when it is not a date.
+export function parseDateBound(value: any, bound: "from" | "to"): string | null | undefined {
+  if (value === undefined || value === "") return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) return null;
+  if (bound === "to" && /^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+    return new Date(date.getTime() + 86400000 - 1).toISOString();
+  }
+  return date.toISOString();
+}
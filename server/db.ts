@@ -0,0 +1,7 @@
+import Database from "better-sqlite3";
+import { DB_PATH } from "./config";
+import { migrate } from "./migrations";
+
+// --- Database Setup ---
+export const db = new Database(DB_PATH);
+migrate(db);
@@ -0,0 +1,342 @@
+import { MarketDefinition, describeLeg } from "./markets";
+import { OpportunityQuery } from "./opportunities";
+import { BacktestOptions, BacktestReport } from "./backtest";
+import { DEFAULT_MODEL, describeModel } from "./simulation";
+
+export class ExportError extends Error {}
+
+export const EXPORT_FORMATS = ["csv", "json", "html"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+type Cell = string | number | boolean | null | undefined;
+
+export interface ReportColumn<T> {
+  header: string;
+  value: (row: T) => Cell;
+  // Display form for the HTML report; CSV always gets the raw value
+  display?: (row: T) => string;
+  numeric?: boolean;
+}
+
+export interface ReportMarket {
+  name: string;
+  legs: string[];
+}
+
+export interface Report<T> {
+  title: string;
+  generatedAt: string;
+  // Label/value pairs printed above the table (filters, seed, totals)
+  meta: [string, string][];
+  markets: ReportMarket[];
+  columns: ReportColumn<T>[];
+  rows: T[];
+  // What the JSON export returns
+  data: unknown;
+}
+
+export function parseExportFormat(value: any): ExportFormat {
+  const format = (value || "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) throw new ExportError(`format must be one of ${EXPORT_FORMATS.join(", ")}`);
+  return format;
+}
+
+export function reportMarket(market: MarketDefinition): ReportMarket {
+  return { name: market.name, legs: market.legs.map(describeLeg) };
+}
+
+// --- Formatting ---
+const pct = (p: number | null | undefined, digits = 1) => (p === null || p === undefined ? "" : `${(p * 100).toFixed(digits)}%`);
+const fixed = (n: number | null | undefined, digits = 2) => (n === null || n === undefined ? "" : n.toFixed(digits));
+const kickoff = (date: string) => new Date(date).toISOString().slice(0, 16).replace("T", " ");
+const teamY = (r: { isTeamYHome: boolean; homeTeam: string; awayTeam: string }) => (r.isTeamYHome ? r.homeTeam : r.awayTeam);
+
+// --- Column Sets ---
+export interface OpportunityRow {
+  key: string;
+  date: string;
+  league: string;
+  homeTeam: string;
+  awayTeam: string;
+  marketName: string;
+  isTeamYHome: boolean;
+  probModel: number;
+  // Without manual adjustments; older snapshots predate it
+  probUnadjusted?: number | null;
+  bestOdd: number;
+  fairOdds: number | null;
+  probImplied: number;
+  edge: number;
+  ev: number;
+  confidence: string;
+  suggestedStake: number;
+}
+
+export const OPPORTUNITY_COLUMNS: ReportColumn<OpportunityRow>[] = [
+  { header: "Kickoff", value: r => r.date, display: r => kickoff(r.date) },
+  { header: "League", value: r => r.league },
+  { header: "Match", value: r => `${r.homeTeam} vs ${r.awayTeam}` },
+  { header: "Market", value: r => r.marketName },
+  { header: "Team Y", value: teamY },
+  { header: "Model Prob", value: r => r.probModel, display: r => pct(r.probModel), numeric: true },
+  { header: "Unadjusted Prob", value: r => r.probUnadjusted ?? null, display: r => pct(r.probUnadjusted), numeric: true },
+  { header: "Best Odd", value: r => r.bestOdd, display: r => fixed(r.bestOdd), numeric: true },
+  { header: "Fair Odds", value: r => r.fairOdds, display: r => fixed(r.fairOdds), numeric: true },
+  { header: "Implied Prob", value: r => r.probImplied, display: r => pct(r.probImplied), numeric: true },
+  { header: "Edge", value: r => r.edge, display: r => pct(r.edge), numeric: true },
+  { header: "EV", value: r => r.ev, display: r => fixed(r.ev, 3), numeric: true },
+  { header: "Confidence", value: r => r.confidence },
+  { header: "Suggested Stake", value: r => r.suggestedStake, display: r => fixed(r.suggestedStake), numeric: true }
+];
+
+export interface BacktestRow {
+  date: string;
+  league: string;
+  homeTeam: string;
+  awayTeam: string;
+  isTeamYHome: boolean;
+  probModel: number;
+  odds: number;
+  closingOdds: number | null;
+  edge: number;
+  ev: number;
+  stake: number;
+  won: boolean;
+  profit: number;
+  clv: number | null;
+  adjusted: boolean;
+}
+
+export const BACKTEST_COLUMNS: ReportColumn<BacktestRow>[] = [
+  { header: "Kickoff", value: r => r.date, display: r => kickoff(r.date) },
+  { header: "League", value: r => r.league },
+  { header: "Match", value: r => `${r.homeTeam} vs ${r.awayTeam}` },
+  { header: "Team Y", value: teamY },
+  { header: "Model Prob", value: r => r.probModel, display: r => pct(r.probModel), numeric: true },
+  { header: "Odds", value: r => r.odds, display: r => fixed(r.odds), numeric: true },
+  { header: "Implied Prob", value: r => 1 / r.odds, display: r => pct(1 / r.odds), numeric: true },
+  { header: "Edge", value: r => r.edge, display: r => pct(r.edge), numeric: true },
+  { header: "EV", value: r => r.ev, display: r => fixed(r.ev, 3), numeric: true },
+  { header: "Stake", value: r => r.stake, display: r => fixed(r.stake), numeric: true },
+  { header: "Closing", value: r => r.closingOdds, display: r => fixed(r.closingOdds), numeric: true },
+  { header: "CLV", value: r => r.clv, display: r => pct(r.clv), numeric: true },
+  { header: "Result", value: r => (r.won ? "won" : "lost") },
+  { header: "Profit", value: r => r.profit, display: r => fixed(r.profit), numeric: true },
+  { header: "Adjusted", value: r => (r.adjusted ? "yes" : "no") }
+];
+
+export interface LedgerRow {
+  id: number;
+  date: string;
+  league: string | null;
+  homeTeam: string;
+  awayTeam: string;
+  marketName: string;
+  isTeamYHome: boolean;
+  bookmaker: string | null;
+  probModel: number | null;
+  odds: number;
+  closingOdds: number | null;
+  clv: number | null;
+  stake: number;
+  status: string;
+  profit: number | null;
+  placedAt: string;
+}
+
+export const LEDGER_COLUMNS: ReportColumn<LedgerRow>[] = [
+  { header: "Placed", value: r => r.placedAt, display: r => kickoff(r.placedAt) },
+  { header: "Kickoff", value: r => r.date, display: r => kickoff(r.date) },
+  { header: "League", value: r => r.league },
+  { header: "Match", value: r => `${r.homeTeam} vs ${r.awayTeam}` },
+  { header: "Market", value: r => r.marketName },
+  { header: "Team Y", value: teamY },
+  { header: "Bookmaker", value: r => r.bookmaker },
+  { header: "Model Prob", value: r => r.probModel, display: r => pct(r.probModel), numeric: true },
+  { header: "Odds", value: r => r.odds, display: r => fixed(r.odds), numeric: true },
+  { header: "Implied Prob", value: r => 1 / r.odds, display: r => pct(1 / r.odds), numeric: true },
+  {
+    header: "Edge",
+    value: r => (r.probModel === null ? null : r.probModel * r.odds - 1),
+    display: r => (r.probModel === null ? "" : pct(r.probModel * r.odds - 1)),
+    numeric: true
+  },
+  { header: "Stake", value: r => r.stake, display: r => fixed(r.stake), numeric: true },
+  { header: "Closing", value: r => r.closingOdds, display: r => fixed(r.closingOdds), numeric: true },
+  { header: "CLV", value: r => r.clv, display: r => pct(r.clv), numeric: true },
+  { header: "Status", value: r => r.status },
+  { header: "Profit", value: r => r.profit, display: r => fixed(r.profit), numeric: true }
+];
+
+// --- Rendering ---
+// RFC 4180: quote cells containing separators, quotes or line breaks
+function csvCell(value: Cell) {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(columns: ReportColumn<T>[], rows: T[]): string {
+  const lines = [columns.map(c => csvCell(c.header)).join(",")];
+  for (const row of rows) lines.push(columns.map(c => csvCell(c.value(row))).join(","));
+  return lines.join("\r\n") + "\r\n";
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const REPORT_STYLE = `
+  body { font: 12px/1.4 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .generated { color: #666; margin-bottom: 16px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; margin: 0 0 16px; }
+  dt { font-weight: 600; color: #444; }
+  dd { margin: 0; }
+  .markets { margin-bottom: 16px; }
+  .markets li { margin-bottom: 2px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: left; white-space: nowrap; }
+  th { background: #f3f3f3; font-size: 10px; text-transform: uppercase; letter-spacing: 0.05em; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .print { float: right; }
+  @media print { .print { display: none; } body { margin: 0; } @page { size: landscape; margin: 12mm; } }
+`;
+
+// A standalone printable page; the browser's print dialog saves it as PDF.
+export function toHtml<T>(report: Report<T>): string {
+  const meta = report.meta
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join("");
+  const markets = report.markets
+    .map(m => `<li><strong>${escapeHtml(m.name)}</strong>: ${m.legs.map(escapeHtml).join(" + ")}</li>`)
+    .join("");
+  const head = report.columns
+    .map(c => `<th${c.numeric ? ' class="num"' : ""}>${escapeHtml(c.header)}</th>`)
+    .join("");
+  const body = report.rows.length === 0
+    ? `<tr><td colspan="${report.columns.length}">No rows.</td></tr>`
+    : report.rows.map(row => `<tr>${report.columns.map(c => {
+      const text = c.display ? c.display(row) : String(c.value(row) ?? "");
+      return `<td${c.numeric ? ' class="num"' : ""}>${escapeHtml(text)}</td>`;
+    }).join("")}</tr>`).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+<h1>${escapeHtml(report.title)}</h1>
+<div class="generated">Generated ${escapeHtml(new Date(report.generatedAt).toUTCString())}</div>
+${meta ? `<dl>${meta}</dl>` : ""}
+${markets ? `<div class="markets"><strong>Market definitions</strong><ul>${markets}</ul></div>` : ""}
+<table>
+<thead><tr>${head}</tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+// The response body and headers for a report in the requested format
+export function renderReport<T>(report: Report<T>, format: ExportFormat, filename: string) {
+  if (format === "html") {
+    return { contentType: "text/html; charset=utf-8", disposition: "inline", body: toHtml(report) };
+  }
+  if (format === "json") {
+    return {
+      contentType: "application/json; charset=utf-8",
+      disposition: `attachment; filename="${filename}.json"`,
+      body: JSON.stringify(report.data, null, 2)
+    };
+  }
+  return {
+    contentType: "text/csv; charset=utf-8",
+    disposition: `attachment; filename="${filename}.csv"`,
+    body: toCsv(report.columns, report.rows)
+  };
+}
+
+// --- Reports ---
+function queryMeta(query: Omit<OpportunityQuery, "cursor" | "limit">): [string, string][] {
+  const meta: [string, string][] = [
+    ["Leagues", query.leagues ? query.leagues.join(", ") : "All"],
+    ["Kickoff window", `${query.from ?? "any"} to ${query.to ?? "any"}`],
+    ["Min edge", query.minEdge === undefined ? "none" : pct(query.minEdge)],
+    ["Min EV", query.minEv === undefined ? "positive" : fixed(query.minEv, 3)],
+    ["Sort", `${query.sort} ${query.order}`],
+    ["Fair price", `${query.devig} de-vig`],
+    ["Pricing", query.simulation.method ?? "auto"],
+    // Snapshots frozen before the model was selectable priced with the default
+    ["Model", describeModel(query.simulation.model ?? DEFAULT_MODEL)]
+  ];
+  if (query.simulation.seed !== undefined) meta.push(["Seed", String(query.simulation.seed)]);
+  return meta;
+}
+
+export function opportunitiesReport(
+  query: Omit<OpportunityQuery, "cursor" | "limit">,
+  slate: { items: OpportunityRow[]; total: number },
+  generatedAt = new Date().toISOString(),
+  title = "Value Slate"
+): Report<OpportunityRow> {
+  return {
+    title,
+    generatedAt,
+    meta: [...queryMeta(query), ["Opportunities", String(slate.total)]],
+    markets: query.markets.map(reportMarket),
+    columns: OPPORTUNITY_COLUMNS,
+    rows: slate.items,
+    data: { generatedAt, query, ...slate }
+  };
+}
+
+export function backtestReport(options: BacktestOptions, report: BacktestReport): Report<BacktestRow> {
+  const generatedAt = new Date().toISOString();
+  return {
+    title: "Backtest",
+    generatedAt,
+    meta: [
+      ["Period", `${options.from ?? "any"} to ${options.to ?? "now"}`],
+      ["Model", describeModel(report.model)],
+      ["Fixtures", String(report.fixtures)],
+      ["Bets", `${report.bets} (${pct(report.hitRate)} won)`],
+      ["Staked", fixed(report.staked)],
+      ["Profit", `${fixed(report.profit)} (ROI ${pct(report.roi)})`],
+      ["Max drawdown", fixed(report.maxDrawdown)],
+      ["CLV", report.clv === null ? "n/a" : `${pct(report.clv, 2)} over ${report.clvBets} bets`],
+      ["Manual adjustments", report.adjustments === null
+        ? "ignored"
+        : `${report.adjustments.fixtures} fixtures: yield ${pct(report.adjustments.adjusted.yield)} over ${report.adjustments.adjusted.bets} bets with them, ${pct(report.adjustments.unadjusted.yield)} over ${report.adjustments.unadjusted.bets} without`]
+    ],
+    markets: [reportMarket(report.market)],
+    columns: BACKTEST_COLUMNS,
+    rows: report.history,
+    data: { generatedAt, options, ...report }
+  };
+}
+
+export function ledgerReport(bets: (LedgerRow & { legs: string[] })[]): Report<LedgerRow> {
+  const generatedAt = new Date().toISOString();
+  const markets = new Map(bets.map(b => [b.marketName, { name: b.marketName, legs: b.legs }]));
+  return {
+    title: "Bet Ledger",
+    generatedAt,
+    meta: [["Bets", String(bets.length)]],
+    markets: [...markets.values()],
+    columns: LEDGER_COLUMNS,
+    rows: bets,
+    data: { generatedAt, bets }
+  };
+}
@@ -0,0 +1,64 @@
+import axios, { AxiosRequestConfig } from "axios";
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 5000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// --- Token Bucket ---
+// Holds up to `capacity` tokens, refilled continuously at `perMinute`; each
+// request takes one and waits for the refill when the bucket is empty.
+export interface TokenBucket {
+  take(): Promise<void>;
+}
+
+export function createTokenBucket(capacity: number, perMinute: number): TokenBucket {
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  // Serializes waiters so they are served in arrival order
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) / 60000) * perMinute);
+    refilledAt = now;
+  };
+
+  return {
+    take() {
+      const turn = queue.then(async () => {
+        refill();
+        if (tokens < 1) {
+          await sleep(((1 - tokens) / perMinute) * 60000);
+          refill();
+        }
+        tokens -= 1;
+      });
+      queue = turn.catch(() => undefined);
+      return turn;
+    }
+  };
+}
+
+// football-data.org free tier allows 10 requests per minute.
+export const footballDataLimiter = createTokenBucket(10, 10);
+
+// --- Requests ---
+// GET through an optional limiter, retrying 429 responses. The wait honours
+// Retry-After (or football-data.org's X-RequestCounter-Reset) and otherwise
+// backs off exponentially.
+export async function getWithRetry(url: string, config: AxiosRequestConfig = {}, limiter?: TokenBucket) {
+  for (let attempt = 0; ; attempt++) {
+    if (limiter) await limiter.take();
+    try {
+      return await axios.get(url, config);
+    } catch (error: any) {
+      if (error.response?.status !== 429 || attempt >= MAX_RETRIES) throw error;
+      const headers = error.response.headers || {};
+      const seconds = Number(headers["retry-after"] ?? headers["x-requestcounter-reset"]);
+      const wait = Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : BASE_BACKOFF_MS * 2 ** attempt;
+      console.warn(`Rate limited by ${new URL(url).host}, retrying in ${Math.round(wait / 1000)}s`);
+      await sleep(wait);
+    }
+  }
+}
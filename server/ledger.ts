@@ -0,0 +1,190 @@
+import { db } from "./db";
+import { MarketDefinition, describeLeg, findMarket, isSettleable, parseMarketDefinition } from "./markets";
+import { closingOdds } from "./odds";
+import { settleMarket } from "./settlement";
+import { StakingConfig, loadStakingConfig } from "./staking";
+
+export class LedgerError extends Error {}
+
+// Matches that will never be played to a result void their bets.
+const VOID_STATUSES = ["CANCELLED", "AWARDED"];
+
+// --- Bankroll ---
+// Each user has their own ledger; without one (visitors, background jobs)
+// there is nothing staked yet.
+export function currentBankroll(userId: number | null, config: StakingConfig = loadStakingConfig(userId)): number {
+  const row = db.prepare("SELECT COALESCE(SUM(profit), 0) as profit FROM bets WHERE user_id IS ? AND status IN ('won', 'lost')").get(userId) as any;
+  return config.bankroll + row.profit;
+}
+
+// Stake already committed per kickoff day (UTC), open and settled bets alike.
+export function matchdayExposure(userId: number | null): Map<string, number> {
+  const rows = db.prepare(`
+    SELECT substr(m.utc_date, 1, 10) as day, SUM(b.stake) as stake
+    FROM bets b JOIN matches m ON b.match_id = m.id
+    WHERE b.user_id IS ? AND b.status != 'void'
+    GROUP BY day
+  `).all(userId) as any[];
+  return new Map(rows.map(r => [r.day, r.stake]));
+}
+
+// --- Ledger ---
+export function placeBet(userId: number, input: any) {
+  const matchId = Number(input.matchId);
+  const match = db.prepare("SELECT id, utc_date, status FROM matches WHERE id = ?").get(matchId) as any;
+  if (!match) throw new LedgerError(`Unknown match ${input.matchId}`);
+
+  let market: MarketDefinition | undefined;
+  if (input.definition) market = parseMarketDefinition(input.definition);
+  else market = findMarket(String(input.marketId));
+  if (!market) throw new LedgerError(`Unknown market "${input.marketId}"`);
+  if (!isSettleable(market)) throw new LedgerError("Bets on team-corner legs cannot be settled");
+
+  const odds = Number(input.odds);
+  const stake = Number(input.stake);
+  if (!Number.isFinite(odds) || odds <= 1) throw new LedgerError("odds must be a decimal price above 1");
+  if (!Number.isFinite(stake) || stake <= 0) throw new LedgerError("stake must be positive");
+  if (typeof input.isTeamYHome !== "boolean") throw new LedgerError("isTeamYHome must be true or false");
+
+  const config = loadStakingConfig(userId);
+  const day = String(match.utc_date).slice(0, 10);
+  const exposure = matchdayExposure(userId).get(day) || 0;
+  if (exposure + stake > config.maxMatchdayExposure + 1e-9) {
+    throw new LedgerError(`Stake exceeds the matchday exposure limit (${(config.maxMatchdayExposure - exposure).toFixed(2)} left)`);
+  }
+
+  const result = db.prepare(`
+    INSERT INTO bets (user_id, match_id, market_id, market_json, is_team_y_home, bookmaker, odds, stake, prob_model, status, placed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', ?)
+  `).run(
+    userId,
+    matchId,
+    market.id,
+    JSON.stringify(market),
+    input.isTeamYHome ? 1 : 0,
+    input.bookmaker ?? null,
+    odds,
+    stake,
+    input.probModel ?? null,
+    new Date().toISOString()
+  );
+  return getBet(Number(result.lastInsertRowid));
+}
+
+function toBet(r: any) {
+  const market = JSON.parse(r.market_json) as MarketDefinition;
+  // The line only closes at kickoff; before that there is no CLV to report
+  const closing = new Date(r.utc_date).getTime() <= Date.now()
+    ? closingOdds(r.match_id, r.utc_date, market, r.is_team_y_home === 1)
+    : null;
+  return {
+    id: r.id,
+    matchId: r.match_id,
+    homeTeam: r.home_name,
+    awayTeam: r.away_name,
+    league: r.league_name,
+    date: r.utc_date,
+    marketId: r.market_id,
+    marketName: market.name,
+    legs: market.legs.map(describeLeg),
+    isTeamYHome: r.is_team_y_home === 1,
+    bookmaker: r.bookmaker,
+    odds: r.odds,
+    closingOdds: closing,
+    clv: closing ? r.odds / closing - 1 : null,
+    stake: r.stake,
+    probModel: r.prob_model,
+    status: r.status,
+    profit: r.profit,
+    placedAt: r.placed_at,
+    settledAt: r.settled_at
+  };
+}
+
+const BET_QUERY = `
+  SELECT b.*, m.utc_date, h.name as home_name, a.name as away_name, l.name as league_name
+  FROM bets b
+  JOIN matches m ON b.match_id = m.id
+  JOIN teams h ON m.home_team_id = h.id
+  JOIN teams a ON m.away_team_id = a.id
+  LEFT JOIN leagues l ON m.league_id = l.id
+`;
+
+export function getBet(id: number) {
+  const row = db.prepare(`${BET_QUERY} WHERE b.id = ?`).get(id);
+  return row ? toBet(row) : null;
+}
+
+export function listBets(userId: number) {
+  return (db.prepare(`${BET_QUERY} WHERE b.user_id = ? ORDER BY b.placed_at DESC`).all(userId) as any[]).map(toBet);
+}
+
+// Settles open bets on finished matches. Bets whose legs cannot be decided yet
+// (e.g. corners not imported) stay open until the data arrives.
+export function settleOpenBets() {
+  const open = db.prepare(`
+    SELECT
+      b.id AS bet_id, b.market_json, b.is_team_y_home, b.odds, b.stake,
+      m.status, m.home_score_h1, m.away_score_h1, m.home_score_h2, m.away_score_h2, m.corners
+    FROM bets b JOIN matches m ON b.match_id = m.id
+    WHERE b.status = 'open' AND (m.status = 'FINISHED' OR m.status IN (${VOID_STATUSES.map(() => "?").join(",")}))
+  `).all(...VOID_STATUSES) as any[];
+  const update = db.prepare("UPDATE bets SET status = ?, profit = ?, settled_at = ? WHERE id = ?");
+  const now = new Date().toISOString();
+
+  let settled = 0;
+  db.transaction(() => {
+    for (const b of open) {
+      const market: MarketDefinition = JSON.parse(b.market_json);
+      // Bets placed before unsettleable markets were refused would otherwise
+      // stay open, and count towards their matchday, for good
+      if (VOID_STATUSES.includes(b.status) || !isSettleable(market)) {
+        update.run("void", 0, now, b.bet_id);
+        settled++;
+        continue;
+      }
+      const won = settleMarket(market, b.is_team_y_home === 1, b);
+      if (won === null) continue;
+      update.run(won ? "won" : "lost", won ? b.stake * (b.odds - 1) : -b.stake, now, b.bet_id);
+      settled++;
+    }
+  })();
+
+  if (settled > 0) console.log(`Settled ${settled} bets`);
+  return settled;
+}
+
+export function bankrollSummary(userId: number) {
+  const config = loadStakingConfig(userId);
+  const bets = listBets(userId);
+  const settled = bets.filter(b => b.status === "won" || b.status === "lost");
+  const staked = settled.reduce((s, b) => s + b.stake, 0);
+  const profit = settled.reduce((s, b) => s + b.profit, 0);
+  const clvBets = bets.filter(b => b.status !== "void" && b.clv !== null);
+
+  // Bankroll after each settlement, oldest first
+  let running = config.bankroll;
+  const history = [...settled]
+    .sort((a, b) => String(a.settledAt).localeCompare(String(b.settledAt)))
+    .map(b => {
+      running += b.profit;
+      return { date: b.settledAt, bankroll: running };
+    });
+
+  return {
+    config,
+    startingBankroll: config.bankroll,
+    currentBankroll: config.bankroll + profit,
+    openBets: bets.filter(b => b.status === "open").length,
+    openStake: bets.filter(b => b.status === "open").reduce((s, b) => s + b.stake, 0),
+    settledBets: settled.length,
+    wins: settled.filter(b => b.status === "won").length,
+    staked,
+    profit,
+    roi: staked > 0 ? profit / staked : 0,
+    // Average of taken odds / closing odds - 1, over bets with a closing price
+    clv: clvBets.length > 0 ? clvBets.reduce((s, b) => s + b.clv!, 0) / clvBets.length : null,
+    clvBets: clvBets.length,
+    history
+  };
+}
@@ -0,0 +1,245 @@
+import fs from "fs";
+import { db } from "./db";
+import { LIVE_FEED, LIVE_POLL_SECONDS } from "./config";
+import { footballData } from "./providers";
+import { getMatchRatings, loadRatings } from "./ratings";
+import { MarketDefinition, describeLeg } from "./markets";
+import { DEFAULT_MODEL, MatchState, ModelChoice, modelParams } from "./simulation";
+import { runSimulations } from "./simulation-pool";
+import { applyAdjustments, loadActiveAdjustments } from "./adjustments";
+
+// A live feed is only polled from shortly before a scheduled kickoff until
+// this long after it, unless a match is already marked in play.
+const LIVE_WINDOW_MS = 150 * 60 * 1000;
+// Leg probabilities this close to 0 or 1 count as decided (the exact grids
+// are truncated, so a certain leg sums to just under 1)
+const SETTLED_EPSILON = 1e-6;
+
+export interface LiveSnapshot extends MatchState {
+  matchId: number;
+  status: "IN_PLAY" | "PAUSED";
+}
+
+export interface LiveFeed {
+  name: string;
+  // Every match currently in play; matches missing from the list are over
+  poll(): Promise<LiveSnapshot[]>;
+}
+
+// --- Feeds ---
+// football-data.org reports the running score and the half-time score but no
+// corners, so corner legs are priced over the whole match.
+function footballDataSnapshot(m: any): LiveSnapshot {
+  const status = m.status === "PAUSED" ? "PAUSED" : "IN_PLAY";
+  const minute = status === "PAUSED" ? 45 : Number.parseInt(m.minute, 10) || estimateMinute(m.utcDate);
+  const full = m.score?.fullTime ?? {};
+  const half = m.score?.halfTime ?? {};
+  const inFirstHalf = status === "IN_PLAY" && minute <= 45;
+  const h1Home = inFirstHalf ? full.home ?? 0 : half.home ?? full.home ?? 0;
+  const h1Away = inFirstHalf ? full.away ?? 0 : half.away ?? full.away ?? 0;
+  return {
+    matchId: m.id,
+    status,
+    minute,
+    h1Home,
+    h1Away,
+    h2Home: Math.max(0, (full.home ?? 0) - h1Home),
+    h2Away: Math.max(0, (full.away ?? 0) - h1Away),
+    homeCorners: null,
+    awayCorners: null
+  };
+}
+
+// Minutes played from the kickoff time, allowing 15 minutes for half-time
+function estimateMinute(kickoff: string) {
+  const elapsed = (Date.now() - new Date(kickoff).getTime()) / 60000;
+  if (elapsed <= 45) return Math.max(0, Math.floor(elapsed));
+  if (elapsed <= 60) return 45;
+  return Math.min(90, Math.floor(elapsed - 15));
+}
+
+export function createFootballDataFeed(): LiveFeed {
+  return {
+    name: "football-data",
+    poll: async () => {
+      const response = await footballData("/matches", { status: "IN_PLAY,PAUSED" });
+      return (response.data.matches || []).map(footballDataSnapshot);
+    }
+  };
+}
+
+// A scripted feed for local runs: the file holds an array of frames, each an
+// array of snapshots. Every poll serves the next frame and the last one is
+// repeated once the script runs out.
+export function createFileFeed(path: string): LiveFeed {
+  let frame = 0;
+  return {
+    name: `file:${path}`,
+    poll: async () => {
+      const frames = JSON.parse(fs.readFileSync(path, "utf8"));
+      if (!Array.isArray(frames) || frames.length === 0) return [];
+      const snapshots: Partial<LiveSnapshot>[] = frames[Math.min(frame++, frames.length - 1)];
+      // Goals and corners left out of a frame default to none and unreported
+      return snapshots.map(s => ({
+        status: "IN_PLAY",
+        minute: 0,
+        h1Home: 0,
+        h1Away: 0,
+        h2Home: 0,
+        h2Away: 0,
+        homeCorners: null,
+        awayCorners: null,
+        ...s
+      }) as LiveSnapshot);
+    }
+  };
+}
+
+function configuredFeed(): LiveFeed | null {
+  if (LIVE_FEED === "off") return null;
+  if (LIVE_FEED.startsWith("file:")) return createFileFeed(LIVE_FEED.slice("file:".length));
+  return createFootballDataFeed();
+}
+
+// --- Live State ---
+const snapshots = new Map<number, LiveSnapshot>();
+const listeners = new Set<() => void>();
+
+export function subscribeLive(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function liveSnapshots() {
+  return [...snapshots.values()];
+}
+
+function anyMatchLive(feed: LiveFeed) {
+  if (feed.name !== "football-data") return true;
+  const now = Date.now();
+  const row = db.prepare(`
+    SELECT 1 FROM matches
+    WHERE status IN ('IN_PLAY', 'PAUSED')
+       OR (status IN ('TIMED', 'SCHEDULED') AND utc_date BETWEEN ? AND ?)
+    LIMIT 1
+  `).get(new Date(now - LIVE_WINDOW_MS).toISOString(), new Date(now + LIVE_POLL_SECONDS * 1000).toISOString());
+  return row !== undefined;
+}
+
+// Replaces the live state with the feed's latest view and marks the matches
+// as in play, so they drop out of the pre-match opportunities.
+export async function pollLiveFeed(feed: LiveFeed) {
+  const known = db.prepare("SELECT id FROM matches WHERE id = ?");
+  const latest = (await feed.poll()).filter(s => known.get(s.matchId) !== undefined);
+  const before = JSON.stringify(liveSnapshots());
+
+  const setStatus = db.prepare("UPDATE matches SET status = ? WHERE id = ? AND status != 'FINISHED'");
+  db.transaction(() => latest.forEach(s => setStatus.run(s.status, s.matchId)))();
+  snapshots.clear();
+  for (const s of latest) snapshots.set(s.matchId, s);
+
+  if (JSON.stringify(liveSnapshots()) !== before) listeners.forEach(listener => listener());
+  return latest.length;
+}
+
+export function startLiveFeed() {
+  const feed = configuredFeed();
+  if (!feed) return;
+  const tick = async () => {
+    try {
+      if (anyMatchLive(feed)) {
+        await pollLiveFeed(feed);
+      } else if (snapshots.size > 0) {
+        snapshots.clear();
+        listeners.forEach(listener => listener());
+      }
+    } catch (error) {
+      console.error(`Live feed ${feed.name} failed:`, error);
+    }
+    setTimeout(tick, LIVE_POLL_SECONDS * 1000);
+  };
+  tick();
+  console.log(`Live feed ${feed.name} polling every ${LIVE_POLL_SECONDS}s`);
+}
+
+// --- In-Play Prices ---
+interface LiveMatchRow {
+  id: number;
+  league_id: number;
+  home_team_id: number;
+  away_team_id: number;
+  utc_date: string;
+  home_name: string;
+  away_name: string;
+  league_name: string | null;
+}
+
+// The market priced for both sides of every live match, conditioned on the
+// score, minute and corners so far, next to the pre-match probability.
+export async function livePrices(market: MarketDefinition, model: ModelChoice = DEFAULT_MODEL) {
+  const live = liveSnapshots();
+  if (live.length === 0) return [];
+
+  const ratings = loadRatings();
+  const adjustments = loadActiveAdjustments();
+  const matchRow = db.prepare(`
+    SELECT m.id, m.league_id, m.home_team_id, m.away_team_id, m.utc_date,
+           h.name as home_name, a.name as away_name, l.name as league_name
+    FROM matches m
+    JOIN teams h ON m.home_team_id = h.id
+    JOIN teams a ON m.away_team_id = a.id
+    LEFT JOIN leagues l ON m.league_id = l.id
+    WHERE m.id = ?
+  `);
+
+  // A match deleted since the last poll has nothing left to price
+  const rows = live.flatMap(state => {
+    const m = matchRow.get(state.matchId) as LiveMatchRow | undefined;
+    if (!m) return [];
+    const fitted = getMatchRatings(ratings, m.league_id, m.home_team_id, m.away_team_id);
+    return [{ m, state, inputs: applyAdjustments(fitted, adjustments.get(m.id) ?? []) }];
+  });
+  const jobs = rows.flatMap(({ m, state, inputs }) => [true, false].flatMap(isTeamYHome => {
+    const options = { model, params: modelParams(inputs) };
+    const base = { matchId: m.id, ...inputs, isTeamYHome, market };
+    return [{ ...base, options: { ...options, state } }, { ...base, options }];
+  }));
+  const simulations = await runSimulations(jobs);
+
+  return rows.map(({ m, state }, r) => ({
+    matchId: m.id,
+    homeTeam: m.home_name,
+    awayTeam: m.away_name,
+    league: m.league_name,
+    date: m.utc_date,
+    status: state.status,
+    minute: state.minute,
+    score: {
+      home: state.h1Home + state.h2Home,
+      away: state.h1Away + state.h2Away,
+      h1Home: state.h1Home,
+      h1Away: state.h1Away
+    },
+    corners: state.homeCorners === null || state.awayCorners === null
+      ? null
+      : { home: state.homeCorners, away: state.awayCorners },
+    sides: [true, false].map((isTeamYHome, s) => {
+      const inPlay = simulations[r * 4 + s * 2];
+      const preMatch = simulations[r * 4 + s * 2 + 1];
+      return {
+        isTeamYHome,
+        probability: inPlay.probability,
+        preMatchProbability: preMatch.probability,
+        fairOdds: inPlay.probability > 0 ? 1 / inPlay.probability : null,
+        // A leg at 0 or 1 is already decided by what has happened
+        legs: market.legs.map((leg, j) => ({
+          label: describeLeg(leg),
+          probability: inPlay.legs[j],
+          settled: inPlay.legs[j] < SETTLED_EPSILON || inPlay.legs[j] > 1 - SETTLED_EPSILON
+        }))
+      };
+    })
+  }));
+}
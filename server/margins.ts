@@ -0,0 +1,112 @@
+import { BookmakerPrices, comboPrices, priceKey } from "./odds";
+import { MarketDefinition } from "./markets";
+
+export const DEVIG_METHODS = ["proportional", "shin", "power"] as const;
+export type DevigMethod = typeof DEVIG_METHODS[number];
+export const DEFAULT_DEVIG_METHOD: DevigMethod = "shin";
+
+// Outcome sets that make up a complete book: exactly one of them wins
+const COMPLETE_BOOKS = [["home", "draw", "away"], ["over", "under"], ["yes", "no"]];
+const BISECTION_STEPS = 60;
+
+// --- De-vigging ---
+export function overround(odds: number[]) {
+  return odds.reduce((sum, o) => sum + 1 / o, 0) - 1;
+}
+
+// Root of a decreasing function on [lo, hi]
+function solveDecreasing(f: (x: number) => number, lo: number, hi: number) {
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) > 0) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// Margin-free probabilities for a complete book of decimal odds:
+// - proportional scales every implied probability by the same factor;
+// - shin assumes the margin protects against a share z of insider money,
+//   which takes more off longshots than favourites;
+// - power raises the implied probabilities to the exponent k that makes
+//   them sum to one, with a similar longshot skew.
+export function devig(odds: number[], method: DevigMethod): number[] {
+  const implied = odds.map(o => 1 / o);
+  const total = implied.reduce((sum, q) => sum + q, 0);
+  const normalise = (p: number[]) => {
+    const sum = p.reduce((s, x) => s + x, 0);
+    return p.map(x => x / sum);
+  };
+  // A book without margin (or below 100%) only needs normalising
+  if (method === "proportional" || total <= 1) return normalise(implied);
+
+  if (method === "power") {
+    const sumAt = (k: number) => implied.reduce((sum, q) => sum + q ** k, 0) - 1;
+    let hi = 2;
+    while (sumAt(hi) > 0) hi *= 2;
+    const k = solveDecreasing(sumAt, 1, hi);
+    return normalise(implied.map(q => q ** k));
+  }
+
+  const shin = (z: number) => implied.map(q => (Math.sqrt(z * z + 4 * (1 - z) * q * q / total) - z) / (2 * (1 - z)));
+  const z = solveDecreasing(z => shin(z).reduce((sum, p) => sum + p, 0) - 1, 0, 0.99);
+  return normalise(shin(z));
+}
+
+// --- Complete Books ---
+export interface CompleteBook {
+  market: string;
+  point: number;
+  selections: string[];
+  // bookmaker -> odds in the order of selections
+  odds: Map<string, number[]>;
+}
+
+function outcomeSet(selections: Set<string>) {
+  return COMPLETE_BOOKS.find(set => set.length === selections.size && set.every(s => selections.has(s)));
+}
+
+// Groups each bookmaker's prices into complete books (1X2, over/under at one
+// line, yes/no), keyed by market and line across bookmakers.
+export function completeBooks(prices: BookmakerPrices): CompleteBook[] {
+  const books = new Map<string, CompleteBook>();
+  for (const [bookmaker, entries] of prices) {
+    const byLine = new Map<string, Map<string, number>>();
+    for (const [key, price] of entries) {
+      const [market, selection, point] = key.split("|");
+      const line = `${market}|${point}`;
+      if (!byLine.has(line)) byLine.set(line, new Map());
+      byLine.get(line)!.set(selection, price);
+    }
+    for (const [line, selections] of byLine) {
+      const outcomes = outcomeSet(new Set(selections.keys()));
+      if (!outcomes) continue;
+      const [market, point] = line.split("|");
+      if (!books.has(line)) books.set(line, { market, point: Number(point), selections: outcomes, odds: new Map() });
+      books.get(line)!.odds.set(bookmaker, outcomes.map(s => selections.get(s)!));
+    }
+  }
+  return [...books.values()];
+}
+
+// --- Fair Prices ---
+// Consensus margin-free odds: every bookmaker's complete book de-vigged, the
+// probabilities averaged across bookmakers. Keyed like a bookmaker's entries.
+export function fairPrices(prices: BookmakerPrices, method: DevigMethod = DEFAULT_DEVIG_METHOD): Map<string, number> {
+  const fair = new Map<string, number>();
+  for (const book of completeBooks(prices)) {
+    const probabilities = [...book.odds.values()].map(odds => devig(odds, method));
+    book.selections.forEach((selection, i) => {
+      const p = probabilities.reduce((sum, b) => sum + b[i], 0) / probabilities.length;
+      fair.set(priceKey(book.market, selection, book.point), 1 / p);
+    });
+  }
+  return fair;
+}
+
+// The combo priced from fair leg odds (see fairPrices) the same way bookmaker
+// combos are built, or null when a leg has no complete book to de-vig.
+export function fairComboOdds(fair: Map<string, number>, market: MarketDefinition, isTeamYHome: boolean): number | null {
+  const [odds] = comboPrices(new Map([["fair", fair]]), market, isTeamYHome);
+  return odds ?? null;
+}
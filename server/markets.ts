@@ -0,0 +1,179 @@
+import fs from "fs";
+import { MARKETS_FILE } from "./config";
+
+// --- Combined Market Definitions ---
+// A market is a bet-builder combination of legs that must all win. Teams are
+// referenced relative to the selection being priced: "teamY" is the side the
+// combo is built around, "opponent" the other one; "home"/"away" are absolute.
+export type Period = "h1" | "h2" | "ft";
+export type TeamRef = "teamY" | "opponent" | "home" | "away";
+export type OverUnder = "over" | "under";
+
+export type MarketLeg =
+  | { type: "goals"; period: Period; side: OverUnder; line: number }
+  | { type: "btts"; period: Period; value: boolean }
+  | { type: "result"; team: TeamRef; period: Period | "either_half" | "both_halves"; outcome: "win" | "draw" | "lose" }
+  | { type: "corners"; side: OverUnder; line: number }
+  | { type: "team_corners"; team: TeamRef; side: OverUnder; line: number };
+
+export interface MarketDefinition {
+  id: string;
+  name: string;
+  legs: MarketLeg[];
+}
+
+export const DEFAULT_MARKET_ID = "u35-halves-teamy-half-o55c";
+
+const PERIOD_LABELS: Record<string, string> = {
+  h1: "1st Half",
+  h2: "2nd Half",
+  ft: "Full Time",
+  either_half: "a Half",
+  both_halves: "Both Halves"
+};
+
+const TEAM_LABELS: Record<TeamRef, string> = {
+  teamY: "Team Y",
+  opponent: "Opponent",
+  home: "Home",
+  away: "Away"
+};
+
+export function describeLeg(leg: MarketLeg): string {
+  const ou = (side: OverUnder, line: number) => `${side === "over" ? "O" : "U"}${line}`;
+  switch (leg.type) {
+    case "goals":
+      return `${ou(leg.side, leg.line)} Goals (${PERIOD_LABELS[leg.period]})`;
+    case "btts":
+      return `BTTS ${leg.value ? "Yes" : "No"} (${PERIOD_LABELS[leg.period]})`;
+    case "result": {
+      const verb = leg.outcome === "win" ? "Wins" : leg.outcome === "lose" ? "Loses" : "Draws";
+      const period = leg.period === "ft" ? "" : ` ${PERIOD_LABELS[leg.period]}`;
+      return `${TEAM_LABELS[leg.team]} ${verb}${period}`;
+    }
+    case "corners":
+      return `${leg.side === "over" ? "Over" : "Under"} ${leg.line} Corners`;
+    case "team_corners":
+      return `${TEAM_LABELS[leg.team]} ${leg.side === "over" ? "Over" : "Under"} ${leg.line} Corners`;
+  }
+}
+
+export function findMarket(id: string): MarketDefinition | undefined {
+  return MARKETS.find(m => m.id === id);
+}
+
+// --- Validation ---
+export class MarketDefinitionError extends Error {}
+
+const isLine = (v: any) => typeof v === "number" && Number.isFinite(v) && v >= 0;
+const oneOf = (v: any, values: string[]) => typeof v === "string" && values.includes(v);
+
+function validateLeg(leg: any, index: number): MarketLeg {
+  const fail = (msg: string): never => {
+    throw new MarketDefinitionError(`Leg ${index + 1}: ${msg}`);
+  };
+  if (!leg || typeof leg !== "object") fail("must be an object");
+
+  switch (leg.type) {
+    case "goals":
+      if (!oneOf(leg.period, ["h1", "h2", "ft"])) fail("period must be h1, h2 or ft");
+      if (!oneOf(leg.side, ["over", "under"])) fail("side must be over or under");
+      if (!isLine(leg.line)) fail("line must be a non-negative number");
+      return { type: "goals", period: leg.period, side: leg.side, line: leg.line };
+    case "btts":
+      if (!oneOf(leg.period ?? "ft", ["h1", "h2", "ft"])) fail("period must be h1, h2 or ft");
+      if (typeof leg.value !== "boolean") fail("value must be true or false");
+      return { type: "btts", period: leg.period ?? "ft", value: leg.value };
+    case "result":
+      if (!oneOf(leg.team, ["teamY", "opponent", "home", "away"])) fail("team must be teamY, opponent, home or away");
+      if (!oneOf(leg.period, ["h1", "h2", "ft", "either_half", "both_halves"])) fail("period must be h1, h2, ft, either_half or both_halves");
+      if (!oneOf(leg.outcome, ["win", "draw", "lose"])) fail("outcome must be win, draw or lose");
+      return { type: "result", team: leg.team, period: leg.period, outcome: leg.outcome };
+    case "corners":
+      if (!oneOf(leg.side, ["over", "under"])) fail("side must be over or under");
+      if (!isLine(leg.line)) fail("line must be a non-negative number");
+      return { type: "corners", side: leg.side, line: leg.line };
+    case "team_corners":
+      if (!oneOf(leg.team, ["teamY", "opponent", "home", "away"])) fail("team must be teamY, opponent, home or away");
+      if (!oneOf(leg.side, ["over", "under"])) fail("side must be over or under");
+      if (!isLine(leg.line)) fail("line must be a non-negative number");
+      return { type: "team_corners", team: leg.team, side: leg.side, line: leg.line };
+    default:
+      return fail(`unknown leg type "${leg.type}"`);
+  }
+}
+
+// Results store only the total corner count, so a team-corner leg can be
+// priced but never settled
+export function isSettleable(market: MarketDefinition) {
+  return !market.legs.some(leg => leg.type === "team_corners");
+}
+
+export function parseMarketDefinition(input: any): MarketDefinition {
+  if (!input || typeof input !== "object") {
+    throw new MarketDefinitionError("Market definition must be an object");
+  }
+  if (!Array.isArray(input.legs) || input.legs.length === 0) {
+    throw new MarketDefinitionError("Market definition needs at least one leg");
+  }
+  return {
+    id: typeof input.id === "string" && input.id ? input.id : "custom",
+    name: typeof input.name === "string" && input.name ? input.name : "Custom market",
+    legs: input.legs.map(validateLeg)
+  };
+}
+
+// Resolves ?definition= (inline JSON) or ?market= (catalogue id, default
+// market when absent). Returns undefined for an unknown id; throws
+// MarketDefinitionError for a malformed definition.
+export function marketFromQuery(query: any): MarketDefinition | undefined {
+  if (typeof query.definition === "string") {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(query.definition);
+    } catch {
+      throw new MarketDefinitionError("Market definition is not valid JSON");
+    }
+    return parseMarketDefinition(parsed);
+  }
+  return findMarket(typeof query.market === "string" ? query.market : DEFAULT_MARKET_ID);
+}
+
+// --- Catalogue ---
+// The named markets offered everywhere, read once from MARKETS_FILE (a JSON
+// array of definitions) and checked like a posted definition; every one must
+// be settleable, since any can be bet on. A bad file
+// stops the server at startup rather than failing on first use.
+export function loadMarkets(file: string): MarketDefinition[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error: any) {
+    throw new MarketDefinitionError(`${file}: ${error.message}`);
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new MarketDefinitionError(`${file}: expected a non-empty array of market definitions`);
+  }
+  const markets = raw.map((input, i) => {
+    if (typeof input?.id !== "string" || !input.id || typeof input.name !== "string" || !input.name) {
+      throw new MarketDefinitionError(`${file}: market ${i + 1} needs an id and a name`);
+    }
+    try {
+      return parseMarketDefinition(input);
+    } catch (error: any) {
+      throw new MarketDefinitionError(`${file}: market "${input.id}": ${error.message}`);
+    }
+  });
+  const ids = new Set<string>();
+  for (const m of markets) {
+    if (ids.has(m.id)) throw new MarketDefinitionError(`${file}: duplicate market id "${m.id}"`);
+    if (!isSettleable(m)) throw new MarketDefinitionError(`${file}: market "${m.id}" has a team-corner leg, which cannot be settled`);
+    ids.add(m.id);
+  }
+  if (!ids.has(DEFAULT_MARKET_ID)) {
+    throw new MarketDefinitionError(`${file}: the default market "${DEFAULT_MARKET_ID}" is missing`);
+  }
+  return markets;
+}
+
+export const MARKETS = loadMarkets(MARKETS_FILE);
@@ -0,0 +1,272 @@
+import { db } from "./db";
+import { MatchRatings, getMatchRatings, loadRatings } from "./ratings";
+import { MarketDefinition } from "./markets";
+import { BookmakerPrices, closingOdds, comboPrices, lineMovement, loadMatchPrices, priceKey } from "./odds";
+import {
+  DEFAULT_MODEL, ModelChoice, convolve, cornerPmf, dixonColesTau, goalGrid, modelParams, simulateMatch
+} from "./simulation";
+import { valueMetrics } from "./value";
+import { fairComboOdds, fairPrices } from "./margins";
+import { applyAdjustments, listAdjustments } from "./adjustments";
+
+export class MatchInputsError extends Error {}
+
+// Score matrices run 0..MATRIX_SIZE-1 goals per side; the last row and column
+// hold that many goals or more.
+const MATRIX_SIZE = 6;
+const FORM_MATCHES = 5;
+// Lines shown for the implied over/under prices when no bookmaker offers any
+const DEFAULT_GOAL_LINES = [1.5, 2.5, 3.5];
+const DEFAULT_CORNER_LINES = [8.5, 9.5, 10.5];
+
+export interface PriceComparison {
+  market: string;
+  selection: string;
+  point: number | null;
+  probModel: number;
+  fairOdds: number | null;
+  bestOdd: number | null;
+  bookmaker: string | null;
+  books: number;
+}
+
+// --- Distributions ---
+// grid[home][away] of the goals scored over `share` of the match under the
+// goal model. Dixon-Coles reweights full-time scores only, so half grids
+// leave it out.
+export function scoreGrid(inputs: MatchRatings, model: ModelChoice, share = 1): number[][] {
+  const covariance = model.goals === "bivariate-poisson" ? inputs.goalCovariance * share : 0;
+  const grid = goalGrid(inputs.homeExpG * share, inputs.awayExpG * share, covariance);
+  if (model.goals === "dixon-coles" && share === 1) {
+    grid.forEach((row, x) => row.forEach((p, y) => (row[y] = p * dixonColesTau(x, y, inputs.homeExpG, inputs.awayExpG, inputs.rho))));
+  }
+  return grid;
+}
+
+// Folded into size x size, the last row and column taking the tail
+function bucketed(grid: number[][], size = MATRIX_SIZE): number[][] {
+  const matrix = Array.from({ length: size }, () => new Array(size).fill(0));
+  grid.forEach((row, x) => row.forEach((p, y) => (matrix[Math.min(x, size - 1)][Math.min(y, size - 1)] += p)));
+  return matrix;
+}
+
+// Total corners at kickoff; game-state effects depend on the score and are
+// left out here
+export function cornerDistribution(inputs: MatchRatings, model: ModelChoice) {
+  const side = (mean: number) => cornerPmf(mean, model.corners, inputs.cornerDispersion);
+  return convolve(side(inputs.homeExpC), side(inputs.awayExpC)).map((probability, total) => ({ total, probability }));
+}
+
+// P(total > line) from a pmf over totals
+function overProbability(pmf: number[], line: number) {
+  return pmf.reduce((s, p, k) => (k > line ? s + p : s), 0);
+}
+
+// --- Price Comparison ---
+function bestPrice(prices: BookmakerPrices, key: string) {
+  let bestOdd: number | null = null;
+  let bookmaker: string | null = null;
+  let books = 0;
+  for (const [book, entries] of prices) {
+    const price = entries.get(key);
+    if (price === undefined) continue;
+    books++;
+    if (bestOdd === null || price > bestOdd) {
+      bestOdd = price;
+      bookmaker = book;
+    }
+  }
+  return { bestOdd, bookmaker, books };
+}
+
+function storedLines(prices: BookmakerPrices, market: string, fallback: number[]) {
+  const lines = new Set<number>();
+  for (const entries of prices.values()) {
+    for (const key of entries.keys()) {
+      const [m, , point] = key.split("|");
+      if (m === market) lines.add(Number(point));
+    }
+  }
+  return lines.size > 0 ? [...lines].sort((a, b) => a - b) : fallback;
+}
+
+function comparison(prices: BookmakerPrices, market: string, selection: string, point: number | null, probModel: number): PriceComparison {
+  return {
+    market,
+    selection,
+    point,
+    probModel,
+    fairOdds: probModel > 0 ? 1 / probModel : null,
+    ...bestPrice(prices, priceKey(market, selection, point ?? 0))
+  };
+}
+
+export function impliedPrices(inputs: MatchRatings, prices: BookmakerPrices, model: ModelChoice = DEFAULT_MODEL) {
+  let home = 0;
+  let draw = 0;
+  let away = 0;
+  const goals: number[] = [];
+  scoreGrid(inputs, model).forEach((row, h) => row.forEach((p, a) => {
+    if (h > a) home += p;
+    else if (h === a) draw += p;
+    else away += p;
+    goals[h + a] = (goals[h + a] ?? 0) + p;
+  }));
+
+  const corners = cornerDistribution(inputs, model).map(c => c.probability);
+  const overUnder = (market: string, pmf: number[], lines: number[]) =>
+    lines.flatMap(line => {
+      const over = overProbability(pmf, line);
+      return [
+        comparison(prices, market, "over", line, over),
+        comparison(prices, market, "under", line, 1 - over)
+      ];
+    });
+
+  return {
+    result: [
+      comparison(prices, "h2h", "home", null, home),
+      comparison(prices, "h2h", "draw", null, draw),
+      comparison(prices, "h2h", "away", null, away)
+    ],
+    goals: overUnder("totals", goals, storedLines(prices, "totals", DEFAULT_GOAL_LINES)),
+    corners: overUnder("totals_corners", corners, storedLines(prices, "totals_corners", DEFAULT_CORNER_LINES))
+  };
+}
+
+// --- Recent Form ---
+export function recentForm(teamId: number, before: string, limit = FORM_MATCHES) {
+  const rows = db.prepare(`
+    SELECT m.id, m.utc_date, m.home_team_id, m.home_score_full, m.away_score_full, m.corners,
+           h.name as home_name, a.name as away_name
+    FROM matches m
+    JOIN teams h ON m.home_team_id = h.id
+    JOIN teams a ON m.away_team_id = a.id
+    WHERE m.status = 'FINISHED'
+      AND m.home_score_full IS NOT NULL
+      AND (m.home_team_id = ? OR m.away_team_id = ?)
+      AND m.utc_date < ?
+    ORDER BY m.utc_date DESC
+    LIMIT ?
+  `).all(teamId, teamId, before, limit) as any[];
+
+  return rows.map(r => {
+    const isHome = r.home_team_id === teamId;
+    const scored = isHome ? r.home_score_full : r.away_score_full;
+    const conceded = isHome ? r.away_score_full : r.home_score_full;
+    return {
+      matchId: r.id,
+      date: r.utc_date,
+      opponent: isHome ? r.away_name : r.home_name,
+      venue: isHome ? "H" : "A",
+      scored,
+      conceded,
+      result: scored > conceded ? "W" : scored < conceded ? "L" : "D",
+      corners: r.corners
+    };
+  });
+}
+
+// --- Detail ---
+// Query overrides for the model inputs, so the detail view can re-price the
+// match with tweaked expectations.
+export function parseInputOverrides(query: Record<string, any>) {
+  const overrides: Partial<MatchRatings> = {};
+  for (const key of ["homeExpG", "awayExpG", "homeExpC", "awayExpC"] as const) {
+    if (query[key] === undefined || query[key] === "") continue;
+    const value = Number(query[key]);
+    if (!Number.isFinite(value) || value < 0 || value > 30) {
+      throw new MatchInputsError(`${key} must be a number between 0 and 30`);
+    }
+    overrides[key] = value;
+  }
+  return overrides;
+}
+
+export function getMatchDetail(
+  matchId: number,
+  market: MarketDefinition,
+  overrides: Partial<MatchRatings> = {},
+  model: ModelChoice = DEFAULT_MODEL
+) {
+  const m = db.prepare(`
+    SELECT m.*, h.name as home_name, a.name as away_name, l.name as league_name
+    FROM matches m
+    JOIN teams h ON m.home_team_id = h.id
+    JOIN teams a ON m.away_team_id = a.id
+    LEFT JOIN leagues l ON m.league_id = l.id
+    WHERE m.id = ?
+  `).get(matchId) as any;
+  if (!m) return null;
+
+  // Overrides are what-ifs on top of the model inputs, which include the
+  // match's active manual adjustments
+  const fittedInputs = getMatchRatings(loadRatings(), m.league_id, m.home_team_id, m.away_team_id);
+  const adjustments = listAdjustments(m.id).filter(a => a.active);
+  const modelInputs = applyAdjustments(fittedInputs, adjustments);
+  const inputs = { ...modelInputs, ...overrides };
+  const prices = loadMatchPrices(m.id);
+  const fair = fairPrices(prices);
+
+  // The selected combo priced for either side as Team Y
+  const combo = [true, false].map(isTeamYHome => {
+    const simulation = simulateMatch(inputs.homeExpG, inputs.awayExpG, inputs.homeExpC, inputs.awayExpC, isTeamYHome, market, {
+      model,
+      params: modelParams(inputs)
+    });
+    const offered = comboPrices(prices, market, isTeamYHome);
+    return {
+      isTeamYHome,
+      probability: simulation.probability,
+      legs: simulation.legs,
+      value: offered.length > 0 ? valueMetrics(simulation.probability, offered, fairComboOdds(fair, market, isTeamYHome)) : null
+    };
+  });
+
+  return {
+    match: {
+      id: m.id,
+      date: m.utc_date,
+      status: m.status,
+      league: m.league_name,
+      homeTeam: m.home_name,
+      awayTeam: m.away_name,
+      score: m.home_score_full !== null ? { home: m.home_score_full, away: m.away_score_full } : null,
+      corners: m.corners
+    },
+    model,
+    fittedInputs,
+    adjustments,
+    modelInputs,
+    inputs,
+    matrices: {
+      fullTime: bucketed(scoreGrid(inputs, model)),
+      firstHalf: bucketed(scoreGrid(inputs, model, inputs.h1Share)),
+      secondHalf: bucketed(scoreGrid(inputs, model, 1 - inputs.h1Share))
+    },
+    corners: cornerDistribution(inputs, model),
+    prices: impliedPrices(inputs, prices, model),
+    combo,
+    form: {
+      home: recentForm(m.home_team_id, m.utc_date),
+      away: recentForm(m.away_team_id, m.utc_date)
+    }
+  };
+}
+
+// Price history for the match, with the closing combo price per side once
+// the match has kicked off.
+export function getLineMovement(matchId: number, market: MarketDefinition) {
+  const m = db.prepare("SELECT id, utc_date FROM matches WHERE id = ?").get(matchId) as any;
+  if (!m) return null;
+  const started = new Date(m.utc_date).getTime() <= Date.now();
+  return {
+    matchId: m.id,
+    kickoff: m.utc_date,
+    closing: {
+      home: started ? closingOdds(m.id, m.utc_date, market, true) : null,
+      away: started ? closingOdds(m.id, m.utc_date, market, false) : null
+    },
+    ...lineMovement(m.id, market)
+  };
+}
@@ -0,0 +1,368 @@
+import Database from "better-sqlite3";
+
+// --- Migrations ---
+// Applied in order at startup, each in its own transaction, and recorded in
+// schema_version. Append new migrations; never edit one that has shipped.
+export interface Migration {
+  version: number;
+  description: string;
+  up(db: Database.Database): void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // Databases from before versioning can be at any earlier layout, so this
+    // one only creates what is missing and patches the tables that changed.
+    version: 1,
+    description: "Baseline schema",
+    up: db => {
+      // The first odds table held one row per match and was never written to;
+      // replace it with the per-bookmaker, per-market layout.
+      const oddsColumns = db.prepare("PRAGMA table_info(odds)").all() as any[];
+      if (oddsColumns.length > 0 && !oddsColumns.some(c => c.name === "market")) {
+        db.exec("DROP TABLE odds");
+      }
+
+      // Bets predate accounts; rows without an owner are claimed by the first admin.
+      const betColumns = db.prepare("PRAGMA table_info(bets)").all() as any[];
+      if (betColumns.length > 0 && !betColumns.some(c => c.name === "user_id")) {
+        db.exec("ALTER TABLE bets ADD COLUMN user_id INTEGER");
+      }
+
+      // Team aliases started as a bare alias -> team id map; they now record where
+      // each spelling came from and whether a person or the fuzzy matcher set it.
+      const aliasColumns = db.prepare("PRAGMA table_info(team_aliases)").all() as any[];
+      if (aliasColumns.length > 0 && !aliasColumns.some(c => c.name === "source")) {
+        db.exec(`
+          ALTER TABLE team_aliases ADD COLUMN source TEXT;
+          ALTER TABLE team_aliases ADD COLUMN status TEXT NOT NULL DEFAULT 'confirmed';
+          ALTER TABLE team_aliases ADD COLUMN score REAL;
+          ALTER TABLE team_aliases ADD COLUMN updated_at TEXT;
+        `);
+      }
+
+      // League ratings gained the half split and the parameters of the
+      // alternative goal and corner distributions.
+      const leagueRatingColumns = db.prepare("PRAGMA table_info(league_ratings)").all() as any[];
+      if (leagueRatingColumns.length > 0 && !leagueRatingColumns.some(c => c.name === "h1_share")) {
+        db.exec(`
+          ALTER TABLE league_ratings ADD COLUMN h1_share REAL;
+          ALTER TABLE league_ratings ADD COLUMN goal_covariance REAL;
+          ALTER TABLE league_ratings ADD COLUMN corner_dispersion REAL;
+        `);
+      }
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS leagues (
+          id INTEGER PRIMARY KEY,
+          name TEXT,
+          code TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS teams (
+          id INTEGER PRIMARY KEY,
+          name TEXT,
+          league_id INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS matches (
+          id INTEGER PRIMARY KEY,
+          utc_date TEXT,
+          status TEXT,
+          league_id INTEGER,
+          home_team_id INTEGER,
+          away_team_id INTEGER,
+          home_score_full INTEGER,
+          away_score_full INTEGER,
+          home_score_h1 INTEGER,
+          away_score_h1 INTEGER,
+          home_score_h2 INTEGER,
+          away_score_h2 INTEGER,
+          corners INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS odds (
+          match_id INTEGER,
+          bookmaker TEXT,
+          market TEXT,
+          selection TEXT,
+          point REAL NOT NULL DEFAULT 0,
+          price REAL,
+          last_update TEXT,
+          PRIMARY KEY (match_id, bookmaker, market, selection, point)
+        );
+
+        -- Append-only history of every price seen, one row per bookmaker update
+        CREATE TABLE IF NOT EXISTS odds_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          match_id INTEGER,
+          bookmaker TEXT,
+          market TEXT,
+          selection TEXT,
+          point REAL NOT NULL DEFAULT 0,
+          price REAL,
+          last_update TEXT,
+          fetched_at TEXT,
+          UNIQUE (match_id, bookmaker, market, selection, point, last_update)
+        );
+        CREATE INDEX IF NOT EXISTS odds_snapshots_match ON odds_snapshots (match_id, last_update);
+
+        CREATE TABLE IF NOT EXISTS team_aliases (
+          alias TEXT PRIMARY KEY,
+          team_id INTEGER,
+          source TEXT,
+          status TEXT NOT NULL DEFAULT 'confirmed',
+          score REAL,
+          updated_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS competition_aliases (
+          alias TEXT PRIMARY KEY,
+          league_id INTEGER,
+          source TEXT,
+          status TEXT NOT NULL DEFAULT 'confirmed',
+          score REAL,
+          updated_at TEXT
+        );
+
+        -- Spellings from other sources that fuzzy matching could not settle on its
+        -- own, with the suggested team or league, until someone confirms or rejects
+        CREATE TABLE IF NOT EXISTS entity_reviews (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT,
+          source TEXT,
+          name TEXT,
+          alias TEXT,
+          league_id INTEGER,
+          context TEXT,
+          candidate_id INTEGER,
+          score REAL,
+          status TEXT,
+          resolved_id INTEGER,
+          seen INTEGER,
+          created_at TEXT,
+          updated_at TEXT,
+          UNIQUE (entity, alias)
+        );
+
+        CREATE TABLE IF NOT EXISTS team_ratings (
+          team_id INTEGER PRIMARY KEY,
+          league_id INTEGER,
+          attack REAL,
+          defence REAL,
+          corners REAL,
+          matches_played INTEGER,
+          fitted_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS bets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER,
+          match_id INTEGER,
+          market_id TEXT,
+          market_json TEXT,
+          is_team_y_home INTEGER,
+          bookmaker TEXT,
+          odds REAL,
+          stake REAL,
+          prob_model REAL,
+          status TEXT DEFAULT 'open',
+          profit REAL,
+          placed_at TEXT,
+          settled_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS league_ratings (
+          league_id INTEGER PRIMARY KEY,
+          home_advantage REAL,
+          rho REAL,
+          avg_goals REAL,
+          avg_corners REAL,
+          h1_share REAL,
+          goal_covariance REAL,
+          corner_dispersion REAL,
+          matches_played INTEGER,
+          fitted_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS alert_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT,
+          enabled INTEGER DEFAULT 1,
+          format TEXT,
+          url TEXT,
+          chat_id TEXT,
+          market TEXT,
+          leagues TEXT,
+          min_edge REAL,
+          min_ev REAL,
+          created_at TEXT,
+          updated_at TEXT
+        );
+
+        -- Last price each rule alerted per opportunity, so a pick is only sent
+        -- again when its price improves
+        CREATE TABLE IF NOT EXISTS alert_notifications (
+          rule_id INTEGER,
+          opportunity_key TEXT,
+          best_odd REAL,
+          notified_at TEXT,
+          PRIMARY KEY (rule_id, opportunity_key)
+        );
+
+        CREATE TABLE IF NOT EXISTS alert_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          rule_id INTEGER,
+          opportunity_key TEXT,
+          event TEXT,
+          best_odd REAL,
+          status TEXT,
+          error TEXT,
+          sent_at TEXT
+        );
+
+        -- Frozen analysis runs: the query, seed, model inputs and prices used, and
+        -- the resulting slate, so a run can be reopened after the data moves on
+        CREATE TABLE IF NOT EXISTS analysis_snapshots (
+          id TEXT PRIMARY KEY,
+          label TEXT,
+          query TEXT,
+          inputs TEXT,
+          result TEXT,
+          created_at TEXT
+        );
+
+        -- Local accounts; staking holds the user's own staking config as JSON
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT UNIQUE,
+          password_hash TEXT,
+          salt TEXT,
+          role TEXT,
+          staking TEXT,
+          created_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS sessions (
+          token TEXT PRIMARY KEY,
+          user_id INTEGER,
+          created_at TEXT,
+          expires_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS filter_presets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER,
+          name TEXT,
+          params TEXT,
+          created_at TEXT,
+          UNIQUE (user_id, name)
+        );
+
+        -- entity is "league" or "team"
+        CREATE TABLE IF NOT EXISTS follows (
+          user_id INTEGER,
+          entity TEXT,
+          entity_id INTEGER,
+          created_at TEXT,
+          PRIMARY KEY (user_id, entity, entity_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS watchlist (
+          user_id INTEGER,
+          match_id INTEGER,
+          added_at TEXT,
+          PRIMARY KEY (user_id, match_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job TEXT,
+          trigger TEXT,
+          status TEXT,
+          rows INTEGER,
+          error TEXT,
+          started_at TEXT,
+          finished_at TEXT
+        );
+      `);
+
+      // Prices stored before the snapshot table existed become its first entries
+      const snapshotCount = db.prepare("SELECT COUNT(*) as n FROM odds_snapshots").get() as any;
+      if (snapshotCount.n === 0) {
+        db.exec(`
+          INSERT OR IGNORE INTO odds_snapshots (match_id, bookmaker, market, selection, point, price, last_update, fetched_at)
+          SELECT match_id, bookmaker, market, selection, point, price, last_update, last_update FROM odds
+        `);
+      }
+    }
+  },
+  {
+    version: 2,
+    description: "Manual model adjustments and their audit log",
+    up: db => {
+      db.exec(`
+        -- Analyst changes to a match's expected goals or corners; kind is
+        -- "percent" (value is the % change) or "absolute" (value replaces the input)
+        CREATE TABLE match_adjustments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          match_id INTEGER,
+          target TEXT,
+          kind TEXT,
+          value REAL,
+          reason TEXT,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_by INTEGER,
+          created_at TEXT,
+          updated_at TEXT
+        );
+        CREATE INDEX match_adjustments_match ON match_adjustments (match_id);
+
+        -- Every change with who made it and why; before/after hold the
+        -- adjustment's state as JSON (null before a create and after a delete)
+        CREATE TABLE adjustment_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          adjustment_id INTEGER,
+          match_id INTEGER,
+          action TEXT,
+          user_id INTEGER,
+          reason TEXT,
+          before TEXT,
+          after TEXT,
+          at TEXT
+        );
+        CREATE INDEX adjustment_log_match ON adjustment_log (match_id, at);
+      `);
+    }
+  }
+];
+
+export function schemaVersion(db: Database.Database): number {
+  const row = db.prepare("SELECT MAX(version) as version FROM schema_version").get() as any;
+  return row.version ?? 0;
+}
+
+export function migrate(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT,
+      applied_at TEXT
+    );
+  `);
+  const current = schemaVersion(db);
+  const record = db.prepare("INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)");
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.description, new Date().toISOString());
+    })();
+    console.log(`Applied migration ${migration.version}: ${migration.description}`);
+  }
+}
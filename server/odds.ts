@@ -0,0 +1,219 @@
+import { db } from "./db";
+import { resolveFixture } from "./aliases";
+import { MarketDefinition, MarketLeg } from "./markets";
+import { OddsBookmaker, oddsProvider } from "./providers";
+
+// An event is the same fixture if it kicks off within this window of ours.
+const KICKOFF_TOLERANCE_MS = 3 * 60 * 60 * 1000;
+
+// The odds table keeps the latest price per selection; every bookmaker update
+// is also appended to odds_snapshots (re-fetching an unchanged update is a no-op).
+function storeEventOdds(matchId: number, bookmakers: OddsBookmaker[]) {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO odds (match_id, bookmaker, market, selection, point, price, last_update)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const snapshot = db.prepare(`
+    INSERT OR IGNORE INTO odds_snapshots (match_id, bookmaker, market, selection, point, price, last_update, fetched_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const fetchedAt = new Date().toISOString();
+  let rows = 0;
+  for (const bookmaker of bookmakers) {
+    for (const market of bookmaker.markets) {
+      for (const outcome of market.outcomes) {
+        const values = [matchId, bookmaker.key, market.key, outcome.selection, outcome.point, outcome.price, market.lastUpdate];
+        stmt.run(...values);
+        snapshot.run(...values, fetchedAt);
+        rows++;
+      }
+    }
+  }
+  return rows;
+}
+
+// --- API Services ---
+export async function syncOdds() {
+  const provider = oddsProvider();
+  const leagues = db.prepare("SELECT id, code FROM leagues WHERE code IS NOT NULL").all() as any[];
+  let matched = 0;
+  let unmatched = 0;
+  let rows = 0;
+  const errors: string[] = [];
+  if (!provider) return { matched, unmatched, rows, errors };
+
+  for (const league of leagues) {
+    if (!provider.covers(league.code)) continue;
+    try {
+      for (const event of await provider.events(league.code)) {
+        // Uncertain pairings wait in the review queue instead of taking prices
+        const matchId = resolveFixture({
+          source: provider.name,
+          leagueId: league.id,
+          kickoff: event.commenceTime,
+          homeTeam: event.homeTeam,
+          awayTeam: event.awayTeam,
+          toleranceMs: KICKOFF_TOLERANCE_MS
+        });
+        if (matchId === null) {
+          unmatched++;
+          continue;
+        }
+        matched++;
+
+        const detail = await provider.eventMarkets(league.code, event);
+        db.transaction(() => {
+          rows += storeEventOdds(matchId, event.bookmakers);
+          rows += storeEventOdds(matchId, detail);
+        })();
+      }
+    } catch (error: any) {
+      // One league failing should not cost the others their prices
+      console.error(`Error syncing odds for ${league.code}:`, error);
+      errors.push(`${league.code}: ${error.response ? `HTTP ${error.response.status}` : error.message}`);
+    }
+  }
+
+  console.log(`Synced ${rows} prices for ${matched} matches (${unmatched} events unmatched)`);
+  return { matched, unmatched, rows, errors };
+}
+
+// --- Price Lookup ---
+// bookmaker -> "market|selection|point" -> decimal price
+export type BookmakerPrices = Map<string, Map<string, number>>;
+
+export function priceKey(market: string, selection: string, point = 0) {
+  return `${market}|${selection}|${point}`;
+}
+
+function setPrice(prices: BookmakerPrices, r: any) {
+  if (!prices.has(r.bookmaker)) prices.set(r.bookmaker, new Map());
+  prices.get(r.bookmaker)!.set(priceKey(r.market, r.selection, r.point), r.price);
+}
+
+// With asOf, each selection's last snapshot published by that moment counts
+// (used to replay past decisions without look-ahead).
+export function loadMatchPrices(matchId: number, asOf?: string): BookmakerPrices {
+  const prices: BookmakerPrices = new Map();
+  const rows = (asOf
+    ? db.prepare(`
+        SELECT bookmaker, market, selection, point, price FROM odds_snapshots
+        WHERE match_id = ? AND last_update <= ?
+        ORDER BY last_update ASC, id ASC
+      `).all(matchId, asOf)
+    : db.prepare("SELECT bookmaker, market, selection, point, price FROM odds WHERE match_id = ?").all(matchId)) as any[];
+  for (const r of rows) setPrice(prices, r);
+  return prices;
+}
+
+// Decimal price of a single leg at one bookmaker, or undefined if it does not
+// offer the market. "Either half" and "both halves" results have no market of
+// their own and are built from the two half-time result prices.
+function legPrice(book: Map<string, number>, leg: MarketLeg, isTeamYHome: boolean): number | undefined {
+  const sideOf = (team: string) => {
+    if (team === "home" || team === "away") return team;
+    return (team === "teamY") === isTeamYHome ? "home" : "away";
+  };
+  const periodSuffix = (period: string) => (period === "ft" ? "" : `_${period}`);
+
+  switch (leg.type) {
+    case "goals":
+      return book.get(priceKey(`totals${periodSuffix(leg.period)}`, leg.side, leg.line));
+    case "btts":
+      return book.get(priceKey(`btts${periodSuffix(leg.period)}`, leg.value ? "yes" : "no"));
+    case "result": {
+      const side = sideOf(leg.team);
+      const selection = leg.outcome === "draw" ? "draw" : leg.outcome === "win" ? side : (side === "home" ? "away" : "home");
+      if (leg.period === "h1" || leg.period === "h2" || leg.period === "ft") {
+        return book.get(priceKey(`h2h${periodSuffix(leg.period)}`, selection));
+      }
+      const h1 = book.get(priceKey("h2h_h1", selection));
+      const h2 = book.get(priceKey("h2h_h2", selection));
+      if (!h1 || !h2) return undefined;
+      if (leg.period === "both_halves") return h1 * h2;
+      return 1 / (1 - (1 - 1 / h1) * (1 - 1 / h2));
+    }
+    case "corners":
+      return book.get(priceKey("totals_corners", leg.side, leg.line));
+    case "team_corners":
+      return book.get(priceKey(`team_totals_corners_${sideOf(leg.team)}`, leg.side, leg.line));
+  }
+}
+
+// Bookmakers do not publish a price for the combined market, so each one's
+// bet-builder price is approximated by multiplying its leg prices (the way an
+// accumulator would pay). Bookmakers missing any leg are skipped.
+export function comboPrices(prices: BookmakerPrices, market: MarketDefinition, isTeamYHome: boolean): number[] {
+  const result: number[] = [];
+  for (const book of prices.values()) {
+    let price = 1;
+    for (const leg of market.legs) {
+      const p = legPrice(book, leg, isTeamYHome);
+      if (!p) {
+        price = 0;
+        break;
+      }
+      price *= p;
+    }
+    if (price > 0) result.push(price);
+  }
+  return result;
+}
+
+// --- Price History ---
+// The closing price is the best combo price across bookmakers as of kickoff,
+// each built from the last snapshot of its legs before the match started.
+export function closingOdds(matchId: number, kickoff: string, market: MarketDefinition, isTeamYHome: boolean): number | null {
+  const closing = comboPrices(loadMatchPrices(matchId, new Date(kickoff).toISOString()), market, isTeamYHome);
+  return closing.length > 0 ? Math.max(...closing) : null;
+}
+
+export interface LinePoint {
+  at: string;
+  price: number;
+}
+
+export interface ComboLinePoint {
+  at: string;
+  best: number;
+  average: number;
+  books: number;
+}
+
+// Line movement for one match: every snapshot per bookmaker and selection,
+// and the combo's best and average price for each side after each update.
+export function lineMovement(matchId: number, market: MarketDefinition) {
+  const rows = db.prepare(`
+    SELECT bookmaker, market, selection, point, price, last_update FROM odds_snapshots
+    WHERE match_id = ?
+    ORDER BY last_update ASC, id ASC
+  `).all(matchId) as any[];
+
+  const selections = new Map<string, { bookmaker: string; market: string; selection: string; point: number; points: LinePoint[] }>();
+  const combo: Record<"home" | "away", ComboLinePoint[]> = { home: [], away: [] };
+  const prices: BookmakerPrices = new Map();
+
+  rows.forEach((r, i) => {
+    const id = `${r.bookmaker}|${priceKey(r.market, r.selection, r.point)}`;
+    if (!selections.has(id)) {
+      selections.set(id, { bookmaker: r.bookmaker, market: r.market, selection: r.selection, point: r.point, points: [] });
+    }
+    selections.get(id)!.points.push({ at: r.last_update, price: r.price });
+    setPrice(prices, r);
+
+    // Updates sharing a timestamp are applied together before pricing the combo
+    if (rows[i + 1]?.last_update === r.last_update) return;
+    for (const side of ["home", "away"] as const) {
+      const offered = comboPrices(prices, market, side === "home");
+      if (offered.length === 0) continue;
+      combo[side].push({
+        at: r.last_update,
+        best: Math.max(...offered),
+        average: offered.reduce((s, p) => s + p, 0) / offered.length,
+        books: offered.length
+      });
+    }
+  });
+
+  return { selections: [...selections.values()], combo };
+}
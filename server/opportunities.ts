@@ -0,0 +1,346 @@
+import { db } from "./db";
+import { getMatchRatings, loadRatings } from "./ratings";
+import { MARKETS, MarketDefinition, MarketDefinitionError, describeLeg, marketFromQuery } from "./markets";
+import { comboPrices, loadMatchPrices } from "./odds";
+import { SimulationOptions, SimulationResult, modelParams, parseModelChoice } from "./simulation";
+import { runSimulations } from "./simulation-pool";
+import { meetsMinEv, valueMetrics } from "./value";
+import { parseDateBound } from "./dates";
+import { confidenceLabel, probabilityUncertainty } from "./confidence";
+import { loadStakingConfig, suggestStakes } from "./staking";
+import { currentBankroll, matchdayExposure } from "./ledger";
+import { DEFAULT_DEVIG_METHOD, DEVIG_METHODS, DevigMethod, fairComboOdds, fairPrices } from "./margins";
+import { applyAdjustments, loadActiveAdjustments } from "./adjustments";
+
+export class OpportunityQueryError extends Error {}
+
+const SORT_FIELDS = ["ev", "edge", "date", "probability", "odds"] as const;
+export type OpportunitySort = typeof SORT_FIELDS[number];
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export interface OpportunityQuery {
+  markets: MarketDefinition[];
+  leagues?: string[];
+  from?: string;
+  to?: string;
+  minEdge?: number;
+  // Without it only +EV opportunities are returned
+  minEv?: number;
+  minProbability?: number;
+  minOdds?: number;
+  maxOdds?: number;
+  sort: OpportunitySort;
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: string;
+  simulation: SimulationOptions;
+  // De-vigging method for the fair price edges are measured against
+  devig: DevigMethod;
+  // Only matches in a followed league or with a followed team (see follows)
+  followed?: { leagueIds: number[]; teamIds: number[] };
+}
+
+// One match x market x Team Y side, before paging
+interface Candidate {
+  key: string;
+  m: any;
+  market: MarketDefinition;
+  isTeamYHome: boolean;
+  inputs: ReturnType<typeof getMatchRatings>;
+  simulation: SimulationResult;
+  value: ReturnType<typeof valueMetrics>;
+  // The probability before manual adjustments, for matches that have any
+  probUnadjusted: number | null;
+}
+
+// Builds a query from string parameters: market (catalogue id or "all") or
+// definition, league (comma-separated names), from, to, minEdge, minEv,
+// minProbability, minOdds, maxOdds, sort, order, limit, cursor, method, seed,
+// devig, goalModel, cornerModel, gameState.
+export function parseOpportunityQuery(params: Record<string, any>): OpportunityQuery {
+  const num = (key: string) => {
+    if (params[key] === undefined || params[key] === "") return undefined;
+    const value = Number(params[key]);
+    if (!Number.isFinite(value)) throw new OpportunityQueryError(`${key} must be a number`);
+    return value;
+  };
+
+  let markets: MarketDefinition[];
+  if (params.market === "all" && params.definition === undefined) {
+    markets = MARKETS;
+  } else {
+    const market = marketFromQuery(params);
+    if (!market) throw new MarketDefinitionError(`Unknown market "${params.market}"`);
+    markets = [market];
+  }
+
+  const sort = (params.sort ?? "ev") as OpportunitySort;
+  if (!SORT_FIELDS.includes(sort)) {
+    throw new OpportunityQueryError(`sort must be one of ${SORT_FIELDS.join(", ")}`);
+  }
+  const order = params.order ?? (sort === "date" ? "asc" : "desc");
+  if (order !== "asc" && order !== "desc") throw new OpportunityQueryError("order must be asc or desc");
+  const devig = (params.devig || DEFAULT_DEVIG_METHOD) as DevigMethod;
+  if (!DEVIG_METHODS.includes(devig)) {
+    throw new OpportunityQueryError(`devig must be one of ${DEVIG_METHODS.join(", ")}`);
+  }
+  const date = (key: "from" | "to") => {
+    const value = parseDateBound(params[key], key);
+    if (value === null) throw new OpportunityQueryError(`${key} must be a date`);
+    return value;
+  };
+  const limit = num("limit") ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new OpportunityQueryError(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+
+  return {
+    markets,
+    leagues: params.league ? String(params.league).split(",").filter(Boolean) : undefined,
+    from: date("from"),
+    to: date("to"),
+    minEdge: num("minEdge"),
+    minEv: num("minEv"),
+    minProbability: num("minProbability"),
+    minOdds: num("minOdds"),
+    maxOdds: num("maxOdds"),
+    sort,
+    order,
+    limit,
+    cursor: params.cursor || undefined,
+    simulation: {
+      method: params.method === "monte-carlo" || params.method === "exact" ? params.method : "auto",
+      seed: num("seed"),
+      model: parseModelChoice(params)
+    },
+    devig
+  };
+}
+
+// --- Sorting and Cursors ---
+function sortValue(c: Candidate, sort: OpportunitySort): number | string {
+  switch (sort) {
+    case "ev": return c.value.ev;
+    case "edge": return c.value.edge;
+    case "probability": return c.value.probModel;
+    case "odds": return c.value.bestOdd;
+    case "date": return c.m.utc_date;
+  }
+}
+
+// Total order: the sort field, then the opportunity key, so a cursor picks up
+// exactly after the last row served even when values tie.
+function compareTo(query: OpportunityQuery, value: number | string, key: string, other: number | string, otherKey: string) {
+  const sign = query.order === "asc" ? 1 : -1;
+  if (value < other) return -sign;
+  if (value > other) return sign;
+  return key < otherKey ? -1 : key > otherKey ? 1 : 0;
+}
+
+function encodeCursor(value: number | string, key: string) {
+  return Buffer.from(JSON.stringify([value, key])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [number | string, string] {
+  try {
+    const [value, key] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if ((typeof value === "number" || typeof value === "string") && typeof key === "string") return [value, key];
+  } catch {
+    // fall through
+  }
+  throw new OpportunityQueryError("Invalid cursor");
+}
+
+// --- Opportunities ---
+// Prices every upcoming match for every requested market with either team as
+// Team Y, keeps the rows that pass the filters and returns one page of them.
+// Active manual adjustments are applied to the inputs first; adjusted matches
+// are priced without them too, so both probabilities can be shown.
+// Stakes are suggested over the whole filtered slate so they do not depend on
+// the page, from the user's own bankroll and exposure (the shared staking
+// config for visitors); uncertainty is only computed for the rows served.
+export async function findOpportunities(query: OpportunityQuery, userId: number | null = null) {
+  const dateFilter = `${query.from ? "AND m.utc_date >= ?" : ""} ${query.to ? "AND m.utc_date <= ?" : ""}`;
+  const matches = db.prepare(`
+    SELECT m.*, h.name as home_name, a.name as away_name, l.name as league_name
+    FROM matches m
+    JOIN teams h ON m.home_team_id = h.id
+    JOIN teams a ON m.away_team_id = a.id
+    JOIN leagues l ON m.league_id = l.id
+    WHERE (m.status = 'TIMED' OR m.status = 'SCHEDULED') ${dateFilter}
+    ORDER BY m.utc_date ASC
+  `).all(...[query.from, query.to].filter(Boolean)) as any[];
+  const ratings = loadRatings();
+  const adjustments = loadActiveAdjustments();
+
+  const pending = matches.flatMap(m => {
+    // Poisson means from the fitted Dixon-Coles team and league ratings
+    const fitted = getMatchRatings(ratings, m.league_id, m.home_team_id, m.away_team_id);
+    const adjusted = adjustments.has(m.id);
+    const inputs = adjusted ? applyAdjustments(fitted, adjustments.get(m.id)!) : fitted;
+    const prices = loadMatchPrices(m.id);
+    const fair = fairPrices(prices, query.devig);
+    return query.markets.flatMap(market => [true, false]
+      .map(isTeamYHome => ({
+        m,
+        market,
+        isTeamYHome,
+        fitted,
+        adjusted,
+        inputs,
+        offered: comboPrices(prices, market, isTeamYHome),
+        fair: fairComboOdds(fair, market, isTeamYHome)
+      }))
+      // Sides without prices for every leg have nothing to compare against
+      .filter(c => c.offered.length > 0));
+  });
+
+  const job = (c: typeof pending[number], inputs: typeof c.inputs) => ({
+    matchId: c.m.id,
+    homeExpG: inputs.homeExpG,
+    awayExpG: inputs.awayExpG,
+    homeExpC: inputs.homeExpC,
+    awayExpC: inputs.awayExpC,
+    isTeamYHome: c.isTeamYHome,
+    market: c.market,
+    options: { ...query.simulation, params: modelParams(inputs) }
+  });
+  const unadjusted = pending.filter(c => c.adjusted);
+  const results = await runSimulations([...pending.map(c => job(c, c.inputs)), ...unadjusted.map(c => job(c, c.fitted))]);
+  const simulations = results.slice(0, pending.length);
+  const unadjustedProbability = new Map(unadjusted.map((c, i) => [c, results[pending.length + i].probability]));
+
+  const candidates: Candidate[] = pending.map((c, i) => ({
+    key: `${c.m.id}:${c.market.id}:${c.isTeamYHome ? "home" : "away"}`,
+    m: c.m,
+    market: c.market,
+    isTeamYHome: c.isTeamYHome,
+    inputs: c.inputs,
+    simulation: simulations[i],
+    value: valueMetrics(simulations[i].probability, c.offered, c.fair),
+    probUnadjusted: unadjustedProbability.get(c) ?? null
+  }));
+
+  const leagues = [...new Set(candidates.map(c => c.m.league_name as string))].sort();
+  const filtered = candidates.filter(c =>
+    (!query.leagues || query.leagues.includes(c.m.league_name)) &&
+    (!query.followed || query.followed.leagueIds.includes(c.m.league_id) ||
+      query.followed.teamIds.includes(c.m.home_team_id) || query.followed.teamIds.includes(c.m.away_team_id)) &&
+    meetsMinEv(c.value, query.minEv) &&
+    (query.minEdge === undefined || c.value.edge >= query.minEdge) &&
+    (query.minProbability === undefined || c.value.probModel >= query.minProbability) &&
+    (query.minOdds === undefined || c.value.bestOdd >= query.minOdds) &&
+    (query.maxOdds === undefined || c.value.bestOdd <= query.maxOdds)
+  );
+  filtered.sort((a, b) => compareTo(query, sortValue(a, query.sort), a.key, sortValue(b, query.sort), b.key));
+
+  const staking = loadStakingConfig(userId);
+  const stakes = suggestStakes(
+    staking,
+    currentBankroll(userId, staking),
+    filtered.map(c => ({ key: c.key, date: c.m.utc_date, probModel: c.value.probModel, odds: c.value.bestOdd, ev: c.value.ev })),
+    matchdayExposure(userId)
+  );
+
+  let start = 0;
+  if (query.cursor) {
+    const [value, key] = decodeCursor(query.cursor);
+    start = filtered.findIndex(c => compareTo(query, sortValue(c, query.sort), c.key, value, key) > 0);
+    if (start === -1) start = filtered.length;
+  }
+  const page = filtered.slice(start, start + query.limit);
+  const last = page[page.length - 1];
+  const hasMore = start + query.limit < filtered.length;
+
+  // Confidence reflects how well the ratings pin the probability down,
+  // not how large it is
+  const uncertainties: Awaited<ReturnType<typeof probabilityUncertainty>> = [];
+  for (const market of query.markets) {
+    const own = page.map((c, i) => ({ c, i })).filter(x => x.c.market === market);
+    const results = await probabilityUncertainty(ratings, market, own.map(({ c }) => ({
+      matchId: c.m.id,
+      leagueId: c.m.league_id,
+      homeTeamId: c.m.home_team_id,
+      awayTeamId: c.m.away_team_id,
+      inputs: c.inputs,
+      isTeamYHome: c.isTeamYHome,
+      simulation: c.simulation
+    })), query.simulation.model);
+    own.forEach(({ i }, j) => (uncertainties[i] = results[j]));
+  }
+
+  return {
+    items: page.map((c, i) => ({
+      key: c.key,
+      matchId: c.m.id,
+      homeTeam: c.m.home_name,
+      awayTeam: c.m.away_name,
+      league: c.m.league_name,
+      date: c.m.utc_date,
+      marketId: c.market.id,
+      marketName: c.market.name,
+      isTeamYHome: c.isTeamYHome,
+      ...c.value,
+      probUnadjusted: c.probUnadjusted,
+      confidence: confidenceLabel(c.value.probModel, uncertainties[i]),
+      uncertainty: uncertainties[i],
+      suggestedStake: stakes.get(c.key) ?? 0,
+      breakdown: {
+        legs: c.market.legs.map((leg, j) => ({ label: describeLeg(leg), probability: c.simulation.legs[j] })),
+        pairwise: c.simulation.pairwise,
+        probability: c.simulation.probability,
+        standardError: c.simulation.standardError,
+        // What the combo would be worth if the legs were independent; the gap is the correlation
+        independentProbability: c.simulation.legs.reduce((p, q) => p * q, 1),
+        method: c.simulation.method,
+        iterations: c.simulation.iterations
+      }
+    })),
+    total: filtered.length,
+    nextCursor: hasMore && last ? encodeCursor(sortValue(last, query.sort), last.key) : null,
+    leagues
+  };
+}
+
+// The whole filtered slate in one list, for alerts, exports and snapshots:
+// a single page with no limit, so it is priced once and from one view of the
+// prices and adjustments
+export async function findAllOpportunities(query: OpportunityQuery, userId: number | null = null) {
+  const { items, total, leagues } = await findOpportunities({ ...query, limit: Infinity, cursor: undefined }, userId);
+  return { items, total, leagues };
+}
+
+// --- Legacy Analysis ---
+// The /api/analysis response that predates opportunities: one market, the
+// better (higher EV) side of each upcoming match, +EV only, the top 50 by EV.
+// Each entry keeps its opportunity key so it can be passed on to the bet slip.
+const ANALYSIS_LIMIT = 50;
+
+export async function findAnalysis(query: OpportunityQuery, userId: number | null = null) {
+  const { items } = await findAllOpportunities({ ...query, sort: "ev", order: "desc", minEv: undefined }, userId);
+  const seen = new Set<number>();
+  return items
+    .filter(o => !seen.has(o.matchId) && seen.add(o.matchId))
+    .slice(0, ANALYSIS_LIMIT)
+    .map(o => ({
+      id: o.matchId,
+      key: o.key,
+      homeTeam: o.homeTeam,
+      awayTeam: o.awayTeam,
+      league: o.league,
+      date: o.date,
+      probModel: o.probModel,
+      oddAvg: o.oddAvg,
+      bestOdd: o.bestOdd,
+      probImplied: o.probImplied,
+      edge: o.edge,
+      ev: o.ev,
+      confidence: o.confidence,
+      uncertainty: o.uncertainty,
+      isTeamYHome: o.isTeamYHome,
+      breakdown: o.breakdown,
+      suggestedStake: o.suggestedStake
+    }));
+}
@@ -0,0 +1,335 @@
+import { db } from "./db";
+import { getMatchRatings, loadRatings } from "./ratings";
+import { MarketDefinition, MarketLeg, findMarket } from "./markets";
+import { comboPrices, loadMatchPrices } from "./odds";
+import { ModelChoice, modelParams, parseModelChoice } from "./simulation";
+import { SimulationJob, runSimulations } from "./simulation-pool";
+import { ValueMetrics, valueMetrics } from "./value";
+import { DEFAULT_DEVIG_METHOD, DEVIG_METHODS, DevigMethod, fairComboOdds, fairPrices } from "./margins";
+import { applyAdjustments, loadActiveAdjustments } from "./adjustments";
+import { loadStakingConfig } from "./staking";
+import { currentBankroll, matchdayExposure } from "./ledger";
+
+export class PortfolioError extends Error {}
+
+const MAX_SELECTIONS = 8;
+// Legs from one match are priced jointly, one simulation per subset of them
+const MAX_PER_MATCH = 4;
+// Never more than this share of the bankroll on one slip at full Kelly, so
+// even the worst outcome leaves something to grow from
+const MAX_BANKROLL_SHARE = 0.5;
+const OPTIMISER_STEPS = 2000;
+
+export interface PortfolioQuery {
+  // Opportunity keys: "<matchId>:<marketId>:<home|away>"
+  selections: string[];
+  model: ModelChoice;
+  devig: DevigMethod;
+  // Replaces the staking config's matchday exposure limit for this slip
+  maxExposure?: number;
+}
+
+interface Selection {
+  key: string;
+  m: any;
+  market: MarketDefinition;
+  isTeamYHome: boolean;
+  inputs: ReturnType<typeof getMatchRatings>;
+  value: ValueMetrics;
+}
+
+// One way the slip can land: its probability and which selections win
+interface Outcome {
+  p: number;
+  wins: boolean[];
+}
+
+// A bet the stakes are spread over: each single, and the accumulator
+interface Stakeable {
+  odds: number;
+  day: string;
+  wins: (o: Outcome) => boolean;
+}
+
+// Builds a query from the request body: selections plus the opportunity
+// model parameters (goalModel, cornerModel, gameState, devig) and maxExposure.
+export function parsePortfolioQuery(body: Record<string, any>): PortfolioQuery {
+  const selections = body.selections;
+  if (!Array.isArray(selections) || selections.length === 0 || !selections.every(s => typeof s === "string")) {
+    throw new PortfolioError("selections must be a non-empty list of opportunity keys");
+  }
+  if (selections.length > MAX_SELECTIONS) throw new PortfolioError(`A slip takes at most ${MAX_SELECTIONS} selections`);
+  if (new Set(selections).size !== selections.length) throw new PortfolioError("Each selection may appear only once");
+
+  const devig = (body.devig || DEFAULT_DEVIG_METHOD) as DevigMethod;
+  if (!DEVIG_METHODS.includes(devig)) throw new PortfolioError(`devig must be one of ${DEVIG_METHODS.join(", ")}`);
+  let maxExposure: number | undefined;
+  if (body.maxExposure !== undefined && body.maxExposure !== "") {
+    maxExposure = Number(body.maxExposure);
+    if (!Number.isFinite(maxExposure) || maxExposure < 0) throw new PortfolioError("maxExposure must be a non-negative number");
+  }
+  return { selections, model: parseModelChoice(body), devig, maxExposure };
+}
+
+// --- Selections ---
+function parseKey(key: string) {
+  const parts = key.split(":");
+  const side = parts.pop();
+  const matchId = Number(parts.shift());
+  const market = findMarket(parts.join(":"));
+  if (!Number.isInteger(matchId) || !market || (side !== "home" && side !== "away")) {
+    throw new PortfolioError(`Invalid selection "${key}"`);
+  }
+  return { matchId, market, isTeamYHome: side === "home" };
+}
+
+// Legs with teams relative to Team Y, rewritten as home/away so selections
+// built around different sides of one match can be combined
+function absoluteLeg(leg: MarketLeg, isTeamYHome: boolean): MarketLeg {
+  if (!("team" in leg) || leg.team === "home" || leg.team === "away") return leg;
+  const home = (leg.team === "teamY") === isTeamYHome;
+  return { ...leg, team: home ? "home" : "away" } as MarketLeg;
+}
+
+function loadSelections(query: PortfolioQuery): Selection[] {
+  const ratings = loadRatings();
+  const adjustments = loadActiveAdjustments();
+  const match = db.prepare(`
+    SELECT m.*, h.name as home_name, a.name as away_name, l.name as league_name
+    FROM matches m
+    JOIN teams h ON m.home_team_id = h.id
+    JOIN teams a ON m.away_team_id = a.id
+    JOIN leagues l ON m.league_id = l.id
+    WHERE m.id = ?
+  `);
+
+  return query.selections.map(key => {
+    const { matchId, market, isTeamYHome } = parseKey(key);
+    const m = match.get(matchId) as any;
+    if (!m) throw new PortfolioError(`Unknown match ${matchId}`);
+    if (m.status !== "TIMED" && m.status !== "SCHEDULED") throw new PortfolioError(`${m.home_name} v ${m.away_name} is no longer upcoming`);
+
+    const prices = loadMatchPrices(matchId);
+    const offered = comboPrices(prices, market, isTeamYHome);
+    if (offered.length === 0) throw new PortfolioError(`No prices for ${market.name} on ${m.home_name} v ${m.away_name}`);
+    const fitted = getMatchRatings(ratings, m.league_id, m.home_team_id, m.away_team_id);
+    const inputs = adjustments.has(matchId) ? applyAdjustments(fitted, adjustments.get(matchId)!) : fitted;
+    return {
+      key,
+      m,
+      market,
+      isTeamYHome,
+      inputs,
+      // Filled in with the model probability once simulated
+      value: valueMetrics(0, offered, fairComboOdds(fairPrices(prices, query.devig), market, isTeamYHome))
+    };
+  });
+}
+
+// --- Joint Outcomes ---
+// Selections on different matches are independent. Within a match, each
+// subset of selections is priced as one combined market from the same score
+// and corner distribution; the chance of exactly one set winning then follows
+// by inclusion-exclusion over the subsets containing it.
+export async function jointOutcomes(selections: Selection[], model: ModelChoice) {
+  const groups = new Map<number, number[]>();
+  selections.forEach((s, i) => {
+    if (!groups.has(s.m.id)) groups.set(s.m.id, []);
+    groups.get(s.m.id)!.push(i);
+  });
+  for (const indices of groups.values()) {
+    if (indices.length > MAX_PER_MATCH) {
+      throw new PortfolioError(`At most ${MAX_PER_MATCH} selections from one match`);
+    }
+  }
+
+  const jobs: SimulationJob[] = [];
+  const subsets: { matchId: number; mask: number }[] = [];
+  for (const [matchId, indices] of groups) {
+    const s = selections[indices[0]];
+    for (let mask = 1; mask < 1 << indices.length; mask++) {
+      const members = indices.filter((_, b) => mask & (1 << b)).map(i => selections[i]);
+      subsets.push({ matchId, mask });
+      jobs.push({
+        matchId,
+        homeExpG: s.inputs.homeExpG,
+        awayExpG: s.inputs.awayExpG,
+        homeExpC: s.inputs.homeExpC,
+        awayExpC: s.inputs.awayExpC,
+        isTeamYHome: true,
+        market: {
+          id: members.map(m => m.key).join("+"),
+          name: members.map(m => m.market.name).join(" + "),
+          legs: members.flatMap(m => m.market.legs.map(leg => absoluteLeg(leg, m.isTeamYHome)))
+        },
+        options: { method: "auto", model, params: modelParams(s.inputs) }
+      });
+    }
+  }
+  const results = await runSimulations(jobs);
+  // P(every selection in the subset wins), per match and subset mask
+  const allWin = new Map<number, number[]>();
+  subsets.forEach(({ matchId, mask }, i) => {
+    if (!allWin.has(matchId)) allWin.set(matchId, [1]);
+    allWin.get(matchId)![mask] = results[i].probability;
+  });
+
+  let outcomes: Outcome[] = [{ p: 1, wins: new Array(selections.length).fill(false) }];
+  for (const [matchId, indices] of groups) {
+    const q = allWin.get(matchId)!;
+    const full = (1 << indices.length) - 1;
+    const atoms = Array.from({ length: full + 1 }, (_, won) => {
+      let p = 0;
+      // Supersets of `won`: add or subtract by how many more selections they hold
+      for (let extra = full & ~won; ; extra = (extra - 1) & full & ~won) {
+        const bits = extra.toString(2).replace(/0/g, "").length;
+        p += (bits % 2 === 0 ? 1 : -1) * q[won | extra];
+        if (extra === 0) break;
+      }
+      return Math.max(0, p);
+    });
+    const norm = atoms.reduce((sum, p) => sum + p, 0);
+    outcomes = outcomes.flatMap(o => atoms.map((p, won) => ({
+      p: o.p * p / norm,
+      wins: o.wins.map((w, i) => {
+        const b = indices.indexOf(i);
+        return b === -1 ? w : (won & (1 << b)) !== 0;
+      })
+    }))).filter(o => o.p > 0);
+  }
+
+  return {
+    outcomes,
+    sameMatch: [...groups].filter(([, indices]) => indices.length > 1).map(([matchId, indices]) => ({
+      matchId,
+      keys: indices.map(i => selections[i].key),
+      jointProbability: allWin.get(matchId)![(1 << indices.length) - 1],
+      independentProbability: indices.reduce((p, i) => p * allWin.get(matchId)![1 << indices.indexOf(i)], 1)
+    }))
+  };
+}
+
+// --- Stakes ---
+// Fractions of the bankroll that maximise expected log wealth over the joint
+// outcomes, by Frank-Wolfe: each step moves toward the stakes that fund the
+// steepest bets first within the per-bet, per-matchday and slip caps.
+export function logOptimalFractions(bets: Stakeable[], outcomes: Outcome[], betCap: number, dayCaps: Map<string, number>, slipCap: number) {
+  const returns = outcomes.map(o => bets.map(b => (b.wins(o) ? b.odds - 1 : -1)));
+  let fractions = new Array(bets.length).fill(0);
+
+  for (let t = 0; t < OPTIMISER_STEPS; t++) {
+    const gradient = new Array(bets.length).fill(0);
+    outcomes.forEach((o, k) => {
+      const wealth = 1 + fractions.reduce((sum, f, b) => sum + f * returns[k][b], 0);
+      returns[k].forEach((r, b) => (gradient[b] += o.p * r / wealth));
+    });
+
+    const vertex = new Array(bets.length).fill(0);
+    const dayLeft = new Map(dayCaps);
+    let slipLeft = slipCap;
+    for (const b of bets.map((_, b) => b).sort((x, y) => gradient[y] - gradient[x])) {
+      if (gradient[b] <= 0) break;
+      vertex[b] = Math.max(0, Math.min(betCap, dayLeft.get(bets[b].day)!, slipLeft));
+      dayLeft.set(bets[b].day, dayLeft.get(bets[b].day)! - vertex[b]);
+      slipLeft -= vertex[b];
+    }
+    const step = 2 / (t + 2);
+    fractions = fractions.map((f, b) => f + step * (vertex[b] - f));
+  }
+  return fractions;
+}
+
+// --- Portfolio ---
+// Prices a bet slip: each selection, the accumulator of all of them and the
+// correlation between legs from the same match, then suggests how to split
+// stakes between the singles and the accumulator. Stakes maximise expected
+// log growth, scaled by the staking config's Kelly fraction as single-bet
+// stakes are, within its per-bet and matchday limits less what the ledger
+// already has on each day.
+export async function buildPortfolio(query: PortfolioQuery, userId: number | null = null) {
+  const selections = loadSelections(query);
+  const { outcomes, sameMatch } = await jointOutcomes(selections, query.model);
+  const probability = (wins: (o: Outcome) => boolean) => outcomes.reduce((sum, o) => sum + (wins(o) ? o.p : 0), 0);
+  selections.forEach((s, i) => {
+    s.value = valueMetrics(probability(o => o.wins[i]), [s.value.bestOdd], s.value.fairOdds);
+  });
+
+  const day = (s: Selection) => String(s.m.utc_date).slice(0, 10);
+  const bets: Stakeable[] = selections.map((s, i) => ({ odds: s.value.bestOdd, day: day(s), wins: o => o.wins[i] }));
+  const accumulator = selections.length > 1
+    ? {
+      probability: probability(o => o.wins.every(Boolean)),
+      independentProbability: selections.reduce((p, s) => p * s.value.probModel, 1),
+      odds: selections.reduce((p, s) => p * s.value.bestOdd, 1),
+      fairOdds: selections.every(s => s.value.fairOdds !== null)
+        ? selections.reduce((p, s) => p * s.value.fairOdds!, 1)
+        : null
+    }
+    : null;
+  // An accumulator counts against the day of its first kickoff
+  if (accumulator) {
+    bets.push({ odds: accumulator.odds, day: selections.map(day).sort()[0], wins: o => o.wins.every(Boolean) });
+  }
+
+  const staking = loadStakingConfig(userId);
+  const bankroll = currentBankroll(userId, staking);
+  const exposure = matchdayExposure(userId);
+  const limit = query.maxExposure ?? staking.maxMatchdayExposure;
+  const exposureLeft = new Map(bets.map(b => [b.day, Math.max(0, limit - (exposure.get(b.day) || 0))]));
+  // Optimised at full Kelly with the limits grossed up, so they still hold
+  // once the Kelly fraction scales the stakes down
+  const scale = staking.kellyFraction * bankroll;
+  const fractions = scale > 0
+    ? logOptimalFractions(
+      bets,
+      outcomes,
+      staking.maxStake / scale,
+      new Map([...exposureLeft].map(([d, left]) => [d, left / scale])),
+      MAX_BANKROLL_SHARE
+    )
+    : bets.map(() => 0);
+  const stakes = fractions.map(f => Math.floor(f * scale * 100) / 100);
+
+  const profits = outcomes.map(o => bets.reduce((sum, b, i) => sum + stakes[i] * (b.wins(o) ? b.odds - 1 : -1), 0));
+  const expectedProfit = outcomes.reduce((sum, o, k) => sum + o.p * profits[k], 0);
+  const variance = outcomes.reduce((sum, o, k) => sum + o.p * (profits[k] - expectedProfit) ** 2, 0);
+  const variancePerUnit = (p: number, odds: number) => p * (1 - p) * odds * odds;
+
+  return {
+    selections: selections.map((s, i) => ({
+      key: s.key,
+      matchId: s.m.id,
+      homeTeam: s.m.home_name,
+      awayTeam: s.m.away_name,
+      league: s.m.league_name,
+      date: s.m.utc_date,
+      marketId: s.market.id,
+      marketName: s.market.name,
+      isTeamYHome: s.isTeamYHome,
+      probModel: s.value.probModel,
+      bestOdd: s.value.bestOdd,
+      fairOdds: s.value.fairOdds,
+      edge: s.value.edge,
+      ev: s.value.ev,
+      variance: variancePerUnit(s.value.probModel, s.value.bestOdd),
+      suggestedStake: stakes[i]
+    })),
+    accumulator: accumulator && {
+      ...accumulator,
+      ev: accumulator.probability * accumulator.odds - 1,
+      variance: variancePerUnit(accumulator.probability, accumulator.odds),
+      suggestedStake: stakes[selections.length]
+    },
+    sameMatch,
+    stakes: {
+      bankroll,
+      kellyFraction: staking.kellyFraction,
+      exposureLeft: Object.fromEntries(exposureLeft),
+      totalStake: stakes.reduce((sum, s) => sum + s, 0),
+      expectedProfit,
+      standardDeviation: Math.sqrt(variance),
+      probabilityOfLoss: outcomes.reduce((sum, o, k) => sum + (profits[k] < -1e-9 ? o.p : 0), 0),
+      expectedLogGrowth: bankroll > 0 ? outcomes.reduce((sum, o, k) => sum + o.p * Math.log(1 + profits[k] / bankroll), 0) : 0
+    }
+  };
+}
@@ -0,0 +1,122 @@
+import { db } from "./db";
+
+export class PreferenceError extends Error {}
+
+export type FollowEntity = "league" | "team";
+
+// --- Filter Presets ---
+// Named sets of /api/opportunities parameters, stored as given and replayed
+// by the client.
+export interface FilterPreset {
+  id: number;
+  name: string;
+  params: Record<string, string | number | boolean>;
+  createdAt: string;
+}
+
+function toPreset(r: any): FilterPreset {
+  return { id: r.id, name: r.name, params: JSON.parse(r.params), createdAt: r.created_at };
+}
+
+export function listFilterPresets(userId: number): FilterPreset[] {
+  return (db.prepare("SELECT * FROM filter_presets WHERE user_id = ? ORDER BY name").all(userId) as any[]).map(toPreset);
+}
+
+// Saving under an existing name replaces that preset.
+export function saveFilterPreset(userId: number, input: any): FilterPreset {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) throw new PreferenceError("name is required");
+  const params = input.params;
+  if (!params || typeof params !== "object" || Array.isArray(params) ||
+      !Object.values(params).every(v => ["string", "number", "boolean"].includes(typeof v))) {
+    throw new PreferenceError("params must be an object of filter values");
+  }
+  db.prepare(`
+    INSERT INTO filter_presets (user_id, name, params, created_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT(user_id, name) DO UPDATE SET params = excluded.params
+  `).run(userId, name, JSON.stringify(params), new Date().toISOString());
+  return toPreset(db.prepare("SELECT * FROM filter_presets WHERE user_id = ? AND name = ?").get(userId, name));
+}
+
+export function deleteFilterPreset(userId: number, id: number): boolean {
+  return db.prepare("DELETE FROM filter_presets WHERE user_id = ? AND id = ?").run(userId, id).changes > 0;
+}
+
+// --- Follows ---
+export function parseFollowEntity(value: any): FollowEntity {
+  if (value !== "league" && value !== "team") throw new PreferenceError("entity must be league or team");
+  return value;
+}
+
+export function listFollows(userId: number) {
+  return {
+    leagues: db.prepare(`
+      SELECT l.id, l.name FROM follows f JOIN leagues l ON f.entity_id = l.id
+      WHERE f.user_id = ? AND f.entity = 'league' ORDER BY l.name
+    `).all(userId) as { id: number; name: string }[],
+    teams: db.prepare(`
+      SELECT t.id, t.name, l.name as league FROM follows f
+      JOIN teams t ON f.entity_id = t.id
+      LEFT JOIN leagues l ON t.league_id = l.id
+      WHERE f.user_id = ? AND f.entity = 'team' ORDER BY t.name
+    `).all(userId) as { id: number; name: string; league: string | null }[]
+  };
+}
+
+// Ids for the opportunities "followed" filter
+export function followedIds(userId: number) {
+  const rows = db.prepare("SELECT entity, entity_id FROM follows WHERE user_id = ?").all(userId) as any[];
+  return {
+    leagueIds: rows.filter(r => r.entity === "league").map(r => r.entity_id as number),
+    teamIds: rows.filter(r => r.entity === "team").map(r => r.entity_id as number)
+  };
+}
+
+export function follow(userId: number, entity: FollowEntity, id: number) {
+  const table = entity === "league" ? "leagues" : "teams";
+  if (!db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(id)) throw new PreferenceError(`Unknown ${entity} ${id}`);
+  db.prepare("INSERT OR IGNORE INTO follows (user_id, entity, entity_id, created_at) VALUES (?, ?, ?, ?)")
+    .run(userId, entity, id, new Date().toISOString());
+  return listFollows(userId);
+}
+
+export function unfollow(userId: number, entity: FollowEntity, id: number) {
+  db.prepare("DELETE FROM follows WHERE user_id = ? AND entity = ? AND entity_id = ?").run(userId, entity, id);
+  return listFollows(userId);
+}
+
+// --- Watchlist ---
+export function listWatchlist(userId: number) {
+  return (db.prepare(`
+    SELECT m.*, w.added_at, h.name as home_name, a.name as away_name, l.name as league_name
+    FROM watchlist w
+    JOIN matches m ON w.match_id = m.id
+    JOIN teams h ON m.home_team_id = h.id
+    JOIN teams a ON m.away_team_id = a.id
+    LEFT JOIN leagues l ON m.league_id = l.id
+    WHERE w.user_id = ?
+    ORDER BY m.utc_date ASC
+  `).all(userId) as any[]).map(m => ({
+    matchId: m.id,
+    homeTeam: m.home_name,
+    awayTeam: m.away_name,
+    league: m.league_name,
+    date: m.utc_date,
+    status: m.status,
+    homeScore: m.home_score_full,
+    awayScore: m.away_score_full,
+    addedAt: m.added_at
+  }));
+}
+
+export function watchMatch(userId: number, matchId: number) {
+  if (!db.prepare("SELECT 1 FROM matches WHERE id = ?").get(matchId)) throw new PreferenceError(`Unknown match ${matchId}`);
+  db.prepare("INSERT OR IGNORE INTO watchlist (user_id, match_id, added_at) VALUES (?, ?, ?)")
+    .run(userId, matchId, new Date().toISOString());
+  return listWatchlist(userId);
+}
+
+export function unwatchMatch(userId: number, matchId: number) {
+  db.prepare("DELETE FROM watchlist WHERE user_id = ? AND match_id = ?").run(userId, matchId);
+  return listWatchlist(userId);
+}
@@ -0,0 +1,338 @@
+import fs from "fs";
+import path from "path";
+import {
+  DATA_DIR, FIXTURE_PROVIDER, FOOTBALL_DATA_API_KEY, ODDS_PROVIDER, THE_ODDS_API_KEY, THE_ODDS_API_URL
+} from "./config";
+import { footballDataLimiter, getWithRetry } from "./http";
+import { parseCsv } from "./csv";
+
+export class ProviderError extends Error {}
+
+// --- Provider Interface ---
+// Ids are football-data.org's: the file provider uses the same ids so data
+// from both can share a database.
+export interface Competition {
+  id: number;
+  name: string;
+  code: string | null;
+}
+
+export interface ProviderTeam {
+  id: number;
+  name: string;
+  shortName: string | null;
+}
+
+export interface ProviderMatch {
+  id: number;
+  utcDate: string;
+  status: string;
+  competitionId: number | null;
+  homeTeam: ProviderTeam;
+  awayTeam: ProviderTeam;
+  // Regular-time and half-time scores; null until known
+  homeScore: number | null;
+  awayScore: number | null;
+  homeScoreH1: number | null;
+  awayScoreH1: number | null;
+}
+
+export interface MatchQuery {
+  // yyyy-MM-dd, both inclusive
+  dateFrom: string;
+  dateTo: string;
+  status?: "FINISHED";
+}
+
+export interface FixtureProvider {
+  name: string;
+  competitions(): Promise<Competition[]>;
+  matches(query: MatchQuery): Promise<ProviderMatch[]>;
+  // A whole season of one competition, by its code and starting year
+  season(code: string, season: number): Promise<ProviderMatch[]>;
+}
+
+// Prices in the layout of the odds table: market keys as stored ("totals_h1",
+// "h2h", "totals_corners"...) and selections as "home", "away", "draw",
+// "over", "under", "yes" or "no"
+export interface OddsOutcome {
+  selection: string;
+  point: number;
+  price: number;
+}
+
+export interface OddsMarket {
+  key: string;
+  lastUpdate: string;
+  outcomes: OddsOutcome[];
+}
+
+export interface OddsBookmaker {
+  key: string;
+  markets: OddsMarket[];
+}
+
+export interface OddsEvent {
+  id: string;
+  commenceTime: string;
+  homeTeam: string;
+  awayTeam: string;
+  bookmakers: OddsBookmaker[];
+}
+
+export interface OddsProvider {
+  name: string;
+  // Whether the provider prices a competition, by football-data.org code
+  covers(code: string): boolean;
+  events(code: string): Promise<OddsEvent[]>;
+  // Markets only served per event, fetched once the event is matched to a fixture
+  eventMarkets(code: string, event: OddsEvent): Promise<OddsBookmaker[]>;
+}
+
+// --- football-data.org ---
+const FOOTBALL_DATA_URL = "https://api.football-data.org/v4";
+
+export function footballData(urlPath: string, params?: Record<string, any>) {
+  if (!FOOTBALL_DATA_API_KEY) throw new ProviderError("FOOTBALL_DATA_API_KEY is not set");
+  return getWithRetry(`${FOOTBALL_DATA_URL}${urlPath}`, {
+    headers: { "X-Auth-Token": FOOTBALL_DATA_API_KEY },
+    params
+  }, footballDataLimiter);
+}
+
+// Extra time and penalties are not part of the 90-minute markets we price, so
+// prefer the regular-time score when the API reports one.
+function footballDataMatch(m: any, competitionId?: number): ProviderMatch {
+  const full = m.score?.regularTime ?? m.score?.fullTime;
+  const half = m.score?.halfTime;
+  const team = (t: any): ProviderTeam => ({ id: t.id, name: t.name, shortName: t.shortName ?? null });
+  return {
+    id: m.id,
+    utcDate: m.utcDate,
+    status: m.status,
+    competitionId: m.competition?.id ?? competitionId ?? null,
+    homeTeam: team(m.homeTeam),
+    awayTeam: team(m.awayTeam),
+    homeScore: full?.home ?? null,
+    awayScore: full?.away ?? null,
+    homeScoreH1: half?.home ?? null,
+    awayScoreH1: half?.away ?? null
+  };
+}
+
+export function createFootballDataProvider(): FixtureProvider {
+  return {
+    name: "football-data",
+    competitions: async () => {
+      const response = await footballData("/competitions");
+      return response.data.competitions.map((c: any) => ({ id: c.id, name: c.name, code: c.code ?? null }));
+    },
+    matches: async (query) => {
+      const response = await footballData("/matches", query);
+      return response.data.matches.map((m: any) => footballDataMatch(m));
+    },
+    season: async (code, season) => {
+      const response = await footballData(`/competitions/${code}/matches`, { season });
+      const competitionId = response.data.competition?.id;
+      return response.data.matches.map((m: any) => footballDataMatch(m, competitionId));
+    }
+  };
+}
+
+// --- The Odds API ---
+// football-data.org competition code -> The Odds API sport key
+const SPORT_KEYS: Record<string, string> = {
+  PL: "soccer_epl",
+  ELC: "soccer_efl_champ",
+  BL1: "soccer_germany_bundesliga",
+  SA: "soccer_italy_serie_a",
+  PD: "soccer_spain_la_liga",
+  FL1: "soccer_france_ligue_one",
+  DED: "soccer_netherlands_eredivisie",
+  PPL: "soccer_portugal_primeira_liga",
+  BSA: "soccer_brazil_campeonato",
+  CL: "soccer_uefa_champs_league",
+  EC: "soccer_uefa_european_championship",
+  WC: "soccer_fifa_world_cup"
+};
+
+const REGIONS = "uk,eu";
+const FEATURED_MARKETS = "h2h,totals";
+// Period and corner markets are only served by the per-event endpoint.
+const EVENT_MARKETS = [
+  "btts",
+  "h2h_3_way_h1",
+  "h2h_3_way_h2",
+  "totals_h1",
+  "totals_h2",
+  "alternate_totals_h1",
+  "alternate_totals_h2",
+  "alternate_totals_corners"
+].join(",");
+
+// Alternate lines are stored alongside the main line, so they share a market key.
+const MARKET_ALIASES: Record<string, string> = {
+  alternate_totals: "totals",
+  alternate_totals_h1: "totals_h1",
+  alternate_totals_h2: "totals_h2",
+  alternate_totals_corners: "totals_corners",
+  h2h_3_way_h1: "h2h_h1",
+  h2h_3_way_h2: "h2h_h2"
+};
+
+function oddsApiBookmakers(event: any): OddsBookmaker[] {
+  const selectionOf = (outcome: any) => {
+    if (outcome.name === event.home_team) return "home";
+    if (outcome.name === event.away_team) return "away";
+    return String(outcome.name).toLowerCase();
+  };
+  return (event.bookmakers || []).map((bookmaker: any) => ({
+    key: bookmaker.key,
+    markets: (bookmaker.markets || []).map((market: any) => ({
+      key: MARKET_ALIASES[market.key] ?? market.key,
+      lastUpdate: market.last_update ?? bookmaker.last_update,
+      outcomes: (market.outcomes || []).map((outcome: any) => ({
+        selection: selectionOf(outcome),
+        point: outcome.point ?? 0,
+        price: outcome.price
+      }))
+    }))
+  }));
+}
+
+export function createOddsApiProvider(): OddsProvider {
+  const get = (urlPath: string, markets: string) => {
+    if (!THE_ODDS_API_KEY) throw new ProviderError("THE_ODDS_API_KEY is not set");
+    return getWithRetry(`${THE_ODDS_API_URL}${urlPath}`, {
+      params: { apiKey: THE_ODDS_API_KEY, regions: REGIONS, markets, oddsFormat: "decimal" }
+    });
+  };
+  return {
+    name: "the-odds-api",
+    covers: (code) => code in SPORT_KEYS,
+    events: async (code) => {
+      const response = await get(`/sports/${SPORT_KEYS[code]}/odds`, FEATURED_MARKETS);
+      return response.data.map((event: any) => ({
+        id: event.id,
+        commenceTime: event.commence_time,
+        homeTeam: event.home_team,
+        awayTeam: event.away_team,
+        bookmakers: oddsApiBookmakers(event)
+      }));
+    },
+    eventMarkets: async (code, event) => {
+      const response = await get(`/sports/${SPORT_KEYS[code]}/events/${event.id}/odds`, EVENT_MARKETS);
+      return oddsApiBookmakers(response.data);
+    }
+  };
+}
+
+// --- Local Files ---
+// Offline development and tests. DATA_DIR holds competitions, matches and odds,
+// each as <name>.json or <name>.csv, re-read on every call:
+//   competitions: id, name, code
+//   matches: id, utcDate, status, competitionId, homeTeamId, homeTeam,
+//     awayTeamId, awayTeam, homeScore, awayScore, homeScoreH1, awayScoreH1
+//     (JSON may nest the teams as { id, name, shortName })
+//   odds: competition (code), eventId, commenceTime, homeTeam, awayTeam,
+//     bookmaker, market, selection, point, price, lastUpdate, one row per
+//     outcome (JSON may instead hold OddsEvents with a competition field)
+function readTable(dir: string, name: string): any[] {
+  const json = path.join(dir, `${name}.json`);
+  const csv = path.join(dir, `${name}.csv`);
+  try {
+    if (fs.existsSync(json)) {
+      const rows = JSON.parse(fs.readFileSync(json, "utf8"));
+      if (!Array.isArray(rows)) throw new ProviderError(`${json} must hold an array`);
+      return rows;
+    }
+    if (fs.existsSync(csv)) return parseCsv(fs.readFileSync(csv, "utf8"));
+  } catch (error) {
+    if (error instanceof ProviderError) throw error;
+    throw new ProviderError(`Cannot read ${name} from ${dir}: ${(error as Error).message}`);
+  }
+  return [];
+}
+
+const numberOrNull = (value: any) => (value === undefined || value === null || value === "" ? null : Number(value));
+
+function fileMatch(r: any): ProviderMatch {
+  const team = (nested: any, id: any, name: any): ProviderTeam =>
+    nested ? { id: Number(nested.id), name: nested.name, shortName: nested.shortName ?? null } : { id: Number(id), name, shortName: null };
+  return {
+    id: Number(r.id),
+    utcDate: new Date(r.utcDate).toISOString(),
+    status: r.status || (numberOrNull(r.homeScore) !== null ? "FINISHED" : "TIMED"),
+    competitionId: numberOrNull(r.competitionId),
+    homeTeam: team(typeof r.homeTeam === "object" ? r.homeTeam : null, r.homeTeamId, r.homeTeam),
+    awayTeam: team(typeof r.awayTeam === "object" ? r.awayTeam : null, r.awayTeamId, r.awayTeam),
+    homeScore: numberOrNull(r.homeScore),
+    awayScore: numberOrNull(r.awayScore),
+    homeScoreH1: numberOrNull(r.homeScoreH1),
+    awayScoreH1: numberOrNull(r.awayScoreH1)
+  };
+}
+
+// Flat odds rows become one event per competition, fixture and event id
+function fileOddsEvents(rows: any[]): (OddsEvent & { competition: string })[] {
+  if (rows.every(r => Array.isArray(r.bookmakers))) return rows;
+
+  const events = new Map<string, OddsEvent & { competition: string }>();
+  for (const r of rows) {
+    const commenceTime = new Date(r.commenceTime).toISOString();
+    const id = r.eventId || `${r.homeTeam}|${r.awayTeam}|${commenceTime}`;
+    const key = `${r.competition}|${id}`;
+    if (!events.has(key)) {
+      events.set(key, { id, competition: r.competition, commenceTime, homeTeam: r.homeTeam, awayTeam: r.awayTeam, bookmakers: [] });
+    }
+    const event = events.get(key)!;
+    let bookmaker = event.bookmakers.find(b => b.key === r.bookmaker);
+    if (!bookmaker) event.bookmakers.push(bookmaker = { key: r.bookmaker, markets: [] });
+    let market = bookmaker.markets.find(m => m.key === r.market && m.lastUpdate === r.lastUpdate);
+    if (!market) bookmaker.markets.push(market = { key: r.market, lastUpdate: r.lastUpdate, outcomes: [] });
+    market.outcomes.push({ selection: String(r.selection).toLowerCase(), point: Number(r.point) || 0, price: Number(r.price) });
+  }
+  return [...events.values()];
+}
+
+export function createFileProvider(dir: string): FixtureProvider & OddsProvider {
+  const matches = () => readTable(dir, "matches").map(fileMatch);
+  const events = () => fileOddsEvents(readTable(dir, "odds"));
+  return {
+    name: `file:${dir}`,
+    competitions: async () =>
+      readTable(dir, "competitions").map(c => ({ id: Number(c.id), name: c.name, code: c.code || null })),
+    matches: async (query) =>
+      matches().filter(m => {
+        const day = m.utcDate.slice(0, 10);
+        return day >= query.dateFrom && day <= query.dateTo && (!query.status || m.status === query.status);
+      }),
+    // Seasons run from July to June
+    season: async (code, season) => {
+      const competition = readTable(dir, "competitions").find(c => c.code === code);
+      if (!competition) return [];
+      const from = `${season}-07-01`;
+      const to = `${season + 1}-07-01`;
+      return matches().filter(m => m.competitionId === Number(competition.id) && m.utcDate >= from && m.utcDate < to);
+    },
+    covers: () => true,
+    events: async (code) => events().filter(e => e.competition === code),
+    // Every market is in the file already
+    eventMarkets: async () => []
+  };
+}
+
+// --- Configured Providers ---
+export function fixtureProvider(): FixtureProvider {
+  if (FIXTURE_PROVIDER === "football-data") return createFootballDataProvider();
+  if (FIXTURE_PROVIDER === "file") return createFileProvider(DATA_DIR);
+  throw new ProviderError(`Unknown FIXTURE_PROVIDER "${FIXTURE_PROVIDER}"`);
+}
+
+// null when odds syncing is switched off
+export function oddsProvider(): OddsProvider | null {
+  if (ODDS_PROVIDER === "off") return null;
+  if (ODDS_PROVIDER === "the-odds-api") return createOddsApiProvider();
+  if (ODDS_PROVIDER === "file") return createFileProvider(DATA_DIR);
+  throw new ProviderError(`Unknown ODDS_PROVIDER "${ODDS_PROVIDER}"`);
+}
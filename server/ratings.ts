@@ -0,0 +1,431 @@
+import { db } from "./db";
+import { H1_SHARE } from "./simulation";
+import { runInWorker } from "./simulation-pool";
+
+// --- Configuration ---
+// Weight of a result halves every DECAY_HALF_LIFE_DAYS (Dixon-Coles time decay).
+const DECAY_HALF_LIFE_DAYS = 180;
+// Pseudo-observations pulling every team towards the average; keeps ratings
+// sane for teams with only a handful of results.
+const PRIOR_WEIGHT = 3;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-6;
+
+const DEFAULT_HOME_ADVANTAGE = 1.25;
+const DEFAULT_AVG_CORNERS = 10;
+// Corner counts follow territorial dominance far less steeply than goals do.
+const CORNER_SPLIT_EXPONENT = 0.3;
+// Pseudo-goals at the default split pulling a league's first-half share
+// towards H1_SHARE until it has enough half-time scores of its own
+const HALF_SPLIT_PRIOR_GOALS = 30;
+// Caps on the bivariate Poisson covariance and the corner overdispersion
+const MAX_GOAL_COVARIANCE = 0.3;
+const MAX_CORNER_DISPERSION = 0.5;
+
+export interface TeamRating {
+  teamId: number;
+  leagueId: number;
+  attack: number;
+  defence: number;
+  corners: number;
+  matchesPlayed: number;
+}
+
+export interface LeagueRating {
+  leagueId: number;
+  homeAdvantage: number;
+  rho: number;
+  avgGoals: number;
+  avgCorners: number | null;
+  // Share of goals in the first half, from stored half-time scores
+  h1Share: number;
+  // Covariance of home and away goals beyond the team ratings (>= 0)
+  goalCovariance: number;
+  // Per-side corners variance = mean + cornerDispersion * mean^2
+  cornerDispersion: number;
+  matchesPlayed: number;
+}
+
+export interface RatingsFit {
+  teams: Map<number, TeamRating>;
+  leagues: Map<number, LeagueRating>;
+}
+
+export interface MatchRatings {
+  homeExpG: number;
+  awayExpG: number;
+  homeExpC: number;
+  awayExpC: number;
+  rho: number;
+  h1Share: number;
+  goalCovariance: number;
+  cornerDispersion: number;
+}
+
+export interface FinishedMatch {
+  utc_date: string;
+  league_id: number;
+  home_team_id: number;
+  away_team_id: number;
+  home_score_full: number;
+  away_score_full: number;
+  home_score_h1: number | null;
+  away_score_h1: number | null;
+  corners: number | null;
+}
+
+// Only total corners are stored, so split the expected total by each side's goal expectation.
+function splitCorners(totalC: number, homeExpG: number, awayExpG: number) {
+  const homeWeight = Math.pow(homeExpG, CORNER_SPLIT_EXPONENT);
+  const homeShare = homeWeight / (homeWeight + Math.pow(awayExpG, CORNER_SPLIT_EXPONENT));
+  return { homeExpC: totalC * homeShare, awayExpC: totalC * (1 - homeShare) };
+}
+
+// --- Dixon-Coles Fit ---
+// Model (Dixon & Coles, 1997), multiplicative form:
+//   home goals ~ Poisson(homeAdvantage[league] * attack[home] * defence[away])
+//   away goals ~ Poisson(attack[away] * defence[home])
+// with the low-score dependence correction tau(rho) and exponential time decay.
+// Defence is a goals-conceded factor: above 1 means a weaker defence.
+function dcTau(x: number, y: number, lambda: number, mu: number, rho: number) {
+  if (x === 0 && y === 0) return 1 - lambda * mu * rho;
+  if (x === 0 && y === 1) return 1 + lambda * rho;
+  if (x === 1 && y === 0) return 1 + mu * rho;
+  if (x === 1 && y === 1) return 1 - rho;
+  return 1;
+}
+
+function decayWeight(utcDate: string, asOf: Date) {
+  const days = (asOf.getTime() - new Date(utcDate).getTime()) / 86400000;
+  return Math.pow(0.5, Math.max(days, 0) / DECAY_HALF_LIFE_DAYS);
+}
+
+export function loadFinishedMatches(asOf = new Date()): FinishedMatch[] {
+  return db.prepare(`
+    SELECT utc_date, league_id, home_team_id, away_team_id, home_score_full, away_score_full,
+           home_score_h1, away_score_h1, corners
+    FROM matches
+    WHERE status = 'FINISHED'
+      AND home_score_full IS NOT NULL
+      AND away_score_full IS NOT NULL
+      AND utc_date < ?
+  `).all(asOf.toISOString()) as FinishedMatch[];
+}
+
+export function computeRatings(rows: FinishedMatch[], asOf = new Date()): RatingsFit {
+  const weights = rows.map(r => decayWeight(r.utc_date, asOf));
+  const attack = new Map<number, number>();
+  const defence = new Map<number, number>();
+  const homeAdv = new Map<number, number>();
+  const teamLeagueCounts = new Map<number, Map<number, number>>();
+  const played = new Map<number, number>();
+
+  for (const r of rows) {
+    for (const t of [r.home_team_id, r.away_team_id]) {
+      attack.set(t, 1);
+      defence.set(t, 1);
+      played.set(t, (played.get(t) || 0) + 1);
+      const counts = teamLeagueCounts.get(t) || new Map<number, number>();
+      counts.set(r.league_id, (counts.get(r.league_id) || 0) + 1);
+      teamLeagueCounts.set(t, counts);
+    }
+    homeAdv.set(r.league_id, DEFAULT_HOME_ADVANTAGE);
+  }
+
+  // Iterative proportional fitting of the weighted Poisson likelihood. Attack,
+  // defence and home advantage are updated in turn (Gauss-Seidel); updating
+  // them simultaneously overshoots and does not converge.
+  const add = (m: Map<number, number>, k: number, v: number) => m.set(k, (m.get(k) || 0) + v);
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    let delta = 0;
+
+    const scored = new Map<number, number>();
+    const scoredExp = new Map<number, number>();
+    rows.forEach((r, i) => {
+      const w = weights[i];
+      add(scored, r.home_team_id, w * r.home_score_full);
+      add(scoredExp, r.home_team_id, w * homeAdv.get(r.league_id)! * defence.get(r.away_team_id)!);
+      add(scored, r.away_team_id, w * r.away_score_full);
+      add(scoredExp, r.away_team_id, w * defence.get(r.home_team_id)!);
+    });
+    for (const t of attack.keys()) {
+      const a = (scored.get(t)! + PRIOR_WEIGHT) / (scoredExp.get(t)! + PRIOR_WEIGHT);
+      delta = Math.max(delta, Math.abs(a - attack.get(t)!));
+      attack.set(t, a);
+    }
+
+    const conceded = new Map<number, number>();
+    const concededExp = new Map<number, number>();
+    rows.forEach((r, i) => {
+      const w = weights[i];
+      add(conceded, r.home_team_id, w * r.away_score_full);
+      add(concededExp, r.home_team_id, w * attack.get(r.away_team_id)!);
+      add(conceded, r.away_team_id, w * r.home_score_full);
+      add(concededExp, r.away_team_id, w * homeAdv.get(r.league_id)! * attack.get(r.home_team_id)!);
+    });
+    for (const t of defence.keys()) {
+      const d = (conceded.get(t)! + PRIOR_WEIGHT) / (concededExp.get(t)! + PRIOR_WEIGHT);
+      delta = Math.max(delta, Math.abs(d - defence.get(t)!));
+      defence.set(t, d);
+    }
+
+    const homeGoals = new Map<number, number>();
+    const homeExp = new Map<number, number>();
+    rows.forEach((r, i) => {
+      const w = weights[i];
+      add(homeGoals, r.league_id, w * r.home_score_full);
+      add(homeExp, r.league_id, w * attack.get(r.home_team_id)! * defence.get(r.away_team_id)!);
+    });
+    for (const l of homeAdv.keys()) {
+      const g = (homeGoals.get(l)! + PRIOR_WEIGHT * DEFAULT_HOME_ADVANTAGE) / (homeExp.get(l)! + PRIOR_WEIGHT);
+      delta = Math.max(delta, Math.abs(g - homeAdv.get(l)!));
+      homeAdv.set(l, g);
+    }
+
+    // Attack and defence are only identified up to a common scale: pin the
+    // geometric mean of defence to 1 so attack reads as goals vs an average side.
+    const logMean = [...defence.values()].reduce((s, d) => s + Math.log(d), 0) / Math.max(defence.size, 1);
+    const scale = Math.exp(logMean);
+    for (const t of defence.keys()) {
+      defence.set(t, defence.get(t)! / scale);
+      attack.set(t, attack.get(t)! * scale);
+    }
+
+    if (delta < TOLERANCE) break;
+  }
+
+  // Corners: total corners ~ avgCorners[league] * corners[home] * corners[away].
+  const cornerRows = rows.map((r, i) => ({ r, w: weights[i] })).filter(x => x.r.corners !== null && x.r.corners !== undefined);
+  const avgCorners = new Map<number, number>();
+  const cornerSums = new Map<number, { c: number; w: number }>();
+  for (const { r, w } of cornerRows) {
+    const s = cornerSums.get(r.league_id) || { c: 0, w: 0 };
+    s.c += w * r.corners!;
+    s.w += w;
+    cornerSums.set(r.league_id, s);
+  }
+  for (const [l, s] of cornerSums) avgCorners.set(l, s.w > 0 ? s.c / s.w : DEFAULT_AVG_CORNERS);
+
+  const cornerFactor = new Map<number, number>();
+  for (const t of attack.keys()) cornerFactor.set(t, 1);
+  for (let iter = 0; iter < MAX_ITERATIONS && cornerRows.length > 0; iter++) {
+    const obs = new Map<number, number>();
+    const exp = new Map<number, number>();
+    for (const { r, w } of cornerRows) {
+      const rel = r.corners! / avgCorners.get(r.league_id)!;
+      add(obs, r.home_team_id, w * rel);
+      add(exp, r.home_team_id, w * cornerFactor.get(r.away_team_id)!);
+      add(obs, r.away_team_id, w * rel);
+      add(exp, r.away_team_id, w * cornerFactor.get(r.home_team_id)!);
+    }
+    let delta = 0;
+    for (const t of cornerFactor.keys()) {
+      // Both sides of a fixture share one observation, so damp the update to avoid oscillating.
+      const c = Math.sqrt(cornerFactor.get(t)! * ((obs.get(t) || 0) + PRIOR_WEIGHT) / ((exp.get(t) || 0) + PRIOR_WEIGHT));
+      delta = Math.max(delta, Math.abs(c - cornerFactor.get(t)!));
+      cornerFactor.set(t, c);
+    }
+    if (delta < TOLERANCE) break;
+  }
+
+  // Low-score dependence: profile likelihood of rho per league on a grid.
+  const leagues = new Map<number, LeagueRating>();
+  for (const l of homeAdv.keys()) {
+    const leagueRows = rows.map((r, i) => ({ r, w: weights[i] })).filter(x => x.r.league_id === l);
+    let bestRho = 0;
+    let bestLL = -Infinity;
+    for (let rho = -0.2; rho <= 0.2 + 1e-9; rho += 0.01) {
+      let ll = 0;
+      for (const { r, w } of leagueRows) {
+        const lambda = homeAdv.get(l)! * attack.get(r.home_team_id)! * defence.get(r.away_team_id)!;
+        const mu = attack.get(r.away_team_id)! * defence.get(r.home_team_id)!;
+        const tau = dcTau(r.home_score_full, r.away_score_full, lambda, mu, rho);
+        if (tau <= 0) { ll = -Infinity; break; }
+        ll += w * Math.log(tau);
+      }
+      if (ll > bestLL) {
+        bestLL = ll;
+        bestRho = rho;
+      }
+    }
+
+    const goals = leagueRows.reduce((s, x) => s + x.w * (x.r.home_score_full + x.r.away_score_full), 0);
+    const totalW = leagueRows.reduce((s, x) => s + x.w, 0);
+
+    // Half split: first-half goals over full-time goals where both are stored
+    let h1Goals = 0;
+    let splitGoals = 0;
+    // Bivariate Poisson covariance: mean product of the two sides' residuals
+    let residuals = 0;
+    // Corner overdispersion by moments: excess of the squared residual of the
+    // total over its Poisson variance, per unit of sum of squared side means
+    let excess = 0;
+    let squares = 0;
+    for (const { r, w } of leagueRows) {
+      const lambda = homeAdv.get(l)! * attack.get(r.home_team_id)! * defence.get(r.away_team_id)!;
+      const mu = attack.get(r.away_team_id)! * defence.get(r.home_team_id)!;
+      residuals += w * (r.home_score_full - lambda) * (r.away_score_full - mu);
+      if (r.home_score_h1 !== null && r.away_score_h1 !== null) {
+        h1Goals += w * (r.home_score_h1 + r.away_score_h1);
+        splitGoals += w * (r.home_score_full + r.away_score_full);
+      }
+      if (r.corners !== null && r.corners !== undefined) {
+        const totalC = avgCorners.get(l)! * cornerFactor.get(r.home_team_id)! * cornerFactor.get(r.away_team_id)!;
+        const { homeExpC, awayExpC } = splitCorners(totalC, lambda, mu);
+        excess += w * ((r.corners - totalC) ** 2 - totalC);
+        squares += w * (homeExpC ** 2 + awayExpC ** 2);
+      }
+    }
+
+    leagues.set(l, {
+      leagueId: l,
+      homeAdvantage: homeAdv.get(l)!,
+      rho: Math.round(bestRho * 100) / 100,
+      avgGoals: totalW > 0 ? goals / totalW : 0,
+      avgCorners: avgCorners.get(l) ?? null,
+      h1Share: (h1Goals + HALF_SPLIT_PRIOR_GOALS * H1_SHARE) / (splitGoals + HALF_SPLIT_PRIOR_GOALS),
+      goalCovariance: Math.min(Math.max(residuals / (totalW + PRIOR_WEIGHT), 0), MAX_GOAL_COVARIANCE),
+      cornerDispersion: squares > 0 ? Math.min(Math.max(excess / squares, 0), MAX_CORNER_DISPERSION) : 0,
+      matchesPlayed: leagueRows.length
+    });
+  }
+
+  const teams = new Map<number, TeamRating>();
+  for (const t of attack.keys()) {
+    // A team's home league is the competition it plays most often in, not a cup.
+    const counts = [...teamLeagueCounts.get(t)!.entries()].sort((a, b) => b[1] - a[1]);
+    teams.set(t, {
+      teamId: t,
+      leagueId: counts[0][0],
+      attack: attack.get(t)!,
+      defence: defence.get(t)!,
+      corners: cornerFactor.get(t)!,
+      matchesPlayed: played.get(t) || 0
+    });
+  }
+
+  return { teams, leagues };
+}
+
+// Refits every team and league from the finished results and replaces the stored ratings.
+export function fitRatings(asOf = new Date()) {
+  const fit = computeRatings(loadFinishedMatches(asOf), asOf);
+  const fittedAt = asOf.toISOString();
+
+  const stmtTeam = db.prepare(`
+    INSERT OR REPLACE INTO team_ratings (team_id, league_id, attack, defence, corners, matches_played, fitted_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const stmtLeague = db.prepare(`
+    INSERT OR REPLACE INTO league_ratings
+      (league_id, home_advantage, rho, avg_goals, avg_corners, h1_share, goal_covariance, corner_dispersion, matches_played, fitted_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare("DELETE FROM team_ratings").run();
+    db.prepare("DELETE FROM league_ratings").run();
+    for (const t of fit.teams.values()) {
+      stmtTeam.run(t.teamId, t.leagueId, t.attack, t.defence, t.corners, t.matchesPlayed, fittedAt);
+    }
+    for (const l of fit.leagues.values()) {
+      stmtLeague.run(
+        l.leagueId, l.homeAdvantage, l.rho, l.avgGoals, l.avgCorners, l.h1Share, l.goalCovariance, l.cornerDispersion, l.matchesPlayed, fittedAt
+      );
+    }
+  })();
+
+  console.log(`Fitted ratings for ${fit.teams.size} teams across ${fit.leagues.size} leagues`);
+  return fit;
+}
+
+export function loadRatings(): RatingsFit {
+  const teams = new Map<number, TeamRating>();
+  const leagues = new Map<number, LeagueRating>();
+  for (const t of db.prepare("SELECT * FROM team_ratings").all() as any[]) {
+    teams.set(t.team_id, {
+      teamId: t.team_id,
+      leagueId: t.league_id,
+      attack: t.attack,
+      defence: t.defence,
+      corners: t.corners,
+      matchesPlayed: t.matches_played
+    });
+  }
+  for (const l of db.prepare("SELECT * FROM league_ratings").all() as any[]) {
+    leagues.set(l.league_id, {
+      leagueId: l.league_id,
+      homeAdvantage: l.home_advantage,
+      rho: l.rho,
+      avgGoals: l.avg_goals,
+      avgCorners: l.avg_corners,
+      // Ratings fitted before these were estimated
+      h1Share: l.h1_share ?? H1_SHARE,
+      goalCovariance: l.goal_covariance ?? 0,
+      cornerDispersion: l.corner_dispersion ?? 0,
+      matchesPlayed: l.matches_played
+    });
+  }
+  return { teams, leagues };
+}
+
+// Poisson means for a fixture. Teams without history fall back to an average
+// side, leagues without history to the default home advantage.
+export function getMatchRatings(fit: RatingsFit, leagueId: number, homeTeamId: number, awayTeamId: number): MatchRatings {
+  const league = fit.leagues.get(leagueId);
+  const home = fit.teams.get(homeTeamId);
+  const away = fit.teams.get(awayTeamId);
+
+  const gamma = league?.homeAdvantage ?? DEFAULT_HOME_ADVANTAGE;
+  const homeExpG = gamma * (home?.attack ?? 1) * (away?.defence ?? 1);
+  const awayExpG = (away?.attack ?? 1) * (home?.defence ?? 1);
+
+  const totalC = (league?.avgCorners ?? DEFAULT_AVG_CORNERS) * (home?.corners ?? 1) * (away?.corners ?? 1);
+
+  return {
+    homeExpG,
+    awayExpG,
+    ...splitCorners(totalC, homeExpG, awayExpG),
+    rho: league?.rho ?? 0,
+    h1Share: league?.h1Share ?? H1_SHARE,
+    goalCovariance: league?.goalCovariance ?? 0,
+    cornerDispersion: league?.cornerDispersion ?? 0
+  };
+}
+
+// Ratings for replaying history in kickoff order: each call returns a fit on
+// results from before the fixture's matchday, refitted at most every refitDays.
+export function walkForwardRatings(history: FinishedMatch[], refitDays: number) {
+  const dayMs = 86400000;
+  let fit: RatingsFit | null = null;
+  let fittedAt = 0;
+  return (kickoff: number): RatingsFit => {
+    const matchday = kickoff - (kickoff % dayMs);
+    if (!fit || matchday - fittedAt >= refitDays * dayMs) {
+      fit = computeRatings(history.filter(r => new Date(r.utc_date).getTime() < matchday), new Date(matchday));
+      fittedAt = matchday;
+    }
+    return fit;
+  };
+}
+
+// The same fits for a known list of kickoffs (in replay order), computed on a
+// pool worker so long replays do not block requests on the main thread.
+export async function walkForwardRatingsInWorker(history: FinishedMatch[], refitDays: number, kickoffs: number[]) {
+  const fits: Map<number, RatingsFit> = await runInWorker({ kind: "walk-forward", history, refitDays, kickoffs });
+  return (kickoff: number) => fits.get(kickoff)!;
+}
+
+// --- Rating Uncertainty ---
+// A multiplicative factor estimated from n matches at g goals per team and
+// match has a log-scale variance of roughly 1 / (n * g). Each side's expected
+// goals multiply one factor of each team, so both sides share the same spread;
+// the prior counts as PRIOR_WEIGHT extra matches.
+export function ratingsUncertainty(fit: RatingsFit, leagueId: number, homeTeamId: number, awayTeamId: number) {
+  const league = fit.leagues.get(leagueId);
+  const homePlayed = fit.teams.get(homeTeamId)?.matchesPlayed ?? 0;
+  const awayPlayed = fit.teams.get(awayTeamId)?.matchesPlayed ?? 0;
+  const goalsPerTeam = Math.max((league?.avgGoals || 2.7) / 2, 0.5);
+  const logSd = Math.sqrt((1 / (homePlayed + PRIOR_WEIGHT) + 1 / (awayPlayed + PRIOR_WEIGHT)) / goalsPerTeam);
+  return { sampleSize: Math.min(homePlayed, awayPlayed), logSd };
+}
@@ -0,0 +1,165 @@
+import { db } from "./db";
+import { FIXTURE_PROVIDER, ODDS_PROVIDER, SYNC_INTERVALS } from "./config";
+import { schemaVersion } from "./migrations";
+import { syncLeagues, syncFixtures, syncResults } from "./sync";
+import { syncOdds } from "./odds";
+import { fitRatings } from "./ratings";
+import { runAlerts } from "./alerts";
+
+export type SyncJobName = keyof typeof SYNC_INTERVALS;
+
+export interface SyncRun {
+  id: number;
+  job: SyncJobName;
+  trigger: "schedule" | "manual";
+  status: "running" | "success" | "partial" | "error";
+  rows: number | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface JobResult {
+  rows: number;
+  // Failures the job recovered from (e.g. one league out of many)
+  errors?: string[];
+}
+
+// In dependency order: fixtures need leagues, odds need fixtures to match
+// against, alerts re-run the analysis on the fresh prices
+const JOBS: Record<SyncJobName, () => Promise<JobResult>> = {
+  leagues: async () => ({ rows: await syncLeagues() }),
+  fixtures: async () => ({ rows: await syncFixtures() }),
+  results: async () => {
+    const rows = await syncResults();
+    fitRatings();
+    return { rows };
+  },
+  odds: async () => {
+    const result = await syncOdds();
+    // Nothing stored and every league failed: report the run as failed
+    if (result.rows === 0 && result.errors.length > 0) throw new Error(result.errors.join("; "));
+    return { rows: result.rows, errors: result.errors };
+  },
+  alerts: async () => {
+    const result = await runAlerts();
+    if (result.sent === 0 && result.errors.length > 0) throw new Error(result.errors.join("; "));
+    return { rows: result.sent, errors: result.errors };
+  }
+};
+const JOB_NAMES = Object.keys(JOBS) as SyncJobName[];
+
+// Gap between overdue jobs at startup so they do not all fire at once
+const STARTUP_STAGGER_MS = 5000;
+
+const running = new Set<SyncJobName>();
+const nextRunAt = new Map<SyncJobName, Date>();
+const timers = new Map<SyncJobName, NodeJS.Timeout>();
+
+function toRun(r: any): SyncRun {
+  return {
+    id: r.id,
+    job: r.job,
+    trigger: r.trigger,
+    status: r.status,
+    rows: r.rows,
+    error: r.error,
+    startedAt: r.started_at,
+    finishedAt: r.finished_at
+  };
+}
+
+function errorMessage(error: any) {
+  if (error.response) return `HTTP ${error.response.status} from ${error.config?.url ?? "upstream"}`;
+  return error.message ?? String(error);
+}
+
+// --- Runs ---
+// Runs one job and records it in sync_runs. Returns null without running when
+// the same job is already in progress.
+export async function runJob(job: SyncJobName, trigger: SyncRun["trigger"] = "manual"): Promise<SyncRun | null> {
+  if (running.has(job)) return null;
+  running.add(job);
+
+  const result = db.prepare(`
+    INSERT INTO sync_runs (job, trigger, status, started_at) VALUES (?, ?, 'running', ?)
+  `).run(job, trigger, new Date().toISOString());
+  const id = Number(result.lastInsertRowid);
+  const finish = db.prepare("UPDATE sync_runs SET status = ?, rows = ?, error = ?, finished_at = ? WHERE id = ?");
+
+  try {
+    const { rows, errors } = await JOBS[job]();
+    const status = errors && errors.length > 0 ? "partial" : "success";
+    finish.run(status, rows, errors && errors.length > 0 ? errors.join("; ") : null, new Date().toISOString(), id);
+  } catch (error) {
+    console.error(`Sync job ${job} failed:`, error);
+    finish.run("error", null, errorMessage(error), new Date().toISOString(), id);
+  } finally {
+    running.delete(job);
+  }
+  return toRun(db.prepare("SELECT * FROM sync_runs WHERE id = ?").get(id));
+}
+
+export function isSyncRunning() {
+  return running.size > 0;
+}
+
+// Every job once, in order, for the manual refresh button.
+export async function runAllJobs(): Promise<SyncRun[]> {
+  const runs: SyncRun[] = [];
+  for (const job of JOB_NAMES) {
+    const run = await runJob(job, "manual");
+    if (run) runs.push(run);
+  }
+  return runs;
+}
+
+// --- Scheduling ---
+function schedule(job: SyncJobName, at: Date) {
+  clearTimeout(timers.get(job));
+  nextRunAt.set(job, at);
+  timers.set(job, setTimeout(async () => {
+    await runJob(job, "schedule");
+    schedule(job, new Date(Date.now() + SYNC_INTERVALS[job] * 60000));
+  }, Math.max(0, at.getTime() - Date.now())));
+}
+
+// Picks up where the previous process left off: each job's next run is its
+// last start plus its interval, and overdue jobs run shortly after startup.
+export function startScheduler() {
+  // Runs cut short by a restart would otherwise read as running forever
+  db.prepare("UPDATE sync_runs SET status = 'error', error = 'Interrupted by restart' WHERE status = 'running'").run();
+
+  const now = Date.now();
+  let overdue = 0;
+  for (const job of JOB_NAMES) {
+    const interval = SYNC_INTERVALS[job];
+    if (interval <= 0) continue;
+    const last = db.prepare("SELECT started_at FROM sync_runs WHERE job = ? ORDER BY id DESC LIMIT 1").get(job) as any;
+    const due = last ? new Date(last.started_at).getTime() + interval * 60000 : now;
+    schedule(job, new Date(due > now ? due : now + STARTUP_STAGGER_MS * ++overdue));
+  }
+  console.log(`Scheduler started: ${JOB_NAMES.map(j => `${j} every ${SYNC_INTERVALS[j]}m`).join(", ")}`);
+}
+
+export function syncStatus() {
+  const lastRun = db.prepare("SELECT * FROM sync_runs WHERE job = ? ORDER BY id DESC LIMIT 1");
+  const lastSuccess = db.prepare("SELECT finished_at FROM sync_runs WHERE job = ? AND status IN ('success', 'partial') ORDER BY id DESC LIMIT 1");
+  return {
+    running: isSyncRunning(),
+    providers: { fixtures: FIXTURE_PROVIDER, odds: ODDS_PROVIDER },
+    schemaVersion: schemaVersion(db),
+    jobs: JOB_NAMES.map(job => {
+      const last = lastRun.get(job);
+      return {
+        job,
+        intervalMinutes: SYNC_INTERVALS[job],
+        running: running.has(job),
+        nextRunAt: nextRunAt.get(job)?.toISOString() ?? null,
+        lastRun: last ? toRun(last) : null,
+        lastSuccessAt: (lastSuccess.get(job) as any)?.finished_at ?? null
+      };
+    }),
+    recentRuns: (db.prepare("SELECT * FROM sync_runs ORDER BY id DESC LIMIT 20").all() as any[]).map(toRun)
+  };
+}
@@ -0,0 +1,26 @@
+import { MarketDefinition, isSettleable } from "./markets";
+import { SimulatedOutcome, evaluateLeg } from "./simulation";
+
+// --- Settlement ---
+// Settles a combined market against a stored result. Only the total corner
+// count is stored, so team-corner legs cannot be settled; the same goes for
+// corner legs on matches without an imported corner count. Returns null when
+// any leg cannot be decided.
+export function settleMarket(market: MarketDefinition, isTeamYHome: boolean, row: any): boolean | null {
+  if (row.home_score_h1 === null || row.away_score_h1 === null || row.home_score_h2 === null || row.away_score_h2 === null) {
+    return null;
+  }
+  const needsCorners = market.legs.some(l => l.type === "corners");
+  if (!isSettleable(market)) return null;
+  if (needsCorners && (row.corners === null || row.corners === undefined)) return null;
+
+  const outcome: SimulatedOutcome = {
+    h1Home: row.home_score_h1,
+    h1Away: row.away_score_h1,
+    h2Home: row.home_score_h2,
+    h2Away: row.away_score_h2,
+    homeCorners: row.corners ?? 0,
+    awayCorners: 0
+  };
+  return market.legs.every(leg => evaluateLeg(leg, outcome, isTeamYHome));
+}
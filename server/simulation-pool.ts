@@ -0,0 +1,150 @@
+import os from "os";
+import { Worker } from "worker_threads";
+import { MarketDefinition } from "./markets";
+import type { FinishedMatch } from "./ratings";
+import { SimulationOptions, SimulationResult, simulateMatch } from "./simulation";
+
+// Batches smaller than this are cheaper to run inline than to ship to workers.
+const WORKER_BATCH_THRESHOLD = 64;
+const POOL_SIZE = Math.max(1, Math.min(4, os.cpus().length - 1));
+const MAX_CACHE_ENTRIES = 10000;
+
+export interface SimulationJob {
+  matchId: number;
+  homeExpG: number;
+  awayExpG: number;
+  homeExpC: number;
+  awayExpC: number;
+  isTeamYHome: boolean;
+  market: MarketDefinition;
+  options?: SimulationOptions;
+}
+
+// --- Result Cache ---
+// Keyed by match, model inputs and market, so repeated GETs of an unchanged
+// slate do not re-simulate. Map insertion order doubles as LRU order.
+const cache = new Map<string, SimulationResult>();
+
+function cacheKey(job: SimulationJob) {
+  const round = (x: number) => Math.round(x * 1e6) / 1e6;
+  return JSON.stringify([
+    job.matchId,
+    round(job.homeExpG),
+    round(job.awayExpG),
+    round(job.homeExpC),
+    round(job.awayExpC),
+    job.isTeamYHome,
+    job.market.legs,
+    job.options ?? {}
+  ]);
+}
+
+function remember(key: string, result: SimulationResult) {
+  cache.delete(key);
+  cache.set(key, result);
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+// --- Worker Pool ---
+// A fixed set of long-lived workers, started on first use, with tasks queued
+// until one is free. Idle workers are unref'd so they never keep the process
+// alive on their own.
+export type WorkerTask =
+  | { kind: "simulate"; jobs: SimulationJob[] }
+  | { kind: "walk-forward"; history: FinishedMatch[]; refitDays: number; kickoffs: number[] };
+
+interface QueuedTask {
+  task: WorkerTask;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: QueuedTask | null;
+}
+
+const workers: PoolWorker[] = [];
+const queue: QueuedTask[] = [];
+
+function startWorker(): PoolWorker {
+  // The server runs under tsx; loader hooks are per thread, so the worker
+  // registers tsx itself before importing the TypeScript entry point.
+  const entry = new URL("./simulation-worker.ts", import.meta.url).href;
+  const worker = new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(entry)}); });`,
+    // Workers never read the database; any module that opens it gets a
+    // private in-memory one rather than a second handle on the real file.
+    { eval: true, env: { ...process.env, DB_PATH: ":memory:" } }
+  );
+  const member: PoolWorker = { worker, current: null };
+
+  const retire = (error: Error) => {
+    const index = workers.indexOf(member);
+    if (index !== -1) workers.splice(index, 1);
+    member.current?.reject(error);
+    member.current = null;
+    dispatch();
+  };
+
+  worker.on("message", (reply: { result?: any; error?: string }) => {
+    const task = member.current!;
+    member.current = null;
+    worker.unref();
+    if (reply.error !== undefined) task.reject(new Error(reply.error));
+    else task.resolve(reply.result);
+    dispatch();
+  });
+  worker.on("error", error => {
+    retire(error);
+    worker.terminate();
+  });
+  worker.on("exit", code => {
+    retire(new Error(`Simulation worker exited with code ${code}`));
+  });
+
+  workers.push(member);
+  return member;
+}
+
+function dispatch() {
+  while (queue.length > 0) {
+    const idle = workers.find(w => w.current === null)
+      ?? (workers.length < POOL_SIZE ? startWorker() : undefined);
+    if (!idle) return;
+    idle.current = queue.shift()!;
+    idle.worker.ref();
+    idle.worker.postMessage(idle.current.task);
+  }
+}
+
+export function runInWorker(task: WorkerTask): Promise<any> {
+  return new Promise((resolve, reject) => {
+    queue.push({ task, resolve, reject });
+    dispatch();
+  });
+}
+
+export async function runSimulations(jobs: SimulationJob[]): Promise<SimulationResult[]> {
+  const keys = jobs.map(cacheKey);
+  const results: (SimulationResult | undefined)[] = keys.map(k => cache.get(k));
+  const pending = jobs.map((_, i) => i).filter(i => results[i] === undefined);
+
+  if (pending.length >= WORKER_BATCH_THRESHOLD) {
+    const chunkSize = Math.ceil(pending.length / POOL_SIZE);
+    const chunks: number[][] = [];
+    for (let i = 0; i < pending.length; i += chunkSize) chunks.push(pending.slice(i, i + chunkSize));
+    const chunkResults = await Promise.all(chunks.map(chunk => runInWorker({ kind: "simulate", jobs: chunk.map(i => jobs[i]) })));
+    chunks.forEach((chunk, c) => chunk.forEach((i, k) => { results[i] = chunkResults[c][k]; }));
+  } else {
+    for (const i of pending) {
+      const j = jobs[i];
+      results[i] = simulateMatch(j.homeExpG, j.awayExpG, j.homeExpC, j.awayExpC, j.isTeamYHome, j.market, j.options);
+    }
+  }
+
+  for (const i of pending) remember(keys[i], results[i]!);
+  return results as SimulationResult[];
+}
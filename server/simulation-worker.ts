@@ -0,0 +1,30 @@
+import { parentPort } from "worker_threads";
+import { walkForwardRatings } from "./ratings";
+import { simulateMatch } from "./simulation";
+import { WorkerTask } from "./simulation-pool";
+
+function run(task: WorkerTask) {
+  switch (task.kind) {
+    case "simulate":
+      return task.jobs.map(j =>
+        simulateMatch(j.homeExpG, j.awayExpG, j.homeExpC, j.awayExpC, j.isTeamYHome, j.market, j.options)
+      );
+    case "walk-forward": {
+      // Kickoffs sharing a refit map to the same fit object, which the
+      // structured clone back to the main thread keeps shared
+      const ratingsAt = walkForwardRatings(task.history, task.refitDays);
+      return new Map(task.kickoffs.map(kickoff => [kickoff, ratingsAt(kickoff)]));
+    }
+  }
+}
+
+// Runs simulation batches and walk-forward rating refits off the main Express
+// thread. A failing task is reported back rather than thrown, so the worker
+// stays up.
+parentPort!.on("message", (task: WorkerTask) => {
+  try {
+    parentPort!.postMessage({ result: run(task) });
+  } catch (error: any) {
+    parentPort!.postMessage({ error: error?.message ?? String(error) });
+  }
+});
@@ -0,0 +1,560 @@
+import { MarketDefinition, MarketLeg, TeamRef } from "./markets";
+import { Random, createRandom, hashString } from "./random";
+
+// Goals per half for leagues without stored half-time scores; fitted leagues
+// use their own split (see ratings)
+export const H1_SHARE = 0.45;
+export const H2_SHARE = 0.55;
+// Probability mass left out when truncating a Poisson distribution
+const TAIL_EPSILON = 1e-10;
+// Log change in a side's corner rate per goal it leads by. Only match totals
+// of corners are stored, so this is a fixed prior rather than a fitted value.
+const GAME_STATE_CORNER_EFFECT = 0.15;
+// Leads beyond this many goals do not change the corner rates any further
+const GAME_STATE_MAX_DIFF = 2;
+
+// --- Model Choice ---
+export class ModelChoiceError extends Error {}
+
+export const GOAL_MODELS = ["poisson", "bivariate-poisson", "dixon-coles"] as const;
+export const CORNER_MODELS = ["poisson", "negative-binomial"] as const;
+export type GoalModel = typeof GOAL_MODELS[number];
+export type CornerModel = typeof CORNER_MODELS[number];
+
+// The distributions a run prices with. With gameState each side's corner
+// rate follows the score: the trailing side wins more corners.
+export interface ModelChoice {
+  goals: GoalModel;
+  corners: CornerModel;
+  gameState: boolean;
+}
+
+export const DEFAULT_MODEL: ModelChoice = { goals: "poisson", corners: "poisson", gameState: false };
+
+// Builds a choice from string parameters: goalModel, cornerModel, gameState.
+export function parseModelChoice(params: Record<string, any>): ModelChoice {
+  const goals = (params.goalModel || DEFAULT_MODEL.goals) as GoalModel;
+  if (!GOAL_MODELS.includes(goals)) throw new ModelChoiceError(`goalModel must be one of ${GOAL_MODELS.join(", ")}`);
+  const corners = (params.cornerModel || DEFAULT_MODEL.corners) as CornerModel;
+  if (!CORNER_MODELS.includes(corners)) throw new ModelChoiceError(`cornerModel must be one of ${CORNER_MODELS.join(", ")}`);
+  const gameState = params.gameState === undefined || params.gameState === "" ? String(DEFAULT_MODEL.gameState) : String(params.gameState);
+  if (gameState !== "true" && gameState !== "false") throw new ModelChoiceError("gameState must be true or false");
+  return { goals, corners, gameState: gameState === "true" };
+}
+
+export function describeModel(model: ModelChoice) {
+  return `${model.goals} goals, ${model.corners} corners${model.gameState ? ", game-state corners" : ""}`;
+}
+
+// Per-league parameters from the ratings fit; each model reads only its own.
+export interface ModelParams {
+  // Share of a match's goals scored in the first half
+  h1Share: number;
+  // Dixon-Coles low-score dependence
+  rho: number;
+  // Bivariate Poisson: goals both sides share, i.e. their covariance
+  goalCovariance: number;
+  // Negative binomial corners: variance = mean + dispersion * mean^2
+  cornerDispersion: number;
+}
+
+export const DEFAULT_MODEL_PARAMS: ModelParams = { h1Share: H1_SHARE, rho: 0, goalCovariance: 0, cornerDispersion: 0 };
+
+// Picks the model parameters out of a fixture's ratings
+export function modelParams(p: ModelParams): ModelParams {
+  return { h1Share: p.h1Share, rho: p.rho, goalCovariance: p.goalCovariance, cornerDispersion: p.cornerDispersion };
+}
+
+// --- Statistical Utilities ---
+export function poissonPmf(lambda: number): number[] {
+  const pmf = [Math.exp(-lambda)];
+  let cumulative = pmf[0];
+  for (let k = 1; cumulative < 1 - TAIL_EPSILON && k < 100; k++) {
+    pmf.push(pmf[k - 1] * lambda / k);
+    cumulative += pmf[k];
+  }
+  return pmf;
+}
+
+// Negative binomial by mean and dispersion (Poisson when dispersion is 0)
+export function negativeBinomialPmf(mean: number, dispersion: number): number[] {
+  if (dispersion <= 0 || mean <= 0) return poissonPmf(mean);
+  const r = 1 / dispersion;
+  const q = mean / (r + mean);
+  const pmf = [Math.pow(1 - q, r)];
+  let cumulative = pmf[0];
+  for (let k = 1; cumulative < 1 - TAIL_EPSILON && k < 200; k++) {
+    pmf.push(pmf[k - 1] * (k - 1 + r) / k * q);
+    cumulative += pmf[k];
+  }
+  return pmf;
+}
+
+export function cornerPmf(mean: number, model: CornerModel, dispersion: number) {
+  return model === "negative-binomial" ? negativeBinomialPmf(mean, dispersion) : poissonPmf(mean);
+}
+
+export function convolve(a: number[], b: number[]) {
+  const out = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((pa, i) => b.forEach((pb, j) => (out[i + j] += pa * pb)));
+  return out;
+}
+
+// The bivariate Poisson's shared component, kept below either side's mean
+function sharedGoals(homeMean: number, awayMean: number, covariance: number) {
+  return Math.min(Math.max(covariance, 0), 0.9 * Math.min(homeMean, awayMean));
+}
+
+// grid[home][away] for one period: independent Poissons, or with a positive
+// covariance a bivariate Poisson (a common Poisson count added to both sides).
+export function goalGrid(homeMean: number, awayMean: number, covariance = 0): number[][] {
+  const shared = sharedGoals(homeMean, awayMean, covariance);
+  const home = poissonPmf(homeMean - shared);
+  const away = poissonPmf(awayMean - shared);
+  if (shared <= 0) return home.map(h => away.map(a => h * a));
+  const common = poissonPmf(shared);
+  const grid = Array.from({ length: home.length + common.length - 1 }, () => new Array(away.length + common.length - 1).fill(0));
+  common.forEach((pc, k) => home.forEach((ph, x) => away.forEach((pa, y) => (grid[x + k][y + k] += pc * ph * pa))));
+  return grid;
+}
+
+// Dixon-Coles weight on a score under independent Poisson means; rho is kept
+// where every weighted probability stays non-negative.
+export function dixonColesTau(x: number, y: number, lambda: number, mu: number, rho: number) {
+  const r = Math.min(Math.max(rho, -1 / Math.max(lambda, mu)), Math.min(1, 1 / (lambda * mu)));
+  if (x === 0 && y === 0) return 1 - lambda * mu * r;
+  if (x === 0 && y === 1) return 1 + lambda * r;
+  if (x === 1 && y === 0) return 1 + mu * r;
+  if (x === 1 && y === 1) return 1 - r;
+  return 1;
+}
+
+// Inverse-transform sampler over a precomputed CDF: one uniform draw per
+// sample instead of Knuth's product of uniforms.
+function pmfSampler(pmf: number[], random: Random): () => number {
+  const cdf = [...pmf];
+  for (let k = 1; k < cdf.length; k++) cdf[k] += cdf[k - 1];
+  return () => {
+    const u = random();
+    let k = 0;
+    while (k < cdf.length - 1 && u > cdf[k]) k++;
+    return k;
+  };
+}
+
+function poissonSampler(lambda: number, random: Random) {
+  return pmfSampler(poissonPmf(lambda), random);
+}
+
+// --- In-Play State ---
+// A match in progress at `minute` (0-90; stoppage time counts as 45 or 90):
+// goals so far in each half and corners so far. Null corners mean the feed
+// does not report them, so corners are priced over the whole match.
+export interface MatchState {
+  minute: number;
+  h1Home: number;
+  h1Away: number;
+  h2Home: number;
+  h2Away: number;
+  homeCorners: number | null;
+  awayCorners: number | null;
+}
+
+const KICKOFF_STATE: MatchState = { minute: 0, h1Home: 0, h1Away: 0, h2Home: 0, h2Away: 0, homeCorners: 0, awayCorners: 0 };
+
+// Share of each full-match mean still to come: goals per half (each half's
+// rate spread evenly over its 45 minutes) and corners over the 90, in total
+// and per half.
+export function remainingShares(state: MatchState, h1Share = H1_SHARE) {
+  const minute = Math.min(Math.max(state.minute, 0), 90);
+  const cornersKnown = state.homeCorners !== null && state.awayCorners !== null;
+  return {
+    h1: h1Share * Math.max(0, 45 - minute) / 45,
+    h2: (1 - h1Share) * Math.min(45, 90 - Math.max(minute, 45)) / 45,
+    corners: cornersKnown ? (90 - minute) / 90 : 1,
+    cornersH1: cornersKnown ? Math.max(0, 45 - minute) / 90 : 0.5,
+    cornersH2: cornersKnown ? Math.min(45, 90 - Math.max(minute, 45)) / 90 : 0.5
+  };
+}
+
+// Home-minus-away goal difference midway through what is left of each half,
+// given the goals still to come in each (a-b in the first, c-d in the second)
+function gameStateDiffs(state: MatchState, a: number, b: number, c: number, d: number) {
+  const clamp = (x: number) => Math.min(Math.max(x, -GAME_STATE_MAX_DIFF), GAME_STATE_MAX_DIFF);
+  const h1 = state.h1Home - state.h1Away + (a - b) / 2;
+  const h2 = state.h1Home + a - state.h1Away - b + state.h2Home - state.h2Away + (c - d) / 2;
+  return [clamp(h1), clamp(h2)];
+}
+
+// Corner rate multiplier for a side leading by `lead` goals
+function gameStateFactor(lead: number) {
+  return Math.exp(-GAME_STATE_CORNER_EFFECT * lead);
+}
+
+export interface SimulatedOutcome {
+  h1Home: number;
+  h1Away: number;
+  h2Home: number;
+  h2Away: number;
+  homeCorners: number;
+  awayCorners: number;
+}
+
+// --- Leg Evaluation ---
+function isHomeSide(team: TeamRef, isTeamYHome: boolean) {
+  if (team === "home") return true;
+  if (team === "away") return false;
+  return team === "teamY" ? isTeamYHome : !isTeamYHome;
+}
+
+function periodGoals(o: SimulatedOutcome, period: "h1" | "h2" | "ft") {
+  if (period === "h1") return { home: o.h1Home, away: o.h1Away };
+  if (period === "h2") return { home: o.h2Home, away: o.h2Away };
+  return { home: o.h1Home + o.h2Home, away: o.h1Away + o.h2Away };
+}
+
+function resultOf(goals: { home: number; away: number }, home: boolean, outcome: "win" | "draw" | "lose") {
+  const diff = home ? goals.home - goals.away : goals.away - goals.home;
+  if (outcome === "win") return diff > 0;
+  if (outcome === "lose") return diff < 0;
+  return diff === 0;
+}
+
+const overUnder = (value: number, side: "over" | "under", line: number) =>
+  side === "over" ? value > line : value < line;
+
+export function evaluateLeg(leg: MarketLeg, o: SimulatedOutcome, isTeamYHome: boolean): boolean {
+  switch (leg.type) {
+    case "goals": {
+      const g = periodGoals(o, leg.period);
+      return overUnder(g.home + g.away, leg.side, leg.line);
+    }
+    case "btts": {
+      const g = periodGoals(o, leg.period);
+      return (g.home > 0 && g.away > 0) === leg.value;
+    }
+    case "result": {
+      const home = isHomeSide(leg.team, isTeamYHome);
+      if (leg.period === "either_half") {
+        return resultOf(periodGoals(o, "h1"), home, leg.outcome) || resultOf(periodGoals(o, "h2"), home, leg.outcome);
+      }
+      if (leg.period === "both_halves") {
+        return resultOf(periodGoals(o, "h1"), home, leg.outcome) && resultOf(periodGoals(o, "h2"), home, leg.outcome);
+      }
+      return resultOf(periodGoals(o, leg.period), home, leg.outcome);
+    }
+    case "corners":
+      return overUnder(o.homeCorners + o.awayCorners, leg.side, leg.line);
+    case "team_corners": {
+      const corners = isHomeSide(leg.team, isTeamYHome) ? o.homeCorners : o.awayCorners;
+      return overUnder(corners, leg.side, leg.line);
+    }
+  }
+}
+
+export interface SimulationResult {
+  // Probability that every leg wins, with its Monte Carlo standard error (0 when exact)
+  probability: number;
+  standardError: number;
+  // Marginal probability of each leg
+  legs: number[];
+  // pairwise[i][j] = P(leg i and leg j); the diagonal repeats the marginals
+  pairwise: number[][];
+  method: "exact" | "monte-carlo";
+  iterations: number;
+}
+
+export interface SimulationOptions {
+  iterations?: number;
+  // Defaults to a hash of the inputs, so identical inputs give identical results
+  seed?: number;
+  // "auto" uses the closed form whenever every leg supports it
+  method?: "auto" | "exact" | "monte-carlo";
+  // Condition on a match in progress: counts so far plus draws for the time left
+  state?: MatchState;
+  // Distributions to price with; the default is independent Poissons throughout
+  model?: ModelChoice;
+  // The fixture's league parameters for those distributions
+  params?: ModelParams;
+}
+
+type LegGroup = "goals" | "corners";
+
+function legGroup(leg: MarketLeg): LegGroup {
+  return leg.type === "corners" || leg.type === "team_corners" ? "corners" : "goals";
+}
+
+// --- Exact Computation ---
+// Goal legs are functions of the four per-half goal counts and corner legs of
+// the two corner counts. Goals are summed over the truncated per-half grids
+// (Dixon-Coles reweights each remaining full-time score), grouped by what the
+// corners depend on: nothing, or with game state the goal difference each
+// half is played at. Corners are then summed per group from their own grids,
+// so probabilities across the two kinds of leg multiply within a group. In
+// play, the grids cover what is still to come and are offset by the counts so
+// far.
+interface GoalGroup {
+  d1: number;
+  d2: number;
+  // P(group), P(every goal leg and group), P(goal legs a and b and group)
+  p: number;
+  all: number;
+  pairs: number[][];
+}
+
+export function exactMatch(
+  homeExpG: number,
+  awayExpG: number,
+  homeExpC: number,
+  awayExpC: number,
+  isTeamYHome: boolean,
+  market: MarketDefinition,
+  state: MatchState = KICKOFF_STATE,
+  model: ModelChoice = DEFAULT_MODEL,
+  params: ModelParams = DEFAULT_MODEL_PARAMS
+): SimulationResult {
+  const n = market.legs.length;
+  const groups = market.legs.map(legGroup);
+  const hasGoals = groups.includes("goals");
+  const hasCorners = groups.includes("corners");
+  const byState = model.gameState && hasCorners;
+  const pairwise = Array.from({ length: n }, () => new Array(n).fill(0));
+  const outcome: SimulatedOutcome = { h1Home: 0, h1Away: 0, h2Home: 0, h2Away: 0, homeCorners: 0, awayCorners: 0 };
+  const hits = new Array<boolean>(n);
+
+  // Adds p to the joint counts of the group's legs that win on `outcome`;
+  // returns whether they all do
+  const accumulate = (group: LegGroup, pairs: number[][], p: number) => {
+    let all = true;
+    for (let a = 0; a < n; a++) {
+      if (groups[a] !== group) continue;
+      hits[a] = evaluateLeg(market.legs[a], outcome, isTeamYHome);
+      all = all && hits[a];
+    }
+    for (let a = 0; a < n; a++) {
+      if (groups[a] !== group || !hits[a]) continue;
+      for (let b = a; b < n; b++) {
+        if (groups[b] === group && hits[b]) pairs[a][b] += p;
+      }
+    }
+    return all;
+  };
+  const newGroup = (d1: number, d2: number): GoalGroup =>
+    ({ d1, d2, p: 0, all: 0, pairs: Array.from({ length: n }, () => new Array(n).fill(0)) });
+
+  const shares = remainingShares(state, params.h1Share);
+  const goalGroups = new Map<string, GoalGroup>();
+  if (hasGoals || byState) {
+    const covariance = model.goals === "bivariate-poisson" ? params.goalCovariance : 0;
+    const h1 = goalGrid(homeExpG * shares.h1, awayExpG * shares.h1, covariance * shares.h1);
+    const h2 = goalGrid(homeExpG * shares.h2, awayExpG * shares.h2, covariance * shares.h2);
+    const lambda = homeExpG * (shares.h1 + shares.h2);
+    const mu = awayExpG * (shares.h1 + shares.h2);
+    for (let a = 0; a < h1.length; a++) {
+      for (let b = 0; b < h1[a].length; b++) {
+        for (let c = 0; c < h2.length; c++) {
+          for (let d = 0; d < h2[c].length; d++) {
+            let p = h1[a][b] * h2[c][d];
+            if (model.goals === "dixon-coles") p *= dixonColesTau(a + c, b + d, lambda, mu, params.rho);
+            const [d1, d2] = byState ? gameStateDiffs(state, a, b, c, d) : [0, 0];
+            const key = `${d1}:${d2}`;
+            let group = goalGroups.get(key);
+            if (!group) goalGroups.set(key, (group = newGroup(d1, d2)));
+            group.p += p;
+            if (!hasGoals) continue;
+            outcome.h1Home = state.h1Home + a;
+            outcome.h1Away = state.h1Away + b;
+            outcome.h2Home = state.h2Home + c;
+            outcome.h2Away = state.h2Away + d;
+            if (accumulate("goals", group.pairs, p)) group.all += p;
+          }
+        }
+      }
+    }
+  } else {
+    goalGroups.set("0:0", { ...newGroup(0, 0), p: 1 });
+  }
+
+  // Each side's corners still to come, given the goal difference per half
+  const cornerPmfs = (d1: number, d2: number) => [homeExpC, awayExpC].map((mean, side) => {
+    if (!model.gameState) return cornerPmf(mean * shares.corners, model.corners, params.cornerDispersion);
+    const lead = side === 0 ? 1 : -1;
+    return convolve(
+      cornerPmf(mean * shares.cornersH1 * gameStateFactor(lead * d1), model.corners, params.cornerDispersion),
+      cornerPmf(mean * shares.cornersH2 * gameStateFactor(lead * d2), model.corners, params.cornerDispersion)
+    );
+  });
+
+  let probability = 0;
+  for (const group of goalGroups.values()) {
+    const goalAll = hasGoals ? group.all : group.p;
+    if (!hasCorners) {
+      probability += goalAll;
+    } else {
+      const [home, away] = cornerPmfs(group.d1, group.d2);
+      const corners = Array.from({ length: n }, () => new Array(n).fill(0));
+      let cornerAll = 0;
+      for (let x = 0; x < home.length; x++) {
+        for (let y = 0; y < away.length; y++) {
+          outcome.homeCorners = (state.homeCorners ?? 0) + x;
+          outcome.awayCorners = (state.awayCorners ?? 0) + y;
+          const p = home[x] * away[y];
+          if (accumulate("corners", corners, p)) cornerAll += p;
+        }
+      }
+      probability += goalAll * cornerAll;
+      for (let a = 0; a < n; a++) {
+        for (let b = a; b < n; b++) {
+          if (groups[a] === "corners" && groups[b] === "corners") pairwise[a][b] += group.p * corners[a][b];
+          else if (groups[a] !== groups[b]) {
+            const [g, c] = groups[a] === "goals" ? [a, b] : [b, a];
+            pairwise[a][b] += group.pairs[g][g] * corners[c][c];
+          }
+        }
+      }
+    }
+    for (let a = 0; a < n; a++) {
+      for (let b = a; b < n; b++) {
+        if (groups[a] === "goals" && groups[b] === "goals") pairwise[a][b] += group.pairs[a][b];
+      }
+    }
+  }
+
+  const full = Array.from({ length: n }, (_, a) => Array.from({ length: n }, (_, b) => pairwise[Math.min(a, b)][Math.max(a, b)]));
+  return {
+    probability,
+    standardError: 0,
+    legs: full.map((row, a) => row[a]),
+    pairwise: full,
+    method: "exact",
+    iterations: 0
+  };
+}
+
+// --- Monte Carlo Simulation ---
+export function simulationSeed(
+  homeExpG: number,
+  awayExpG: number,
+  homeExpC: number,
+  awayExpC: number,
+  isTeamYHome: boolean,
+  market: MarketDefinition,
+  state?: MatchState
+) {
+  return hashString(JSON.stringify([homeExpG, awayExpG, homeExpC, awayExpC, isTeamYHome, market.legs, state ?? null]));
+}
+
+export function simulateMatch(
+  homeExpG: number,
+  awayExpG: number,
+  homeExpC: number,
+  awayExpC: number,
+  isTeamYHome: boolean,
+  market: MarketDefinition,
+  options: SimulationOptions = {}
+): SimulationResult {
+  const method = options.method ?? "auto";
+  const model = options.model ?? DEFAULT_MODEL;
+  const params = options.params ?? DEFAULT_MODEL_PARAMS;
+  if (method !== "monte-carlo") {
+    return exactMatch(homeExpG, awayExpG, homeExpC, awayExpC, isTeamYHome, market, options.state, model, params);
+  }
+
+  const iterations = options.iterations ?? 20000;
+  const random = createRandom(options.seed ?? simulationSeed(homeExpG, awayExpG, homeExpC, awayExpC, isTeamYHome, market, options.state));
+  const state = options.state ?? KICKOFF_STATE;
+  const shares = remainingShares(state, params.h1Share);
+
+  // Per half: each side's own goals plus, for the bivariate Poisson, goals
+  // both sides share
+  const covariance = model.goals === "bivariate-poisson" ? params.goalCovariance : 0;
+  const half = (share: number) => {
+    const shared = sharedGoals(homeExpG * share, awayExpG * share, covariance * share);
+    const home = poissonSampler(homeExpG * share - shared, random);
+    const away = poissonSampler(awayExpG * share - shared, random);
+    const common = shared > 0 ? poissonSampler(shared, random) : () => 0;
+    return () => {
+      const s = common();
+      return [home() + s, away() + s];
+    };
+  };
+  const h1 = half(shares.h1);
+  const h2 = half(shares.h2);
+  // Dixon-Coles by rejection: keep a draw with probability tau / max tau
+  const lambda = homeExpG * (shares.h1 + shares.h2);
+  const mu = awayExpG * (shares.h1 + shares.h2);
+  const tau = (x: number, y: number) => dixonColesTau(x, y, lambda, mu, params.rho);
+  const tauMax = Math.max(1, tau(0, 0), tau(0, 1), tau(1, 0), tau(1, 1));
+  const drawGoals = () => {
+    for (;;) {
+      const [a, b] = h1();
+      const [c, d] = h2();
+      if (model.goals !== "dixon-coles" || random() * tauMax <= tau(a + c, b + d)) return [a, b, c, d];
+    }
+  };
+
+  const cornerSampler = (mean: number) => pmfSampler(cornerPmf(mean, model.corners, params.cornerDispersion), random);
+  const homeCorners = cornerSampler(homeExpC * shares.corners);
+  const awayCorners = cornerSampler(awayExpC * shares.corners);
+  // With game state, one sampler per side, half and (clamped) goal difference
+  const stateSamplers = new Map<string, () => number>();
+  const stateCorners = (mean: number, share: number, lead: number) => {
+    const key = `${mean}:${share}:${lead}`;
+    let sampler = stateSamplers.get(key);
+    if (!sampler) stateSamplers.set(key, (sampler = cornerSampler(mean * share * gameStateFactor(lead))));
+    return sampler();
+  };
+  const drawCorners = (a: number, b: number, c: number, d: number) => {
+    if (!model.gameState) return [homeCorners(), awayCorners()];
+    const [d1, d2] = gameStateDiffs(state, a, b, c, d);
+    return [
+      stateCorners(homeExpC, shares.cornersH1, d1) + stateCorners(homeExpC, shares.cornersH2, d2),
+      stateCorners(awayExpC, shares.cornersH1, -d1) + stateCorners(awayExpC, shares.cornersH2, -d2)
+    ];
+  };
+
+  const n = market.legs.length;
+  const pairCounts = Array.from({ length: n }, () => new Array(n).fill(0));
+  const hits = new Array<boolean>(n);
+  let successCount = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    const [a, b, c, d] = drawGoals();
+    const [x, y] = drawCorners(a, b, c, d);
+    const outcome: SimulatedOutcome = {
+      h1Home: state.h1Home + a,
+      h1Away: state.h1Away + b,
+      h2Home: state.h2Home + c,
+      h2Away: state.h2Away + d,
+      homeCorners: (state.homeCorners ?? 0) + x,
+      awayCorners: (state.awayCorners ?? 0) + y
+    };
+
+    let all = true;
+    for (let a = 0; a < n; a++) {
+      hits[a] = evaluateLeg(market.legs[a], outcome, isTeamYHome);
+      all = all && hits[a];
+    }
+    for (let a = 0; a < n; a++) {
+      if (!hits[a]) continue;
+      for (let b = a; b < n; b++) {
+        if (hits[b]) pairCounts[a][b]++;
+      }
+    }
+    if (all) successCount++;
+  }
+
+  const pairwise = Array.from({ length: n }, (_, a) =>
+    Array.from({ length: n }, (_, b) => pairCounts[Math.min(a, b)][Math.max(a, b)] / iterations)
+  );
+  const probability = successCount / iterations;
+
+  return {
+    probability,
+    standardError: Math.sqrt(probability * (1 - probability) / iterations),
+    legs: pairwise.map((row, a) => row[a]),
+    pairwise,
+    method: "monte-carlo",
+    iterations
+  };
+}
@@ -0,0 +1,101 @@
+import { randomBytes } from "crypto";
+import { db } from "./db";
+import { getMatchRatings, loadRatings } from "./ratings";
+import { loadMatchPrices } from "./odds";
+import { AdjustmentState, applyAdjustments, loadActiveAdjustments } from "./adjustments";
+import { OpportunityQuery, findAllOpportunities } from "./opportunities";
+
+type Slate = Awaited<ReturnType<typeof findAllOpportunities>>;
+
+export interface SnapshotInputs {
+  matchId: number;
+  homeExpG: number;
+  awayExpG: number;
+  homeExpC: number;
+  awayExpC: number;
+  rho: number;
+  h1Share: number;
+  goalCovariance: number;
+  cornerDispersion: number;
+  // Manual adjustments active at the time, already applied to the inputs above
+  adjustments: AdjustmentState[];
+  // bookmaker -> "market|selection|point" -> decimal price, as stored at the time
+  prices: Record<string, Record<string, number>>;
+}
+
+export interface AnalysisSnapshot {
+  id: string;
+  label: string | null;
+  createdAt: string;
+  // The query as run, market definitions included, with the seed fixed
+  query: Omit<OpportunityQuery, "cursor" | "limit">;
+  inputs: SnapshotInputs[];
+  result: Slate;
+}
+
+function toSnapshot(r: any): AnalysisSnapshot {
+  return {
+    id: r.id,
+    label: r.label,
+    createdAt: r.created_at,
+    query: JSON.parse(r.query),
+    inputs: JSON.parse(r.inputs),
+    result: JSON.parse(r.result)
+  };
+}
+
+// --- Snapshots ---
+// Runs the whole slate for a query and stores it with everything it was
+// computed from. Without an explicit seed one is drawn and recorded, so a
+// Monte Carlo run can be repeated exactly.
+export async function createSnapshot(query: OpportunityQuery, userId: number | null, label?: string): Promise<AnalysisSnapshot> {
+  const { cursor, limit, ...rest } = query;
+  const frozen = {
+    ...rest,
+    simulation: { ...rest.simulation, seed: rest.simulation.seed ?? randomBytes(4).readUInt32LE(0) }
+  };
+  const result = await findAllOpportunities(frozen as OpportunityQuery, userId);
+
+  const ratings = loadRatings();
+  const adjustments = loadActiveAdjustments();
+  const match = db.prepare("SELECT league_id, home_team_id, away_team_id FROM matches WHERE id = ?");
+  const inputs = [...new Set(result.items.map(o => o.matchId))].map(matchId => {
+    const m = match.get(matchId) as any;
+    const prices = loadMatchPrices(matchId);
+    const active = adjustments.get(matchId) ?? [];
+    return {
+      matchId,
+      ...applyAdjustments(getMatchRatings(ratings, m.league_id, m.home_team_id, m.away_team_id), active),
+      adjustments: active,
+      prices: Object.fromEntries([...prices].map(([bookmaker, entries]) => [bookmaker, Object.fromEntries(entries)]))
+    };
+  });
+
+  const id = randomBytes(6).toString("base64url");
+  db.prepare(`
+    INSERT INTO analysis_snapshots (id, label, query, inputs, result, created_at) VALUES (?, ?, ?, ?, ?, ?)
+  `).run(id, label || null, JSON.stringify(frozen), JSON.stringify(inputs), JSON.stringify(result), new Date().toISOString());
+  return getSnapshot(id)!;
+}
+
+export function getSnapshot(id: string): AnalysisSnapshot | null {
+  const row = db.prepare("SELECT * FROM analysis_snapshots WHERE id = ?").get(id);
+  return row ? toSnapshot(row) : null;
+}
+
+export function listSnapshots(limit = 50) {
+  return (db.prepare(`
+    SELECT id, label, query, json_extract(result, '$.total') as total, created_at
+    FROM analysis_snapshots ORDER BY created_at DESC LIMIT ?
+  `).all(limit) as any[]).map(r => {
+    const query = JSON.parse(r.query);
+    return {
+      id: r.id,
+      label: r.label,
+      createdAt: r.created_at,
+      markets: query.markets.map((m: any) => m.name) as string[],
+      seed: query.simulation.seed as number,
+      total: r.total as number
+    };
+  });
+}
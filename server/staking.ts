@@ -0,0 +1,119 @@
+import { db } from "./db";
+
+// --- Staking Configuration ---
+export type StakingMethod = "flat" | "proportional" | "kelly";
+
+export interface StakingConfig {
+  method: StakingMethod;
+  // Starting bankroll; the current bankroll adds settled profit and loss
+  bankroll: number;
+  // Stake per bet for "flat"
+  flatStake: number;
+  // Share of the current bankroll per bet for "proportional"
+  proportion: number;
+  // Multiplier on the full Kelly fraction for "kelly" (0.25 = quarter Kelly)
+  kellyFraction: number;
+  maxStake: number;
+  // Total stake allowed on matches kicking off on the same UTC day
+  maxMatchdayExposure: number;
+}
+
+export const DEFAULT_STAKING: StakingConfig = {
+  method: "kelly",
+  bankroll: 1000,
+  flatStake: 10,
+  proportion: 0.01,
+  kellyFraction: 0.25,
+  maxStake: 50,
+  maxMatchdayExposure: 200
+};
+
+export class StakingConfigError extends Error {}
+
+// A user's own config, or the shared one for visitors and background jobs
+export function loadStakingConfig(userId: number | null = null): StakingConfig {
+  const row = userId !== null
+    ? db.prepare("SELECT staking as value FROM users WHERE id = ?").get(userId) as any
+    : db.prepare("SELECT value FROM settings WHERE key = 'staking'").get() as any;
+  return row?.value ? { ...DEFAULT_STAKING, ...JSON.parse(row.value) } : { ...DEFAULT_STAKING };
+}
+
+export function saveStakingConfig(input: any, userId: number | null = null): StakingConfig {
+  const config = { ...loadStakingConfig(userId), ...input };
+  if (!["flat", "proportional", "kelly"].includes(config.method)) {
+    throw new StakingConfigError("method must be flat, proportional or kelly");
+  }
+  for (const key of ["bankroll", "flatStake", "proportion", "kellyFraction", "maxStake", "maxMatchdayExposure"] as const) {
+    config[key] = Number(config[key]);
+    if (!Number.isFinite(config[key]) || config[key] < 0) {
+      throw new StakingConfigError(`${key} must be a non-negative number`);
+    }
+  }
+  if (config.proportion > 1 || config.kellyFraction > 1) {
+    throw new StakingConfigError("proportion and kellyFraction must be at most 1");
+  }
+
+  const stored: StakingConfig = {
+    method: config.method,
+    bankroll: config.bankroll,
+    flatStake: config.flatStake,
+    proportion: config.proportion,
+    kellyFraction: config.kellyFraction,
+    maxStake: config.maxStake,
+    maxMatchdayExposure: config.maxMatchdayExposure
+  };
+  if (userId !== null) db.prepare("UPDATE users SET staking = ? WHERE id = ?").run(JSON.stringify(stored), userId);
+  else db.prepare("INSERT OR REPLACE INTO settings (key, value) VALUES ('staking', ?)").run(JSON.stringify(stored));
+  return stored;
+}
+
+// --- Stake Sizing ---
+// Full Kelly fraction for a bet at decimal odds: (p * odds - 1) / (odds - 1).
+export function kellyFraction(probModel: number, odds: number): number {
+  if (odds <= 1) return 0;
+  return Math.max(0, (probModel * odds - 1) / (odds - 1));
+}
+
+// Stake before the matchday exposure cap: never negative, never above maxStake.
+export function rawStake(config: StakingConfig, currentBankroll: number, probModel: number, odds: number): number {
+  let stake: number;
+  if (config.method === "flat") stake = config.flatStake;
+  else if (config.method === "proportional") stake = currentBankroll * config.proportion;
+  else stake = currentBankroll * config.kellyFraction * kellyFraction(probModel, odds);
+
+  // No stake on bets the model does not consider +EV
+  if (probModel * odds <= 1) return 0;
+  return Math.round(Math.max(0, Math.min(stake, config.maxStake, currentBankroll)) * 100) / 100;
+}
+
+export interface StakeRequest {
+  key: string | number;
+  date: string;
+  probModel: number;
+  odds: number;
+  ev: number;
+}
+
+// Suggests stakes for a slate. Picks are funded in EV order until each
+// matchday's remaining exposure (after bets already in the ledger) runs out.
+export function suggestStakes(
+  config: StakingConfig,
+  currentBankroll: number,
+  picks: StakeRequest[],
+  existingExposure: Map<string, number>
+): Map<string | number, number> {
+  const remaining = new Map<string, number>();
+  const stakes = new Map<string | number, number>();
+
+  for (const pick of [...picks].sort((a, b) => b.ev - a.ev)) {
+    const day = pick.date.slice(0, 10);
+    if (!remaining.has(day)) {
+      remaining.set(day, Math.max(0, config.maxMatchdayExposure - (existingExposure.get(day) || 0)));
+    }
+    const stake = Math.min(rawStake(config, currentBankroll, pick.probModel, pick.odds), remaining.get(day)!);
+    const rounded = Math.round(stake * 100) / 100;
+    remaining.set(day, remaining.get(day)! - rounded);
+    stakes.set(pick.key, rounded);
+  }
+  return stakes;
+}
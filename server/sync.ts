@@ -0,0 +1,123 @@
+import { format, addDays, subDays } from "date-fns";
+import { db } from "./db";
+import { addTeamAlias, setAlias } from "./aliases";
+import { settleOpenBets } from "./ledger";
+import { ProviderMatch, fixtureProvider } from "./providers";
+
+// --- Match Storage ---
+// Upserts provider matches. Corners come from a separate import, so an
+// update must never wipe them (INSERT OR REPLACE would).
+function storeMatches(matches: ProviderMatch[], source: string, competitionId?: number) {
+  const stmtMatch = db.prepare(`
+    INSERT INTO matches (
+      id, utc_date, status, league_id, home_team_id, away_team_id,
+      home_score_full, away_score_full, home_score_h1, away_score_h1, home_score_h2, away_score_h2
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      utc_date = excluded.utc_date,
+      status = excluded.status,
+      league_id = excluded.league_id,
+      home_team_id = excluded.home_team_id,
+      away_team_id = excluded.away_team_id,
+      home_score_full = COALESCE(excluded.home_score_full, matches.home_score_full),
+      away_score_full = COALESCE(excluded.away_score_full, matches.away_score_full),
+      home_score_h1 = COALESCE(excluded.home_score_h1, matches.home_score_h1),
+      away_score_h1 = COALESCE(excluded.away_score_h1, matches.away_score_h1),
+      home_score_h2 = COALESCE(excluded.home_score_h2, matches.home_score_h2),
+      away_score_h2 = COALESCE(excluded.away_score_h2, matches.away_score_h2)
+  `);
+  const stmtTeam = db.prepare(`INSERT OR IGNORE INTO teams (id, name, league_id) VALUES (?, ?, ?)`);
+
+  db.transaction(() => {
+    for (const m of matches) {
+      const leagueId = m.competitionId ?? competitionId;
+      for (const team of [m.homeTeam, m.awayTeam]) {
+        stmtTeam.run(team.id, team.name, leagueId);
+        if (team.name) addTeamAlias(team.name, team.id, source);
+        if (team.shortName) addTeamAlias(team.shortName, team.id, source);
+      }
+      const homeH2 = m.homeScore !== null && m.homeScoreH1 !== null ? m.homeScore - m.homeScoreH1 : null;
+      const awayH2 = m.awayScore !== null && m.awayScoreH1 !== null ? m.awayScore - m.awayScoreH1 : null;
+      stmtMatch.run(
+        m.id, m.utcDate, m.status, leagueId, m.homeTeam.id, m.awayTeam.id,
+        m.homeScore, m.awayScore, m.homeScoreH1, m.awayScoreH1, homeH2, awayH2
+      );
+    }
+  })();
+}
+
+// --- API Services ---
+// Errors propagate so the scheduler can record them against the run.
+export async function syncLeagues() {
+  const provider = fixtureProvider();
+  const competitions = await provider.competitions();
+  const stmt = db.prepare("INSERT OR REPLACE INTO leagues (id, name, code) VALUES (?, ?, ?)");
+  for (const c of competitions) {
+    stmt.run(c.id, c.name, c.code);
+    if (c.name) setAlias("competition", c.name, c.id, provider.name);
+    if (c.code) setAlias("competition", c.code, c.id, provider.name);
+  }
+  console.log(`Synced ${competitions.length} leagues`);
+  return competitions.length;
+}
+
+export async function syncFixtures() {
+  // Fetch matches for the next 10 days across all available competitions
+  const dateFrom = format(new Date(), "yyyy-MM-dd");
+  const dateTo = format(addDays(new Date(), 10), "yyyy-MM-dd");
+
+  const provider = fixtureProvider();
+  const matches = await provider.matches({ dateFrom, dateTo });
+  storeMatches(matches, provider.name);
+  // Fixtures that just went to FINISHED settle the bets placed on them
+  settleOpenBets();
+
+  console.log(`Synced ${matches.length} fixtures from all available worldwide leagues`);
+  return matches.length;
+}
+
+// Final scores of the last few days, so results reach the ratings and the
+// ledger even when a fixture has dropped out of the upcoming window.
+export async function syncResults(days = 3) {
+  const dateFrom = format(subDays(new Date(), days), "yyyy-MM-dd");
+  const dateTo = format(new Date(), "yyyy-MM-dd");
+
+  const provider = fixtureProvider();
+  const matches = await provider.matches({ dateFrom, dateTo, status: "FINISHED" });
+  storeMatches(matches, provider.name);
+  settleOpenBets();
+
+  console.log(`Synced ${matches.length} results`);
+  return matches.length;
+}
+
+// Pulls complete past seasons per competition so the ratings have results
+// (full-time and half-time scores) to train on. Seasons are identified by their
+// starting year; by default the current and the two previous ones.
+export async function backfillResults(options: { seasons?: number[]; competitions?: string[] } = {}) {
+  const startYear = new Date().getMonth() >= 6 ? new Date().getFullYear() : new Date().getFullYear() - 1;
+  const seasons = options.seasons ?? [startYear, startYear - 1, startYear - 2];
+  const leagues = db.prepare("SELECT id, code FROM leagues WHERE code IS NOT NULL").all() as any[];
+  const targets = options.competitions
+    ? leagues.filter(l => options.competitions!.includes(l.code))
+    : leagues;
+
+  const provider = fixtureProvider();
+  let stored = 0;
+  for (const league of targets) {
+    for (const season of seasons) {
+      try {
+        const matches = await provider.season(league.code, season);
+        storeMatches(matches, provider.name, league.id);
+        stored += matches.length;
+        console.log(`Backfilled ${matches.length} matches for ${league.code} ${season}`);
+      } catch (error: any) {
+        // Past seasons outside football-data.org's plan tier answer 403; skip and carry on.
+        console.error(`Error backfilling ${league.code} ${season}:`, error.response?.status ?? error);
+      }
+    }
+  }
+  settleOpenBets();
+  return stored;
+}
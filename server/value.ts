@@ -0,0 +1,35 @@
+// --- Value Metrics ---
+// Compares the model probability with the combo prices on offer: the average
+// across bookmakers, the best one, and the edge and EV of backing at the best.
+// The market's own view (probImplied) is the margin-free fair combo price
+// when every leg can be de-vigged, otherwise 1 / best odd.
+export interface ValueMetrics {
+  probModel: number;
+  oddAvg: number;
+  bestOdd: number;
+  fairOdds: number | null;
+  probImplied: number;
+  edge: number;
+  ev: number;
+}
+
+export function valueMetrics(probModel: number, offered: number[], fairOdds: number | null = null): ValueMetrics {
+  const oddAvg = offered.reduce((sum, o) => sum + o, 0) / offered.length;
+  const bestOdd = Math.max(...offered);
+  const probImplied = fairOdds ? 1 / fairOdds : 1 / bestOdd;
+  return {
+    probModel,
+    oddAvg,
+    bestOdd,
+    fairOdds,
+    probImplied,
+    edge: probModel - probImplied,
+    ev: (probModel * bestOdd) - 1
+  };
+}
+
+// The EV threshold shared by the opportunities list and the backtest: without
+// one only positive-EV picks pass, and a given minimum is inclusive.
+export function meetsMinEv(value: ValueMetrics, minEv?: number) {
+  return minEv === undefined ? value.ev > 0 : value.ev >= minEv;
+}
@@ -7,44 +7,153 @@ import {
   Info, 
   RefreshCw,
   ChevronRight,
-  AlertCircle
+  AlertCircle,
+  Wallet,
+  Target,
+  BarChart3,
+  Radio,
+  Scale,
+  Bell,
+  Link2,
+  Star,
+  SlidersHorizontal,
+  ListPlus,
+  ListX
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-
-interface AnalyzedMatch {
-  id: number;
-  homeTeam: string;
-  awayTeam: string;
-  league: string;
-  date: string;
-  probModel: number;
-  oddAvg: number;
-  bestOdd: number;
-  probImplied: number;
-  edge: number;
-  ev: number;
-  confidence: string;
-  isTeamYHome: boolean;
-}
+import { FilterPreset, Market, ModelChoice, Opportunity, OpportunityPage, User, WatchlistItem } from './types';
+import BreakdownPanel from './components/BreakdownPanel';
+import BankrollPage from './components/BankrollPage';
+import CalibrationPage from './components/CalibrationPage';
+import SyncStatusBadge from './components/SyncStatusBadge';
+import MatchDetailPage from './components/MatchDetailPage';
+import LivePage from './components/LivePage';
+import ArbsPage from './components/ArbsPage';
+import AlertsPage from './components/AlertsPage';
+import PlaceBetButton from './components/PlaceBetButton';
+import ExportPanel from './components/ExportPanel';
+import EntitiesPage from './components/EntitiesPage';
+import AccountMenu from './components/AccountMenu';
+import FilterPresets from './components/FilterPresets';
+import FollowingPage from './components/FollowingPage';
+import ModelPicker, { DEFAULT_MODEL, applyModel } from './components/ModelPicker';
+import AdjustmentEditor from './components/AdjustmentEditor';
+import BetSlip from './components/BetSlip';
 
 export default function App() {
-  const [matches, setMatches] = useState<AnalyzedMatch[]>([]);
+  const [matches, setMatches] = useState<Opportunity[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [leagueOptions, setLeagueOptions] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [filterLeague, setFilterLeague] = useState('All');
   const [minEdge, setMinEdge] = useState(0);
   const [sortBy, setSortBy] = useState<'ev' | 'edge' | 'date'>('ev');
   const [syncing, setSyncing] = useState(false);
+  const [syncCount, setSyncCount] = useState(0);
+  const [markets, setMarkets] = useState<Market[]>([]);
+  const [marketId, setMarketId] = useState<string | null>(null);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [adjustingKey, setAdjustingKey] = useState<string | null>(null);
+  const [detail, setDetail] = useState<{ matchId: number; marketId: string } | null>(null);
+  const [followedOnly, setFollowedOnly] = useState(false);
+  const [model, setModel] = useState<ModelChoice>(DEFAULT_MODEL);
+  const [view, setView] = useState<'matches' | 'live' | 'arbs' | 'following' | 'bankroll' | 'calibration' | 'alerts' | 'names'>('matches');
+  const [user, setUser] = useState<User | null>(null);
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
+  const [slip, setSlip] = useState<Opportunity[]>([]);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(response => response.json())
+      .then(setUser)
+      .catch(error => console.error('Error fetching account:', error));
+  }, []);
+
+  // Personal views and filters reset when the account changes
+  useEffect(() => {
+    if (user) {
+      fetch('/api/me/watchlist')
+        .then(response => response.json())
+        .then(setWatchlist)
+        .catch(error => console.error('Error fetching watchlist:', error));
+    } else {
+      setWatchlist([]);
+      setFollowedOnly(false);
+      if (view === 'following' || view === 'alerts' || view === 'names') setView('matches');
+    }
+  }, [user]);
 
   useEffect(() => {
-    fetchMatches();
+    fetch('/api/markets')
+      .then(response => response.json())
+      .then((data: Market[]) => {
+        setMarkets(data);
+        if (data.length > 0) setMarketId(data[0].id);
+      })
+      .catch(error => console.error('Error fetching markets:', error));
   }, []);
 
+  useEffect(() => {
+    if (marketId) fetchMatches();
+  }, [marketId, filterLeague, minEdge, sortBy, followedOnly, model]);
+
+  const selectedMarket = markets.find(m => m.id === marketId);
+
+  // Filtering, sorting and paging happen server-side
+  const opportunityParams = () => {
+    const params = new URLSearchParams({ market: marketId ?? '', sort: sortBy });
+    if (filterLeague !== 'All') params.set('league', filterLeague);
+    if (minEdge !== 0) params.set('minEdge', String(minEdge));
+    if (followedOnly) params.set('followed', 'true');
+    return applyModel(params, model);
+  };
+
+  const applyPreset = (params: FilterPreset['params']) => {
+    if (params.market) setMarketId(String(params.market));
+    setFilterLeague(params.league ? String(params.league) : 'All');
+    setMinEdge(Number(params.minEdge) || 0);
+    if (params.sort === 'ev' || params.sort === 'edge' || params.sort === 'date') setSortBy(params.sort);
+    setFollowedOnly(params.followed === 'true' || params.followed === true);
+    setModel({
+      goals: (params.goalModel as ModelChoice['goals']) || DEFAULT_MODEL.goals,
+      corners: (params.cornerModel as ModelChoice['corners']) || DEFAULT_MODEL.corners,
+      gameState: params.gameState === 'true' || params.gameState === true
+    });
+  };
+
+  const toggleWatch = async (matchId: number) => {
+    const watched = watchlist.some(w => w.matchId === matchId);
+    try {
+      const response = await fetch(`/api/me/watchlist/${matchId}`, { method: watched ? 'DELETE' : 'PUT' });
+      if (response.ok) setWatchlist(await response.json());
+    } catch (error) {
+      console.error('Error updating watchlist:', error);
+    }
+  };
+
+  const toggleSlip = (opportunity: Opportunity) => {
+    setSlip(current => current.some(s => s.key === opportunity.key)
+      ? current.filter(s => s.key !== opportunity.key)
+      : [...current, opportunity]);
+  };
+
+  const opportunityQuery = (cursor?: string) => {
+    const params = opportunityParams();
+    if (cursor) params.set('cursor', cursor);
+    return `/api/opportunities?${params}`;
+  };
+
   const fetchMatches = async () => {
     setLoading(true);
     try {
-      const response = await fetch('/api/analysis');
-      const data = await response.json();
-      setMatches(data);
+      const response = await fetch(opportunityQuery());
+      const data: OpportunityPage = await response.json();
+      setMatches(data.items);
+      setTotal(data.total);
+      setNextCursor(data.nextCursor);
+      setLeagueOptions(data.leagues);
     } catch (error) {
       console.error('Error fetching matches:', error);
     } finally {
@@ -52,6 +161,21 @@ export default function App() {
     }
   };
 
+  const fetchMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const response = await fetch(opportunityQuery(nextCursor));
+      const data: OpportunityPage = await response.json();
+      setMatches(current => [...current, ...data.items]);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error('Error fetching matches:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleSync = async () => {
     setSyncing(true);
     try {
@@ -61,19 +185,22 @@ export default function App() {
       console.error('Sync failed:', error);
     } finally {
       setSyncing(false);
+      setSyncCount(c => c + 1);
     }
   };
 
-  const filteredMatches = matches
-    .filter(m => filterLeague === 'All' || m.league === filterLeague)
-    .filter(m => m.edge >= minEdge)
-    .sort((a, b) => {
-      if (sortBy === 'ev') return b.ev - a.ev;
-      if (sortBy === 'edge') return b.edge - a.edge;
-      return new Date(a.date).getTime() - new Date(b.date).getTime();
-    });
-
-  const leagues = ['All', ...new Set(matches.map(m => m.league))];
+  const leagues = ['All', ...leagueOptions];
+  const isAdmin = user?.role === 'admin';
+  const tabs = ([
+    ['matches', TrendingUp, 'Value Bets'],
+    ['live', Radio, 'Live'],
+    ['arbs', Scale, 'Arbs'],
+    ['following', Star, 'Following'],
+    ['bankroll', Wallet, 'Bankroll'],
+    ['calibration', Target, 'Calibration'],
+    ['alerts', Bell, 'Alerts'],
+    ['names', Link2, 'Names']
+  ] as const).filter(([v]) => (v !== 'following' || user) && ((v !== 'alerts' && v !== 'names') || isAdmin));
 
   return (
     <div className="min-h-screen bg-[#0A0A0B] text-zinc-100 font-sans selection:bg-emerald-500/30">
@@ -86,7 +213,24 @@ export default function App() {
             </div>
             <h1 className="text-xl font-bold tracking-tight">FootyValue <span className="text-emerald-500">AI</span></h1>
           </div>
-          
+
+          <nav className="flex bg-white/5 p-1 rounded-full border border-white/10">
+            {tabs.map(([v, Icon, label]) => (
+              <button
+                key={v}
+                onClick={() => { setView(v); setDetail(null); }}
+                className={`flex items-center gap-2 px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wider transition-all ${
+                  view === v ? 'bg-emerald-500 text-black' : 'text-zinc-400 hover:text-zinc-200'
+                }`}
+              >
+                <Icon className="w-3.5 h-3.5" /> {label}
+              </button>
+            ))}
+          </nav>
+
+          <div className="flex items-center gap-4">
+          <SyncStatusBadge refreshKey={syncCount} />
+          {isAdmin && (
           <button 
             onClick={handleSync}
             disabled={syncing}
@@ -95,22 +239,63 @@ export default function App() {
             <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
             {syncing ? 'Syncing...' : 'Refresh Data'}
           </button>
+          )}
+          <AccountMenu user={user} onChange={setUser} />
+          </div>
         </div>
       </header>
 
-      <main className="max-w-7xl mx-auto px-4 py-8">
+      <main className={`max-w-7xl mx-auto px-4 py-8 ${slip.length > 0 && view === 'matches' && detail === null ? 'lg:pr-[26rem]' : ''}`}>
+        {view === 'live' ? (
+          <LivePage markets={markets} initialMarketId={marketId} model={model} />
+        ) : view === 'arbs' ? (
+          <ArbsPage />
+        ) : view === 'following' ? (
+          <FollowingPage watchlist={watchlist} onUnwatch={toggleWatch} />
+        ) : view === 'bankroll' ? (
+          user ? <BankrollPage /> : (
+            <div className="text-center py-20 border border-dashed border-white/10 rounded-3xl">
+              <Wallet className="w-12 h-12 text-zinc-600 mx-auto mb-4" />
+              <p className="text-zinc-400">Sign in to keep your own bet ledger and bankroll.</p>
+            </div>
+          )
+        ) : view === 'calibration' ? (
+          <CalibrationPage />
+        ) : view === 'alerts' ? (
+          <AlertsPage markets={markets} />
+        ) : view === 'names' ? (
+          <EntitiesPage />
+        ) : detail !== null ? (
+          <MatchDetailPage matchId={detail.matchId} marketId={detail.marketId} model={model} onBack={() => setDetail(null)} />
+        ) : (
+        <>
         {/* Market Definition Banner */}
         <div className="mb-8 p-4 rounded-2xl bg-emerald-500/5 border border-emerald-500/20 flex items-start gap-4">
           <div className="p-2 bg-emerald-500/10 rounded-xl">
             <ShieldCheck className="w-6 h-6 text-emerald-500" />
           </div>
-          <div>
-            <h2 className="text-emerald-400 font-semibold mb-1">Target Combined Market</h2>
+          <div className="flex-1">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+              <h2 className="text-emerald-400 font-semibold">Target Combined Market</h2>
+              <select
+                value={marketId ?? ''}
+                onChange={(e) => setMarketId(e.target.value)}
+                className="bg-white/5 border border-emerald-500/20 rounded-lg px-3 py-1 text-xs text-zinc-300 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+              >
+                {markets.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                <option value="all">All markets</option>
+              </select>
+            </div>
             <p className="text-zinc-400 text-sm leading-relaxed">
-              U3.5 Goals (1st Half) + U3.5 Goals (2nd Half) + Team Y Wins a Half + Over 5.5 Corners.
+              {selectedMarket
+                ? selectedMarket.legs.map(leg => leg.label).join(' + ')
+                : marketId === 'all' ? 'Every market in the catalogue, each with either team as Team Y.' : 'Loading market...'}
               <br />
-              <span className="text-zinc-500 italic">Analyzed via Monte Carlo Simulation (20,000 iterations).</span>
+              <span className="text-zinc-500 italic">Priced exactly from per-half score grids, with seeded Monte Carlo (20,000 iterations) on request.</span>
             </p>
+            <div className="mt-3">
+              <ModelPicker model={model} onChange={setModel} />
+            </div>
           </div>
         </div>
 
@@ -164,18 +349,33 @@ export default function App() {
           <div className="flex items-end">
             <div className="w-full bg-emerald-500/10 border border-emerald-500/20 rounded-xl px-4 py-2.5 flex items-center justify-between">
               <span className="text-xs font-bold text-emerald-400 uppercase tracking-wider">Total Value Found</span>
-              <span className="text-lg font-mono font-bold text-emerald-500">{filteredMatches.length}</span>
+              <span className="text-lg font-mono font-bold text-emerald-500">{total}</span>
             </div>
           </div>
         </div>
 
+        {user && (
+          <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
+            <FilterPresets
+              current={Object.fromEntries(opportunityParams())}
+              onApply={applyPreset}
+            />
+            <label className="flex items-center gap-2 text-xs uppercase tracking-widest text-zinc-500 font-bold cursor-pointer">
+              <input type="checkbox" checked={followedOnly} onChange={(e) => setFollowedOnly(e.target.checked)} className="accent-emerald-500" />
+              <Star className="w-3 h-3" /> Followed only
+            </label>
+          </div>
+        )}
+
+        <ExportPanel params={opportunityParams()} />
+
         {/* Match List */}
         {loading ? (
           <div className="flex flex-col items-center justify-center py-20 gap-4">
             <RefreshCw className="w-12 h-12 text-emerald-500 animate-spin" />
             <p className="text-zinc-500 font-medium">Running simulations and fetching odds...</p>
           </div>
-        ) : filteredMatches.length === 0 ? (
+        ) : matches.length === 0 ? (
           <div className="text-center py-20 border border-dashed border-white/10 rounded-3xl">
             <AlertCircle className="w-12 h-12 text-zinc-600 mx-auto mb-4" />
             <p className="text-zinc-400">No value bets found with current filters.</p>
@@ -183,18 +383,19 @@ export default function App() {
         ) : (
           <div className="grid gap-4">
             <AnimatePresence mode="popLayout">
-              {filteredMatches.map((match) => (
+              {matches.map((match) => (
                 <motion.div
                   layout
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, scale: 0.95 }}
-                  key={match.id}
+                  key={match.key}
+                  onClick={() => setExpandedKey(expandedKey === match.key ? null : match.key)}
                   className="group relative bg-white/5 border border-white/10 rounded-2xl p-6 hover:bg-white/[0.07] transition-all cursor-pointer overflow-hidden"
                 >
                   {/* Confidence Badge */}
                   <div className={`absolute top-0 right-0 px-4 py-1 rounded-bl-xl text-[10px] font-black uppercase tracking-widest ${
-                    match.confidence === 'High' ? 'bg-emerald-500 text-black' : 'bg-amber-500 text-black'
+                    match.confidence === 'High' ? 'bg-emerald-500 text-black' : match.confidence === 'Medium' ? 'bg-amber-500 text-black' : 'bg-zinc-700 text-zinc-200'
                   }`}>
                     {match.confidence} Confidence
                   </div>
@@ -205,6 +406,9 @@ export default function App() {
                       <div className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-2 flex items-center gap-2">
                         {match.league} • {new Date(match.date).toLocaleDateString()}
                       </div>
+                      {marketId === 'all' && (
+                        <div className="text-[10px] font-black text-emerald-500 uppercase tracking-widest mb-2">{match.marketName}</div>
+                      )}
                       <div className="flex items-center gap-4">
                         <div className="flex-1">
                           <div className="text-lg font-bold flex items-center gap-2">
@@ -224,13 +428,23 @@ export default function App() {
                       <div>
                         <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1">Model Prob.</div>
                         <div className="text-xl font-mono font-bold text-white">{(match.probModel * 100).toFixed(1)}%</div>
+                        {match.probUnadjusted !== null && (
+                          <div className="text-[10px] font-mono text-amber-400" title="Team news adjustments are applied; this is the model alone">
+                            unadjusted {(match.probUnadjusted * 100).toFixed(1)}%
+                          </div>
+                        )}
                       </div>
                       <div>
                         <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1">Best Odd</div>
                         <div className="text-xl font-mono font-bold text-emerald-500">{match.bestOdd.toFixed(2)}</div>
                       </div>
                       <div>
-                        <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1">Implied</div>
+                        <div
+                          className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1"
+                          title={match.fairOdds ? `Margin-free fair odds ${match.fairOdds.toFixed(2)}` : 'No complete book for every leg: 1 / best odd'}
+                        >
+                          {match.fairOdds ? 'Fair' : 'Implied'}
+                        </div>
                         <div className="text-xl font-mono font-bold text-zinc-400">{(match.probImplied * 100).toFixed(1)}%</div>
                       </div>
                     </div>
@@ -250,14 +464,82 @@ export default function App() {
                           {match.ev > 0 ? '+' : ''}{match.ev.toFixed(2)}
                         </div>
                       </div>
-                      <ChevronRight className="w-5 h-5 text-zinc-700 group-hover:text-emerald-500 transition-colors ml-2" />
+                      <ChevronRight className={`w-5 h-5 text-zinc-700 group-hover:text-emerald-500 transition-all ml-2 ${expandedKey === match.key ? 'rotate-90 text-emerald-500' : ''}`} />
                     </div>
                   </div>
+
+                  <div className="mt-4 flex justify-end items-center gap-2">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setDetail({ matchId: match.matchId, marketId: match.marketId }); }}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-xs font-bold transition-all"
+                    >
+                      <BarChart3 className="w-3.5 h-3.5" /> Match details
+                    </button>
+                    {user && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); toggleWatch(match.matchId); }}
+                        className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 transition-all"
+                        title={watchlist.some(w => w.matchId === match.matchId) ? 'Unwatch match' : 'Watch match'}
+                      >
+                        <Star className={`w-3.5 h-3.5 ${watchlist.some(w => w.matchId === match.matchId) ? 'fill-amber-400 text-amber-400' : 'text-zinc-400'}`} />
+                      </button>
+                    )}
+                    {user && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); setAdjustingKey(adjustingKey === match.key ? null : match.key); }}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-xs font-bold transition-all ${
+                          match.probUnadjusted !== null ? 'bg-amber-500/10 border-amber-500/30 text-amber-400' : 'bg-white/5 hover:bg-white/10 border-white/10'
+                        }`}
+                      >
+                        <SlidersHorizontal className="w-3.5 h-3.5" /> Team news
+                      </button>
+                    )}
+                    <button
+                      onClick={(e) => { e.stopPropagation(); toggleSlip(match); }}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-xs font-bold transition-all ${
+                        slip.some(s => s.key === match.key) ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-white/5 hover:bg-white/10 border-white/10'
+                      }`}
+                    >
+                      {slip.some(s => s.key === match.key)
+                        ? <><ListX className="w-3.5 h-3.5" /> In slip</>
+                        : <><ListPlus className="w-3.5 h-3.5" /> Add to slip</>}
+                    </button>
+                    {user && <PlaceBetButton opportunity={match} onPlaced={fetchMatches} />}
+                  </div>
+
+                  {user && adjustingKey === match.key && (
+                    <AdjustmentEditor matchId={match.matchId} homeTeam={match.homeTeam} awayTeam={match.awayTeam} onChange={fetchMatches} />
+                  )}
+
+                  <AnimatePresence>
+                    {expandedKey === match.key && (
+                      <BreakdownPanel breakdown={match.breakdown} uncertainty={match.uncertainty} />
+                    )}
+                  </AnimatePresence>
                 </motion.div>
               ))}
             </AnimatePresence>
+            {nextCursor && (
+              <button
+                onClick={fetchMore}
+                disabled={loadingMore}
+                className="w-full py-4 rounded-2xl border border-white/10 text-xs font-black uppercase tracking-widest text-zinc-400 hover:text-emerald-400 hover:border-emerald-500/30 transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : `Load more (${total - matches.length} remaining)`}
+              </button>
+            )}
           </div>
         )}
+        {slip.length > 0 && (
+          <BetSlip
+            selections={slip}
+            model={model}
+            onRemove={(key) => setSlip(current => current.filter(s => s.key !== key))}
+            onClear={() => setSlip([])}
+          />
+        )}
+        </>
+        )}
       </main>
 
       {/* Footer Info */}
@@ -271,7 +553,7 @@ export default function App() {
               <h3 className="font-bold text-sm uppercase tracking-widest">Methodology</h3>
             </div>
             <p className="text-xs text-zinc-500 leading-relaxed">
-              Our model uses Poisson distribution for goal modeling and Monte Carlo simulations (20k runs per match) to estimate the probability of complex combined markets.
+              Our model uses Poisson goal distributions by default (Dixon-Coles, bivariate Poisson and negative-binomial corners are selectable) and sums exact per-half score grids (or runs seeded Monte Carlo simulations) to estimate the probability of complex combined markets.
             </p>
           </div>
           <div className="space-y-4">
@@ -293,7 +575,7 @@ export default function App() {
               <h3 className="font-bold text-sm uppercase tracking-widest">Data Sources</h3>
             </div>
             <p className="text-xs text-zinc-500 leading-relaxed">
-              Stats provided by football-data.org. Odds aggregated from The Odds API. Data is updated every 6 hours or upon manual refresh.
+              Stats provided by football-data.org. Odds aggregated from The Odds API. Data is synced in the background on a schedule (see the header) or upon manual refresh.
             </p>
           </div>
         </div>
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { LogIn, LogOut, User as UserIcon } from 'lucide-react';
+import { User } from '../types';
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50';
+
+interface Props {
+  user: User | null;
+  onChange: (user: User | null) => void;
+}
+
+// Header sign-in / register form, or the signed-in user with a sign-out button.
+export default function AccountMenu({ user, onChange }: Props) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setPassword('');
+      setOpen(false);
+      onChange(data);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    onChange(null);
+  };
+
+  if (user) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <UserIcon className="w-4 h-4 text-zinc-500" />
+        <span className="font-medium">{user.username}</span>
+        {user.role === 'admin' && (
+          <span className="px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-400 text-[10px] font-black uppercase tracking-widest">Admin</span>
+        )}
+        <button onClick={logout} className="p-2 rounded-full text-zinc-400 hover:text-zinc-200" title="Sign out">
+          <LogOut className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 hover:bg-white/10 transition-all text-sm font-medium border border-white/10"
+      >
+        <LogIn className="w-4 h-4" /> Sign in
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 p-4 rounded-2xl bg-zinc-900 border border-white/10 shadow-xl space-y-3">
+          <div className="flex bg-white/5 p-1 rounded-xl border border-white/10">
+            {(['login', 'register'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`flex-1 py-1.5 text-xs font-bold uppercase tracking-wider rounded-lg transition-all ${
+                  mode === m ? 'bg-emerald-500 text-black' : 'text-zinc-400 hover:text-zinc-200'
+                }`}
+              >
+                {m === 'login' ? 'Sign in' : 'Register'}
+              </button>
+            ))}
+          </div>
+          <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" className={inputClass} />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+            placeholder="Password"
+            className={inputClass}
+          />
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+          <button
+            onClick={submit}
+            disabled={!username || !password}
+            className="w-full py-2 rounded-xl bg-emerald-500 text-black text-xs font-bold uppercase tracking-wider disabled:opacity-50"
+          >
+            {mode === 'login' ? 'Sign in' : 'Create account'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { History, Plus, Power, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { Adjustment, AdjustmentKind, AdjustmentLogEntry, AdjustmentState, AdjustmentTarget } from '../types';
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500/50';
+
+interface Props {
+  matchId: number;
+  homeTeam: string;
+  awayTeam: string;
+  onChange: () => void;
+}
+
+// Manual team-news adjustments to one match's expected goals and corners.
+// Every change, including switching one off, needs a reason for the audit log.
+export default function AdjustmentEditor({ matchId, homeTeam, awayTeam, onChange }: Props) {
+  const [adjustments, setAdjustments] = useState<Adjustment[]>([]);
+  const [log, setLog] = useState<AdjustmentLogEntry[]>([]);
+  const [showLog, setShowLog] = useState(false);
+  const [target, setTarget] = useState<AdjustmentTarget>('homeExpG');
+  const [kind, setKind] = useState<AdjustmentKind>('percent');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const targets: [AdjustmentTarget, string][] = [
+    ['homeExpG', `${homeTeam} goals`],
+    ['awayExpG', `${awayTeam} goals`],
+    ['homeExpC', `${homeTeam} corners`],
+    ['awayExpC', `${awayTeam} corners`]
+  ];
+  const describe = (a: AdjustmentState) => {
+    const label = targets.find(([t]) => t === a.target)![1];
+    return a.kind === 'percent' ? `${label} ${a.value > 0 ? '+' : ''}${a.value}%` : `${label} set to ${a.value}`;
+  };
+
+  const load = async () => {
+    try {
+      const response = await fetch(`/api/matches/${matchId}/adjustments`);
+      const data = await response.json();
+      setAdjustments(data.adjustments);
+      setLog(data.log);
+    } catch (err) {
+      console.error('Error fetching adjustments:', err);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [matchId]);
+
+  const send = async (url: string, method: string, body: Record<string, any>) => {
+    setError(null);
+    try {
+      const response = await fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      if (!response.ok) throw new Error((await response.json()).error);
+      setReason('');
+      setValue('');
+      await load();
+      onChange();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save adjustment');
+    }
+  };
+
+  return (
+    <div onClick={(e) => e.stopPropagation()} className="mt-4 pt-4 border-t border-white/5 space-y-3 cursor-default">
+      <div className="flex items-center gap-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+        <SlidersHorizontal className="w-3.5 h-3.5" /> Team news adjustments
+      </div>
+
+      {adjustments.length === 0 && <p className="text-xs text-zinc-500 italic">No adjustments: the model's inputs are used as fitted.</p>}
+      {adjustments.map(a => (
+        <div key={a.id} className={`flex flex-wrap items-center gap-3 text-xs ${a.active ? '' : 'opacity-50'}`}>
+          <span className="font-mono font-bold text-white">{describe(a)}</span>
+          <span className="text-zinc-400 italic flex-1">{a.reason}</span>
+          <span className="text-zinc-500">{a.createdBy ?? 'unknown'} · {new Date(a.createdAt).toLocaleString()}</span>
+          <button
+            onClick={() => send(`/api/adjustments/${a.id}`, 'PUT', { active: !a.active, reason })}
+            disabled={!reason}
+            className="p-1 text-zinc-400 hover:text-emerald-400 disabled:opacity-30"
+            title={a.active ? 'Switch off (enter a reason first)' : 'Switch on (enter a reason first)'}
+          >
+            <Power className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => send(`/api/adjustments/${a.id}`, 'DELETE', { reason })}
+            disabled={!reason}
+            className="p-1 text-zinc-400 hover:text-rose-400 disabled:opacity-30"
+            title="Delete (enter a reason first)"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={target} onChange={(e) => setTarget(e.target.value as AdjustmentTarget)} className={inputClass}>
+          {targets.map(([t, label]) => <option key={t} value={t}>{label}</option>)}
+        </select>
+        <select value={kind} onChange={(e) => setKind(e.target.value as AdjustmentKind)} className={inputClass}>
+          <option value="percent">change by %</option>
+          <option value="absolute">set to</option>
+        </select>
+        <input
+          type="number"
+          step={kind === 'percent' ? 5 : 0.1}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={kind === 'percent' ? '-15' : '1.2'}
+          className={`w-20 font-mono ${inputClass}`}
+        />
+        <input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason (required)" className={`flex-1 min-w-40 ${inputClass}`} />
+        <button
+          onClick={() => send(`/api/matches/${matchId}/adjustments`, 'POST', { target, kind, value: Number(value), reason })}
+          disabled={!reason || value === ''}
+          className="flex items-center gap-1 px-3 py-1 rounded-lg bg-emerald-500 text-black text-xs font-bold disabled:opacity-50"
+        >
+          <Plus className="w-3.5 h-3.5" /> Add
+        </button>
+      </div>
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+
+      {log.length > 0 && (
+        <div className="space-y-1">
+          <button
+            onClick={() => setShowLog(!showLog)}
+            className="flex items-center gap-1.5 text-[10px] font-black text-zinc-500 uppercase tracking-widest hover:text-zinc-300"
+          >
+            <History className="w-3.5 h-3.5" /> Audit log ({log.length})
+          </button>
+          {showLog && log.map(entry => (
+            <div key={entry.id} className="text-xs text-zinc-400">
+              <span className="text-zinc-500">{new Date(entry.at).toLocaleString()}</span>{' '}
+              <span className="font-bold text-zinc-300">{entry.user ?? 'unknown'}</span>{' '}
+              {entry.action === 'create' && `added ${describe(entry.after!)}`}
+              {entry.action === 'update' && `changed ${describe(entry.before!)} to ${describe(entry.after!)}${entry.before!.active !== entry.after!.active ? (entry.after!.active ? ' (on)' : ' (off)') : ''}`}
+              {entry.action === 'delete' && `deleted ${describe(entry.before!)}`}
+              {' — '}<span className="italic">{entry.reason}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
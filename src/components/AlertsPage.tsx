@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, Pencil, Play, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { AlertDelivery, AlertFormat, AlertRule, Market } from '../types';
+
+interface Props {
+  markets: Market[];
+}
+
+interface RuleForm {
+  name: string;
+  format: AlertFormat;
+  url: string;
+  chatId: string;
+  market: string;
+  leagues: string;
+  minEdge: number;
+  minEv: number;
+}
+
+const EMPTY_FORM: RuleForm = { name: '', format: 'json', url: '', chatId: '', market: 'all', leagues: '', minEdge: 0, minEv: 0 };
+
+const FORMAT_LABELS: Record<AlertFormat, string> = { json: 'Generic JSON', telegram: 'Telegram', discord: 'Discord' };
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50';
+
+// Webhook alert rules: which picks to send where, and the delivery log.
+export default function AlertsPage({ markets }: Props) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const load = async () => {
+    try {
+      const [rulesRes, deliveriesRes] = await Promise.all([fetch('/api/alerts/rules'), fetch('/api/alerts/deliveries')]);
+      setRules(await rulesRes.json());
+      setDeliveries(await deliveriesRes.json());
+    } catch (err) {
+      console.error('Error fetching alerts:', err);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const request = async (url: string, method: string, body?: any) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok) throw new Error((await response.json()).error);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const body = {
+        ...form,
+        chatId: form.chatId || null,
+        leagues: form.leagues.split(',').map(l => l.trim()).filter(Boolean)
+      };
+      if (editingId === null) await request('/api/alerts/rules', 'POST', body);
+      else await request(`/api/alerts/rules/${editingId}`, 'PUT', body);
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+      await load();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const edit = (rule: AlertRule) => {
+    setEditingId(rule.id);
+    setForm({
+      name: rule.name,
+      format: rule.format,
+      url: rule.url,
+      chatId: rule.chatId ?? '',
+      market: rule.market,
+      leagues: (rule.leagues ?? []).join(', '),
+      minEdge: rule.minEdge,
+      minEv: rule.minEv
+    });
+  };
+
+  const toggle = async (rule: AlertRule) => {
+    await request(`/api/alerts/rules/${rule.id}`, 'PUT', { enabled: !rule.enabled }).catch(err => setError(err.message));
+    await load();
+  };
+
+  const remove = async (rule: AlertRule) => {
+    await fetch(`/api/alerts/rules/${rule.id}`, { method: 'DELETE' });
+    if (editingId === rule.id) {
+      setEditingId(null);
+      setForm(EMPTY_FORM);
+    }
+    await load();
+  };
+
+  const runNow = async () => {
+    setRunning(true);
+    try {
+      await fetch('/api/alerts/run', { method: 'POST' });
+      await load();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const field = (label: string, input: React.ReactNode) => (
+    <div className="space-y-1">
+      <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{label}</label>
+      {input}
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Rules */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+              <Bell className="w-3.5 h-3.5" /> Alert Rules
+            </div>
+            <button
+              onClick={runNow}
+              disabled={running}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-[10px] font-bold uppercase tracking-wider text-zinc-300 hover:bg-white/10 disabled:opacity-50"
+            >
+              {running ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Play className="w-3 h-3" />} Run now
+            </button>
+          </div>
+          {rules.length === 0 && (
+            <div className="text-center py-12 bg-white/5 rounded-3xl border border-dashed border-white/10">
+              <p className="text-zinc-500">No alert rules yet.</p>
+            </div>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} className={`p-4 rounded-2xl bg-white/5 border border-white/10 flex items-center justify-between gap-4 ${rule.enabled ? '' : 'opacity-50'}`}>
+              <div className="min-w-0">
+                <div className="font-semibold">{rule.name}</div>
+                <div className="text-xs text-zinc-500 truncate">
+                  {FORMAT_LABELS[rule.format]} → {rule.url}
+                </div>
+                <div className="text-[10px] text-zinc-400 uppercase tracking-widest mt-1">
+                  {rule.market === 'all' ? 'All markets' : markets.find(m => m.id === rule.market)?.name ?? rule.market}
+                  {' • '}{rule.leagues ? rule.leagues.join(', ') : 'All leagues'}
+                  {' • '}edge ≥ {(rule.minEdge * 100).toFixed(1)}% • EV ≥ {rule.minEv.toFixed(2)}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => toggle(rule)}
+                  className={`px-2 py-1 rounded text-[10px] font-black uppercase tracking-widest ${rule.enabled ? 'bg-emerald-500 text-black' : 'bg-zinc-700 text-zinc-200'}`}
+                >
+                  {rule.enabled ? 'On' : 'Off'}
+                </button>
+                <button onClick={() => edit(rule)} className="p-1.5 text-zinc-400 hover:text-zinc-200"><Pencil className="w-3.5 h-3.5" /></button>
+                <button onClick={() => remove(rule)} className="p-1.5 text-zinc-400 hover:text-rose-400"><Trash2 className="w-3.5 h-3.5" /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Rule form */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-6 space-y-3">
+          <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{editingId === null ? 'New Rule' : 'Edit Rule'}</div>
+          {field('Name', <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} />)}
+          {field('Format', (
+            <select value={form.format} onChange={(e) => setForm({ ...form, format: e.target.value as AlertFormat })} className={inputClass}>
+              {(Object.keys(FORMAT_LABELS) as AlertFormat[]).map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+            </select>
+          ))}
+          {field('Webhook URL', <input value={form.url} onChange={(e) => setForm({ ...form, url: e.target.value })} className={inputClass} />)}
+          {form.format === 'telegram' && field('Chat ID', <input value={form.chatId} onChange={(e) => setForm({ ...form, chatId: e.target.value })} className={inputClass} />)}
+          {field('Market', (
+            <select value={form.market} onChange={(e) => setForm({ ...form, market: e.target.value })} className={inputClass}>
+              <option value="all">All markets</option>
+              {markets.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+            </select>
+          ))}
+          {field('Leagues (comma-separated, empty for all)', <input value={form.leagues} onChange={(e) => setForm({ ...form, leagues: e.target.value })} className={inputClass} />)}
+          <div className="grid grid-cols-2 gap-3">
+            {field('Min Edge (%)', (
+              <input
+                type="number"
+                step="0.5"
+                value={form.minEdge * 100}
+                onChange={(e) => setForm({ ...form, minEdge: Number(e.target.value) / 100 })}
+                className={`${inputClass} font-mono`}
+              />
+            ))}
+            {field('Min EV', (
+              <input
+                type="number"
+                step="0.01"
+                value={form.minEv}
+                onChange={(e) => setForm({ ...form, minEv: Number(e.target.value) })}
+                className={`${inputClass} font-mono`}
+              />
+            ))}
+          </div>
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+          <div className="flex gap-2">
+            {editingId !== null && (
+              <button
+                onClick={() => { setEditingId(null); setForm(EMPTY_FORM); }}
+                className="flex-1 py-2 rounded-xl border border-white/10 text-xs font-bold uppercase tracking-wider text-zinc-400"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={save}
+              disabled={saving}
+              className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-emerald-500 text-black text-xs font-bold uppercase tracking-wider disabled:opacity-50"
+            >
+              <Save className="w-3.5 h-3.5" /> Save
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Deliveries */}
+      <div className="bg-white/5 border border-white/10 rounded-2xl overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] font-black text-zinc-500 uppercase tracking-widest text-left">
+              <th className="px-4 py-3">Sent</th>
+              <th className="px-4 py-3">Rule</th>
+              <th className="px-4 py-3">Pick</th>
+              <th className="px-4 py-3">Event</th>
+              <th className="px-4 py-3 text-right">Odds</th>
+              <th className="px-4 py-3 text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {deliveries.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-zinc-500">No alerts sent yet.</td>
+              </tr>
+            )}
+            {deliveries.map(d => (
+              <tr key={d.id} className="border-t border-white/5">
+                <td className="px-4 py-2 text-xs text-zinc-400">{new Date(d.sentAt).toLocaleString()}</td>
+                <td className="px-4 py-2 text-xs">{d.ruleName ?? `#${d.ruleId}`}</td>
+                <td className="px-4 py-2 text-xs font-mono text-zinc-400">{d.opportunityKey}</td>
+                <td className="px-4 py-2 text-xs">{d.event === 'new' ? 'New pick' : 'Price improved'}</td>
+                <td className="px-4 py-2 text-right font-mono">{d.bestOdd.toFixed(2)}</td>
+                <td className="px-4 py-2 text-right">
+                  <span
+                    title={d.error ?? undefined}
+                    className={`px-2 py-0.5 rounded text-[10px] font-black uppercase tracking-widest ${d.status === 'sent' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-rose-500/20 text-rose-400'}`}
+                  >
+                    {d.status}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
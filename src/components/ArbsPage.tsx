@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Scale } from 'lucide-react';
+import { ArbitrageScan, DevigMethod } from '../types';
+
+const pct = (p: number) => `${(p * 100).toFixed(2)}%`;
+
+const MARKET_LABELS: Record<string, string> = {
+  h2h: '1X2',
+  h2h_h1: '1X2 1st Half',
+  h2h_h2: '1X2 2nd Half',
+  totals: 'Goals',
+  totals_h1: 'Goals 1st Half',
+  totals_h2: 'Goals 2nd Half',
+  totals_corners: 'Corners',
+  btts: 'Both Teams To Score'
+};
+
+function marketLabel(market: string, point: number) {
+  const label = MARKET_LABELS[market] ?? market;
+  return point ? `${label} ${point}` : label;
+}
+
+// Sure bets across bookmakers, each bookmaker's margin and the margin-free
+// fair prices the value benchmark uses.
+export default function ArbsPage() {
+  const [scan, setScan] = useState<ArbitrageScan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [method, setMethod] = useState<DevigMethod>('shin');
+  const [outlay, setOutlay] = useState(100);
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`/api/arbs?devig=${method}`)
+      .then(response => response.json())
+      .then((data: ArbitrageScan) => setScan(data))
+      .catch(error => console.error('Error fetching arbitrage scan:', error))
+      .finally(() => setLoading(false));
+  }, [method]);
+
+  if (loading || !scan) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 gap-4">
+        <RefreshCw className="w-12 h-12 text-emerald-500 animate-spin" />
+        <p className="text-zinc-500 font-medium">Scanning stored prices...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as DevigMethod)}
+          className="bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+        >
+          <option value="shin">Shin de-vig</option>
+          <option value="power">Power de-vig</option>
+          <option value="proportional">Proportional de-vig</option>
+        </select>
+        <label className="flex items-center gap-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+          Outlay
+          <input
+            type="number"
+            min={1}
+            value={outlay}
+            onChange={(e) => setOutlay(Number(e.target.value) || 0)}
+            className="w-24 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm font-mono text-zinc-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+          />
+        </label>
+      </div>
+
+      {/* Sure bets */}
+      <div className="space-y-4">
+        <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Sure Bets ({scan.arbitrages.length})</div>
+        {scan.arbitrages.length === 0 ? (
+          <div className="text-center py-12 bg-white/5 rounded-3xl border border-dashed border-white/10">
+            <p className="text-zinc-500">No combination of stored prices beats the book right now.</p>
+          </div>
+        ) : scan.arbitrages.map(arb => (
+          <div key={`${arb.matchId}:${arb.market}:${arb.point}`} className="p-6 rounded-3xl bg-white/5 border border-emerald-500/30">
+            <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+              <div>
+                <div className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-1">
+                  {arb.league} • {new Date(arb.date).toLocaleDateString()}
+                </div>
+                <div className="text-lg font-bold">{arb.homeTeam} vs {arb.awayTeam}</div>
+                <div className="text-xs text-zinc-400">{marketLabel(arb.market, arb.point)}</div>
+              </div>
+              <div className="text-right">
+                <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1">Profit</div>
+                <div className="text-2xl font-mono font-bold text-emerald-400">+{pct(arb.profit)}</div>
+              </div>
+            </div>
+            <div className="grid sm:grid-cols-3 gap-3">
+              {arb.legs.map(leg => (
+                <div key={leg.selection} className="p-3 rounded-xl bg-black/20 border border-white/5 text-sm">
+                  <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{leg.selection} @ {leg.bookmaker}</div>
+                  <div className="font-mono text-white">{leg.odds.toFixed(2)}</div>
+                  <div className="text-xs text-zinc-400 font-mono">stake {(outlay * leg.stakeShare).toFixed(2)} → {(outlay * leg.stakeShare * leg.odds).toFixed(2)}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Bookmaker margins */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-6">
+          <div className="flex items-center gap-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4">
+            <Scale className="w-3.5 h-3.5" /> Bookmaker Margins
+          </div>
+          <table className="w-full text-sm">
+            <tbody>
+              {scan.bookmakers.map(b => (
+                <tr key={b.bookmaker} className="border-t border-white/5">
+                  <td className="py-2">{b.bookmaker}</td>
+                  <td className="py-2 text-right text-xs text-zinc-500">{b.books} books</td>
+                  <td className="py-2 text-right font-mono">{pct(b.averageOverround)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Fair prices */}
+        <div className="lg:col-span-2 bg-white/5 border border-white/10 rounded-2xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black text-zinc-500 uppercase tracking-widest text-left">
+                <th className="px-4 py-3">Match</th>
+                <th className="px-4 py-3">Market</th>
+                <th className="px-4 py-3">Best / Fair</th>
+                <th className="px-4 py-3 text-right">Best Overround</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scan.books.map(book => (
+                <tr key={`${book.matchId}:${book.market}:${book.point}`} className="border-t border-white/5">
+                  <td className="px-4 py-2 text-xs">{book.homeTeam} vs {book.awayTeam}</td>
+                  <td className="px-4 py-2 text-xs text-zinc-400">{marketLabel(book.market, book.point)}</td>
+                  <td className="px-4 py-2 text-xs font-mono">
+                    {book.selections.map(s => (
+                      <span key={s.selection} className="mr-3">
+                        <span className="text-zinc-500 uppercase">{s.selection}</span> {s.odds.toFixed(2)}
+                        <span className="text-zinc-500"> / {s.fairOdds.toFixed(2)}</span>
+                      </span>
+                    ))}
+                  </td>
+                  <td className={`px-4 py-2 text-right font-mono text-xs ${book.bestOverround < 0 ? 'text-emerald-400' : 'text-zinc-300'}`}>
+                    {pct(book.bestOverround)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
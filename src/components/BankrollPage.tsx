@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileText, RefreshCw, Save } from 'lucide-react';
+import { BankrollSummary, Bet, StakingConfig } from '../types';
+
+const money = (x: number) => x.toFixed(2);
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+const STATUS_CLASSES: Record<Bet['status'], string> = {
+  open: 'bg-zinc-700 text-zinc-200',
+  won: 'bg-emerald-500 text-black',
+  lost: 'bg-rose-500 text-black',
+  void: 'bg-zinc-800 text-zinc-500'
+};
+
+function BankrollChart({ start, history }: { start: number; history: BankrollSummary['history'] }) {
+  const points = [start, ...history.map(h => h.bankroll)];
+  if (points.length < 2) {
+    return <p className="text-xs text-zinc-500 italic">The bankroll curve appears once bets settle.</p>;
+  }
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  const span = max - min || 1;
+  const path = points
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${(i / (points.length - 1)) * 100},${40 - ((p - min) / span) * 40}`)
+    .join(' ');
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32">
+      <path d={path} fill="none" stroke="currentColor" strokeWidth="0.8" vectorEffect="non-scaling-stroke" className="text-emerald-500" />
+    </svg>
+  );
+}
+
+export default function BankrollPage() {
+  const [summary, setSummary] = useState<BankrollSummary | null>(null);
+  const [bets, setBets] = useState<Bet[]>([]);
+  const [config, setConfig] = useState<StakingConfig | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    try {
+      const [summaryRes, betsRes] = await Promise.all([fetch('/api/bankroll'), fetch('/api/bets')]);
+      const data: BankrollSummary = await summaryRes.json();
+      setSummary(data);
+      setConfig(data.config);
+      setBets(await betsRes.json());
+    } catch (err) {
+      console.error('Error fetching bankroll:', err);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const save = async () => {
+    if (!config) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/bankroll/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config)
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      await load();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!summary || !config) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 gap-4">
+        <RefreshCw className="w-12 h-12 text-emerald-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const numberField = (key: keyof StakingConfig, label: string, step = '1') => (
+    <div className="space-y-1">
+      <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{label}</label>
+      <input
+        type="number"
+        step={step}
+        value={config[key] as number}
+        onChange={(e) => setConfig({ ...config, [key]: Number(e.target.value) })}
+        className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {[
+          ['Bankroll', money(summary.currentBankroll), 'text-white'],
+          ['P&L', `${summary.profit >= 0 ? '+' : ''}${money(summary.profit)}`, summary.profit >= 0 ? 'text-emerald-400' : 'text-rose-400'],
+          ['ROI', pct(summary.roi), summary.roi >= 0 ? 'text-emerald-400' : 'text-rose-400'],
+          ['CLV', summary.clv === null ? '–' : `${summary.clv >= 0 ? '+' : ''}${pct(summary.clv)}`, (summary.clv ?? 0) >= 0 ? 'text-emerald-400' : 'text-rose-400'],
+          ['Settled', `${summary.wins}/${summary.settledBets}`, 'text-zinc-300'],
+          ['Open Stake', `${money(summary.openStake)} (${summary.openBets})`, 'text-zinc-300']
+        ].map(([label, value, color]) => (
+          <div key={label} className="bg-white/5 border border-white/10 rounded-2xl p-4">
+            <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1">{label}</div>
+            <div className={`text-xl font-mono font-bold ${color}`}>{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Curve */}
+        <div className="lg:col-span-2 bg-white/5 border border-white/10 rounded-2xl p-6">
+          <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4">Bankroll Over Time</div>
+          <BankrollChart start={summary.startingBankroll} history={summary.history} />
+        </div>
+
+        {/* Settings */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-6 space-y-3">
+          <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Staking</div>
+          <div className="flex bg-white/5 p-1 rounded-xl border border-white/10">
+            {(['flat', 'proportional', 'kelly'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setConfig({ ...config, method: m })}
+                className={`flex-1 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-lg transition-all ${
+                  config.method === m ? 'bg-emerald-500 text-black' : 'text-zinc-400 hover:text-zinc-200'
+                }`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {numberField('bankroll', 'Starting Bankroll')}
+            {config.method === 'flat' && numberField('flatStake', 'Flat Stake')}
+            {config.method === 'proportional' && numberField('proportion', 'Share of Bankroll', '0.005')}
+            {config.method === 'kelly' && numberField('kellyFraction', 'Kelly Fraction', '0.05')}
+            {numberField('maxStake', 'Max Stake / Bet')}
+            {numberField('maxMatchdayExposure', 'Max / Matchday')}
+          </div>
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+          <button
+            onClick={save}
+            disabled={saving}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-xl bg-emerald-500 text-black text-xs font-bold uppercase tracking-wider disabled:opacity-50"
+          >
+            <Save className="w-3.5 h-3.5" /> Save
+          </button>
+        </div>
+      </div>
+
+      {/* Ledger */}
+      <div className="flex items-center justify-end gap-2 -mb-4">
+        <span className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mr-1">Export</span>
+        {(['csv', 'json', 'html'] as const).map(format => (
+          <a
+            key={format}
+            href={`/api/bets/export?format=${format}`}
+            target={format === 'html' ? '_blank' : undefined}
+            rel="noreferrer"
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-[10px] font-bold uppercase tracking-wider text-zinc-300 hover:bg-white/10"
+          >
+            {format === 'html' ? <FileText className="w-3 h-3" /> : <Download className="w-3 h-3" />} {format === 'html' ? 'Report' : format}
+          </a>
+        ))}
+      </div>
+      <div className="bg-white/5 border border-white/10 rounded-2xl overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] font-black text-zinc-500 uppercase tracking-widest text-left">
+              <th className="px-4 py-3">Match</th>
+              <th className="px-4 py-3">Market</th>
+              <th className="px-4 py-3 text-right">Odds</th>
+              <th className="px-4 py-3 text-right">Closing</th>
+              <th className="px-4 py-3 text-right">Stake</th>
+              <th className="px-4 py-3 text-right">P&L</th>
+              <th className="px-4 py-3 text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {bets.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-zinc-500">No bets placed yet.</td>
+              </tr>
+            )}
+            {bets.map(b => (
+              <tr key={b.id} className="border-t border-white/5">
+                <td className="px-4 py-3">
+                  <div className="font-semibold">{b.homeTeam} vs {b.awayTeam}</div>
+                  <div className="text-[10px] text-zinc-500 uppercase tracking-widest">
+                    {b.league} • {new Date(b.date).toLocaleDateString()} • Team Y: {b.isTeamYHome ? b.homeTeam : b.awayTeam}
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-xs text-zinc-400" title={b.legs.join(' + ')}>{b.marketName}</td>
+                <td className="px-4 py-3 text-right font-mono">{b.odds.toFixed(2)}</td>
+                <td className="px-4 py-3 text-right font-mono">
+                  {b.closingOdds === null ? '–' : b.closingOdds.toFixed(2)}
+                  {b.clv !== null && (
+                    <div className={`text-[10px] ${b.clv >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                      CLV {b.clv >= 0 ? '+' : ''}{pct(b.clv)}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-right font-mono">{money(b.stake)}</td>
+                <td className={`px-4 py-3 text-right font-mono ${(b.profit ?? 0) >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  {b.profit === null ? '–' : `${b.profit >= 0 ? '+' : ''}${money(b.profit)}`}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase tracking-widest ${STATUS_CLASSES[b.status]}`}>
+                    {b.status}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Layers, RefreshCw, Trash2, X } from 'lucide-react';
+import { ModelChoice, Opportunity, Portfolio, PortfolioSelection } from '../types';
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500/50';
+
+interface Props {
+  selections: Opportunity[];
+  model: ModelChoice;
+  onRemove: (key: string) => void;
+  onClear: () => void;
+}
+
+const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+const money = (x: number) => x.toFixed(2);
+
+// Side panel pricing the picked opportunities together: as singles and as an
+// accumulator, with legs from the same match priced jointly, and the stakes
+// that maximise expected log growth within the exposure cap.
+export default function BetSlip({ selections, model, onRemove, onClear }: Props) {
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [maxExposure, setMaxExposure] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const keys = selections.map(s => s.key).join(',');
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/portfolio', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            selections: selections.map(s => s.key),
+            goalModel: model.goals,
+            cornerModel: model.corners,
+            gameState: String(model.gameState),
+            maxExposure
+          })
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setPortfolio(data);
+      } catch (err: any) {
+        setPortfolio(null);
+        setError(err.message || 'Failed to price bet slip');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [keys, model, maxExposure]);
+
+  const priced = new Map<string, PortfolioSelection>((portfolio?.selections ?? []).map(s => [s.key, s]));
+  const correlated = new Set((portfolio?.sameMatch ?? []).flatMap(g => g.keys));
+
+  return (
+    <aside className="fixed top-20 right-4 bottom-4 w-96 z-40 bg-[#111113] border border-white/10 rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+        <div className="flex items-center gap-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+          <Layers className="w-3.5 h-3.5" /> Bet slip ({selections.length})
+          {loading && <RefreshCw className="w-3 h-3 animate-spin text-emerald-500" />}
+        </div>
+        <button onClick={onClear} className="p-1 text-zinc-500 hover:text-rose-400" title="Clear slip">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+        {selections.map(s => {
+          const p = priced.get(s.key);
+          return (
+            <div key={s.key} className="bg-white/5 border border-white/10 rounded-xl p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="text-xs font-bold">{s.isTeamYHome ? s.homeTeam : s.awayTeam} <span className="text-zinc-500 font-normal">v {s.isTeamYHome ? s.awayTeam : s.homeTeam}</span></div>
+                  <div className="text-[10px] text-zinc-500">{s.marketName} · {new Date(s.date).toLocaleDateString()}</div>
+                </div>
+                <button onClick={() => onRemove(s.key)} className="p-0.5 text-zinc-500 hover:text-zinc-200" title="Remove">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              {p && (
+                <div className="mt-2 grid grid-cols-4 gap-2 text-xs font-mono">
+                  <div><div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest">Prob</div>{pct(p.probModel)}</div>
+                  <div><div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest">Odds</div>{p.bestOdd.toFixed(2)}</div>
+                  <div><div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest">EV</div>{p.ev > 0 ? '+' : ''}{p.ev.toFixed(2)}</div>
+                  <div><div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest">Stake</div><span className="text-emerald-400">{money(p.suggestedStake)}</span></div>
+                </div>
+              )}
+              {correlated.has(s.key) && (
+                <div className="mt-2 text-[10px] text-amber-400">Same match as another leg: priced jointly</div>
+              )}
+            </div>
+          );
+        })}
+
+        {error && <p className="text-xs text-rose-400">{error}</p>}
+
+        {portfolio?.accumulator && (
+          <div className="bg-emerald-500/5 border border-emerald-500/20 rounded-xl p-3 space-y-2">
+            <div className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">Accumulator</div>
+            <div className="grid grid-cols-4 gap-2 text-xs font-mono">
+              <div><div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest">Prob</div>{pct(portfolio.accumulator.probability)}</div>
+              <div><div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest">Odds</div>{portfolio.accumulator.odds.toFixed(2)}</div>
+              <div><div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest">EV</div>{portfolio.accumulator.ev > 0 ? '+' : ''}{portfolio.accumulator.ev.toFixed(2)}</div>
+              <div><div className="text-[9px] font-black text-zinc-500 uppercase tracking-widest">Stake</div><span className="text-emerald-400">{money(portfolio.accumulator.suggestedStake)}</span></div>
+            </div>
+            <div className="text-[10px] text-zinc-500">
+              {pct(portfolio.accumulator.independentProbability)} if the legs were independent · SD per unit {Math.sqrt(portfolio.accumulator.variance).toFixed(2)}
+            </div>
+            {portfolio.sameMatch.map(g => (
+              <div key={g.matchId} className="text-[10px] text-amber-400">
+                {g.keys.length} legs from one match: {pct(g.jointProbability)} together vs {pct(g.independentProbability)} independent
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {portfolio && (
+        <div className="px-5 py-4 border-t border-white/5 space-y-3">
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+            <span className="text-zinc-500">Total stake</span>
+            <span className="font-mono text-right">{money(portfolio.stakes.totalStake)}</span>
+            <span className="text-zinc-500">Expected profit</span>
+            <span className={`font-mono text-right ${portfolio.stakes.expectedProfit > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+              {portfolio.stakes.expectedProfit > 0 ? '+' : ''}{money(portfolio.stakes.expectedProfit)}
+            </span>
+            <span className="text-zinc-500">Std. deviation</span>
+            <span className="font-mono text-right">{money(portfolio.stakes.standardDeviation)}</span>
+            <span className="text-zinc-500">Chance of a loss</span>
+            <span className="font-mono text-right">{pct(portfolio.stakes.probabilityOfLoss)}</span>
+            <span className="text-zinc-500">Log growth</span>
+            <span className="font-mono text-right">{(portfolio.stakes.expectedLogGrowth * 100).toFixed(2)}%</span>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Matchday cap</label>
+            <input
+              type="number"
+              min={0}
+              value={maxExposure}
+              onChange={(e) => setMaxExposure(e.target.value)}
+              placeholder="config"
+              className={`w-24 ${inputClass}`}
+            />
+          </div>
+          <p className="text-[10px] text-zinc-600 leading-relaxed">
+            Stakes maximise expected log growth at {portfolio.stakes.kellyFraction}× Kelly from a bankroll of {money(portfolio.stakes.bankroll)}.
+          </p>
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,121 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { ProbabilityBreakdown, Uncertainty } from '../types';
+
+const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+// Lift of a joint probability over independence: above 1 the legs help each other
+const liftClass = (lift: number) =>
+  lift > 1.05 ? 'text-emerald-400' : lift < 0.95 ? 'text-rose-400' : 'text-zinc-400';
+
+export default function BreakdownPanel({ breakdown, uncertainty }: { breakdown: ProbabilityBreakdown; uncertainty?: Uncertainty }) {
+  const { legs, pairwise, probability, standardError, independentProbability, method, iterations } = breakdown;
+  const weakest = legs.reduce((min, leg, i) => (leg.probability < legs[min].probability ? i : min), 0);
+  const correlation = independentProbability > 0 ? probability / independentProbability : 0;
+
+  return (
+    <motion.div
+      initial={{ height: 0, opacity: 0 }}
+      animate={{ height: 'auto', opacity: 1 }}
+      exit={{ height: 0, opacity: 0 }}
+      onClick={(e) => e.stopPropagation()}
+      className="overflow-hidden cursor-default"
+    >
+      <div className="mt-6 pt-6 border-t border-white/10 grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Marginals */}
+        <div>
+          <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-3">Leg Probabilities</div>
+          <div className="space-y-2">
+            {legs.map((leg, i) => (
+              <div key={i}>
+                <div className="flex justify-between text-xs mb-1">
+                  <span className={i === weakest ? 'text-amber-400 font-semibold' : 'text-zinc-300'}>
+                    {leg.label}{i === weakest && ' (weakest leg)'}
+                  </span>
+                  <span className="font-mono text-zinc-400">{pct(leg.probability)}</span>
+                </div>
+                <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${i === weakest ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                    style={{ width: pct(leg.probability) }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 mt-6">
+            <div>
+              <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1">Joint</div>
+              <div className="font-mono font-bold text-white">{pct(probability)}</div>
+              <div className="text-[10px] font-mono text-zinc-500">
+                {method === 'exact' ? 'exact' : `± ${pct(standardError)} SE`}
+              </div>
+            </div>
+            <div>
+              <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1">If Independent</div>
+              <div className="font-mono font-bold text-zinc-400">{pct(independentProbability)}</div>
+            </div>
+            <div>
+              <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1">Correlation Lift</div>
+              <div className={`font-mono font-bold ${liftClass(correlation)}`}>×{correlation.toFixed(2)}</div>
+            </div>
+          </div>
+
+          {uncertainty && (
+            <div className="mt-4 text-[10px] text-zinc-500">
+              <span className="font-black uppercase tracking-widest">Rating Uncertainty</span>{' '}
+              <span className="font-mono text-zinc-300">{pct(uncertainty.lower)} – {pct(uncertainty.upper)}</span>{' '}
+              (95%, ± {pct(uncertainty.standardDeviation)} SD, fewest matches behind a rating: {uncertainty.sampleSize})
+            </div>
+          )}
+        </div>
+
+        {/* Pairwise joints */}
+        <div>
+          <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-3">
+            Pairwise Joint Probability <span className="normal-case tracking-normal font-medium">(lift vs independence)</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="text-xs font-mono">
+              <thead>
+                <tr>
+                  <th />
+                  {legs.map((_, j) => (
+                    <th key={j} className="px-2 pb-2 text-zinc-500 font-bold">L{j + 1}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {pairwise.map((row, i) => (
+                  <tr key={i}>
+                    <td className="pr-3 py-1 text-zinc-500 font-bold whitespace-nowrap" title={legs[i].label}>L{i + 1}</td>
+                    {row.map((joint, j) => {
+                      const lift = joint / (legs[i].probability * legs[j].probability || 1);
+                      return (
+                        <td key={j} className="px-2 py-1 text-center">
+                          <div className="text-zinc-200">{pct(joint)}</div>
+                          {i !== j && <div className={`text-[10px] ${liftClass(lift)}`}>×{lift.toFixed(2)}</div>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-3 space-y-0.5">
+            {legs.map((leg, i) => (
+              <div key={i} className="text-[10px] text-zinc-500">L{i + 1}: {leg.label}</div>
+            ))}
+          </div>
+          <p className="mt-3 text-[10px] text-zinc-600 italic">
+            {method === 'exact'
+              ? 'Computed exactly from per-half Poisson score grids.'
+              : `${iterations.toLocaleString()} simulated matches.`}
+          </p>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { CalibrationGroup, CalibrationReport, ModelChoice } from '../types';
+import ModelPicker, { DEFAULT_MODEL, applyModel, modelLabel } from './ModelPicker';
+
+const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+// Reliability curve: observed hit rate against mean predicted probability per
+// bucket, dot area proportional to the bucket's share of predictions.
+function ReliabilityChart({ group }: { group: CalibrationGroup }) {
+  const bins = group.reliability.filter(b => b.predictions > 0);
+  const largest = Math.max(1, ...bins.map(b => b.predictions));
+  const x = (p: number) => 10 + p * 180;
+  const y = (p: number) => 190 - p * 180;
+
+  return (
+    <svg viewBox="0 0 200 200" className="w-full max-w-md aspect-square">
+      <rect x={10} y={10} width={180} height={180} fill="none" stroke="currentColor" className="text-white/10" />
+      <line x1={x(0)} y1={y(0)} x2={x(1)} y2={y(1)} stroke="currentColor" strokeDasharray="3 3" className="text-zinc-600" />
+      <polyline
+        points={bins.map(b => `${x(b.meanPredicted)},${y(b.observedRate)}`).join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        className="text-emerald-500"
+      />
+      {bins.map(b => (
+        <circle
+          key={b.lower}
+          cx={x(b.meanPredicted)}
+          cy={y(b.observedRate)}
+          r={2 + 5 * Math.sqrt(b.predictions / largest)}
+          fill="currentColor"
+          className="text-emerald-400"
+        >
+          <title>{`${pct(b.lower)}–${pct(b.upper)}: predicted ${pct(b.meanPredicted)}, observed ${pct(b.observedRate)} (${b.predictions})`}</title>
+        </circle>
+      ))}
+      <text x={100} y={199} textAnchor="middle" fontSize={7} fill="currentColor" className="text-zinc-500">Predicted</text>
+      <text x={4} y={100} textAnchor="middle" fontSize={7} fill="currentColor" className="text-zinc-500" transform="rotate(-90 4 100)">Observed</text>
+    </svg>
+  );
+}
+
+export default function CalibrationPage() {
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [marketId, setMarketId] = useState<string>('all');
+  const [league, setLeague] = useState<string>('All');
+  const [model, setModel] = useState<ModelChoice>(DEFAULT_MODEL);
+  // Overall scores of each model run this session, so variants can be compared side by side
+  const [runs, setRuns] = useState<{ label: string; overall: CalibrationGroup }[]>([]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`/api/calibration?${applyModel(new URLSearchParams(), model)}`)
+      .then(response => response.json())
+      .then((data: CalibrationReport) => {
+        setReport(data);
+        const label = modelLabel(data.model);
+        setRuns(prev => [...prev.filter(r => r.label !== label), { label, overall: data.overall }]);
+      })
+      .catch(error => console.error('Error fetching calibration:', error))
+      .finally(() => setLoading(false));
+  }, [model]);
+
+  if (loading || !report) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 gap-4">
+        <RefreshCw className="w-12 h-12 text-emerald-500 animate-spin" />
+        <p className="text-zinc-500 font-medium">Replaying finished fixtures...</p>
+      </div>
+    );
+  }
+
+  const market = report.markets.find(m => m.marketId === marketId);
+  const byLeague = market ? market.byLeague : report.byLeague;
+  const group = league === 'All' ? (market ?? report.overall) : byLeague[league];
+  const leagues = ['All', ...Object.keys(byLeague).sort()];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap gap-4">
+        <select
+          value={marketId}
+          onChange={(e) => { setMarketId(e.target.value); setLeague('All'); }}
+          className="bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+        >
+          <option value="all">All markets</option>
+          {report.markets.map(m => <option key={m.marketId} value={m.marketId}>{m.name}</option>)}
+        </select>
+        <select
+          value={league}
+          onChange={(e) => setLeague(e.target.value)}
+          className="bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+        >
+          {leagues.map(l => <option key={l} value={l}>{l}</option>)}
+        </select>
+        <ModelPicker model={model} onChange={setModel} />
+      </div>
+
+      {runs.length > 1 && (
+        <div className="bg-white/5 border border-white/10 rounded-2xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black text-zinc-500 uppercase tracking-widest text-left">
+                <th className="px-4 py-3">Model</th>
+                <th className="px-4 py-3 text-right">Predictions</th>
+                <th className="px-4 py-3 text-right">Brier</th>
+                <th className="px-4 py-3 text-right">Log Loss</th>
+                <th className="px-4 py-3 text-right">Brier Skill</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(r => (
+                <tr key={r.label} className={`border-t border-white/5 ${r.label === modelLabel(report.model) ? 'text-emerald-400' : ''}`}>
+                  <td className="px-4 py-3">{r.label}</td>
+                  <td className="px-4 py-3 text-right font-mono">{r.overall.predictions}</td>
+                  <td className="px-4 py-3 text-right font-mono">{r.overall.brier.toFixed(4)}</td>
+                  <td className="px-4 py-3 text-right font-mono">{r.overall.logLoss.toFixed(4)}</td>
+                  <td className="px-4 py-3 text-right font-mono">{(r.overall.brierSkill * 100).toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {report.adjustments && report.adjustments.fixtures > 0 && (
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-6 space-y-4">
+          <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+            Team news adjustments · {report.adjustments.fixtures} fixtures, {report.adjustments.adjusted.predictions} predictions
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              ['Brier (adjusted)', report.adjustments.adjusted.brier.toFixed(4)],
+              ['Brier (model alone)', report.adjustments.unadjusted.brier.toFixed(4)],
+              ['Log Loss (adjusted)', report.adjustments.adjusted.logLoss.toFixed(4)],
+              ['Log Loss (model alone)', report.adjustments.unadjusted.logLoss.toFixed(4)]
+            ].map(([label, value]) => (
+              <div key={label}>
+                <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1">{label}</div>
+                <div className="text-xl font-mono font-bold text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-500">
+            {report.adjustments.adjusted.brier < report.adjustments.unadjusted.brier
+              ? 'The adjustments improved the predictions for these fixtures.'
+              : 'The adjustments did not improve the predictions for these fixtures.'}
+          </p>
+        </div>
+      )}
+
+      {!group || group.predictions === 0 ? (
+        <p className="text-zinc-500 text-sm">No settled predictions for this selection (markets with team corner legs cannot be settled from stored data).</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-6">
+            <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4">Reliability</div>
+            <ReliabilityChart group={group} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {[
+              ['Predictions', group.predictions.toLocaleString()],
+              ['Brier Score', group.brier.toFixed(4)],
+              ['Log Loss', group.logLoss.toFixed(4)],
+              ['Brier Skill', `${group.brierSkill >= 0 ? '+' : ''}${(group.brierSkill * 100).toFixed(1)}%`],
+              ['Mean Predicted', pct(group.meanPredicted)],
+              ['Observed Rate', pct(group.baseRate)]
+            ].map(([label, value]) => (
+              <div key={label} className="bg-white/5 border border-white/10 rounded-2xl p-4">
+                <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1">{label}</div>
+                <div className="text-xl font-mono font-bold text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white/5 border border-white/10 rounded-2xl overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] font-black text-zinc-500 uppercase tracking-widest text-left">
+              <th className="px-4 py-3">Market</th>
+              <th className="px-4 py-3 text-right">Predictions</th>
+              <th className="px-4 py-3 text-right">Brier</th>
+              <th className="px-4 py-3 text-right">Log Loss</th>
+              <th className="px-4 py-3 text-right">Predicted</th>
+              <th className="px-4 py-3 text-right">Observed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.markets.map(m => (
+              <tr key={m.marketId} className="border-t border-white/5">
+                <td className="px-4 py-3">{m.name}</td>
+                <td className="px-4 py-3 text-right font-mono">{m.predictions}</td>
+                <td className="px-4 py-3 text-right font-mono">{m.predictions > 0 ? m.brier.toFixed(4) : '–'}</td>
+                <td className="px-4 py-3 text-right font-mono">{m.predictions > 0 ? m.logLoss.toFixed(4) : '–'}</td>
+                <td className="px-4 py-3 text-right font-mono">{m.predictions > 0 ? pct(m.meanPredicted) : '–'}</td>
+                <td className="px-4 py-3 text-right font-mono">{m.predictions > 0 ? pct(m.baseRate) : '–'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
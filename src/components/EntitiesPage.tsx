@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Link2, Plus, Trash2, X } from 'lucide-react';
+import { EntityAlias, EntityOption, EntityReview, EntityType } from '../types';
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50';
+
+const ENTITY_LABELS: Record<EntityType, string> = { team: 'Teams', competition: 'Competitions' };
+
+// The name-matching review queue and the alias tables the importers resolve
+// other sources' team and competition names through.
+export default function EntitiesPage() {
+  const [reviews, setReviews] = useState<EntityReview[]>([]);
+  const [choices, setChoices] = useState<Record<number, number>>({});
+  const [entity, setEntity] = useState<EntityType>('team');
+  const [aliases, setAliases] = useState<EntityAlias[]>([]);
+  const [options, setOptions] = useState<EntityOption[]>([]);
+  const [newAlias, setNewAlias] = useState('');
+  const [newId, setNewId] = useState<number | ''>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReviews = async () => {
+    try {
+      const response = await fetch('/api/entities/reviews?status=pending');
+      setReviews(await response.json());
+    } catch (err) {
+      console.error('Error fetching reviews:', err);
+    }
+  };
+
+  const loadAliases = async () => {
+    try {
+      const [aliasesRes, optionsRes] = await Promise.all([fetch(`/api/entities/${entity}/aliases`), fetch(`/api/entities/${entity}`)]);
+      setAliases(await aliasesRes.json());
+      setOptions(await optionsRes.json());
+    } catch (err) {
+      console.error('Error fetching aliases:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadReviews();
+  }, []);
+
+  useEffect(() => {
+    setNewId('');
+    loadAliases();
+  }, [entity]);
+
+  const request = async (url: string, method: string, body?: any) => {
+    setError(null);
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok) throw new Error((await response.json()).error);
+  };
+
+  const resolve = async (review: EntityReview, action: 'confirm' | 'reject') => {
+    try {
+      const id = choices[review.id] ?? review.candidateId;
+      await request(`/api/entities/reviews/${review.id}/${action}`, 'POST', action === 'confirm' ? { id } : undefined);
+      await Promise.all([loadReviews(), loadAliases()]);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const addAlias = async () => {
+    try {
+      await request(`/api/entities/${entity}/aliases`, 'PUT', { alias: newAlias, id: newId });
+      setNewAlias('');
+      setNewId('');
+      await Promise.all([loadReviews(), loadAliases()]);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const removeAlias = async (alias: EntityAlias) => {
+    await fetch(`/api/entities/${entity}/aliases/${encodeURIComponent(alias.alias)}`, { method: 'DELETE' });
+    await loadAliases();
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+
+      {/* Review queue */}
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+          <Link2 className="w-3.5 h-3.5" /> Needs Review ({reviews.length})
+        </div>
+        {reviews.length === 0 && (
+          <div className="text-center py-12 bg-white/5 rounded-3xl border border-dashed border-white/10">
+            <p className="text-zinc-500">Every imported name is resolved.</p>
+          </div>
+        )}
+        {reviews.map(review => (
+          <div key={review.id} className="p-4 rounded-2xl bg-white/5 border border-white/10 flex flex-wrap items-center justify-between gap-4">
+            <div className="min-w-0">
+              <div className="font-semibold">
+                {review.name}
+                <span className="ml-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest">{review.entity} • {review.source} • seen {review.seen}×</span>
+              </div>
+              {review.context.kickoff && (
+                <div className="text-xs text-zinc-500">
+                  {review.context.homeTeam} vs {review.context.awayTeam} • {new Date(review.context.kickoff).toLocaleString()}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <select
+                value={choices[review.id] ?? review.candidateId ?? ''}
+                onChange={(e) => setChoices({ ...choices, [review.id]: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {review.candidateId === null && <option value="">Choose…</option>}
+                {review.candidates.map(c => (
+                  <option key={c.id} value={c.id}>{c.name} ({((c.score ?? 0) * 100).toFixed(0)}%)</option>
+                ))}
+              </select>
+              <button onClick={() => resolve(review, 'confirm')} className="p-2 rounded-xl bg-emerald-500 text-black" title="Confirm">
+                <Check className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => resolve(review, 'reject')} className="p-2 rounded-xl bg-white/5 border border-white/10 text-zinc-400 hover:text-rose-400" title="Not one of ours">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Aliases */}
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex bg-white/5 p-1 rounded-xl border border-white/10">
+            {(Object.keys(ENTITY_LABELS) as EntityType[]).map(e => (
+              <button
+                key={e}
+                onClick={() => setEntity(e)}
+                className={`px-4 py-1.5 text-xs font-bold uppercase tracking-wider rounded-lg transition-all ${
+                  entity === e ? 'bg-emerald-500 text-black' : 'text-zinc-400 hover:text-zinc-200'
+                }`}
+              >
+                {ENTITY_LABELS[e]}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <input value={newAlias} onChange={(e) => setNewAlias(e.target.value)} placeholder="Spelling" className={inputClass} />
+            <select value={newId} onChange={(e) => setNewId(e.target.value === '' ? '' : Number(e.target.value))} className={inputClass}>
+              <option value="">Maps to…</option>
+              {options.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+            </select>
+            <button
+              onClick={addAlias}
+              disabled={!newAlias || newId === ''}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-emerald-500 text-black text-xs font-bold uppercase tracking-wider disabled:opacity-50"
+            >
+              <Plus className="w-3.5 h-3.5" /> Map
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white/5 border border-white/10 rounded-2xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black text-zinc-500 uppercase tracking-widest text-left">
+                <th className="px-4 py-3">Spelling</th>
+                <th className="px-4 py-3">Maps To</th>
+                <th className="px-4 py-3">Source</th>
+                <th className="px-4 py-3 text-right">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {aliases.map(a => (
+                <tr key={a.alias} className="border-t border-white/5">
+                  <td className="px-4 py-2 font-mono text-xs">{a.alias}</td>
+                  <td className="px-4 py-2 text-xs">{a.name ?? `#${a.id}`}</td>
+                  <td className="px-4 py-2 text-xs text-zinc-400">{a.source ?? '—'}</td>
+                  <td className="px-4 py-2 text-right">
+                    <span
+                      title={a.score !== null ? `similarity ${(a.score * 100).toFixed(0)}%` : undefined}
+                      className={`px-2 py-0.5 rounded text-[10px] font-black uppercase tracking-widest ${a.status === 'confirmed' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-amber-500/20 text-amber-400'}`}
+                    >
+                      {a.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button onClick={() => removeAlias(a)} className="p-1.5 text-zinc-400 hover:text-rose-400"><Trash2 className="w-3.5 h-3.5" /></button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
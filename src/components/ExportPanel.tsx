@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, Download, FileText, History, RefreshCw } from 'lucide-react';
+import { SnapshotSummary } from '../types';
+
+interface Props {
+  // The current opportunity filters, without a cursor
+  params: URLSearchParams;
+}
+
+const linkClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-[10px] font-bold uppercase tracking-wider text-zinc-300 hover:bg-white/10';
+
+function formatLinks(base: string, params?: URLSearchParams) {
+  const href = (format: string) => {
+    const query = new URLSearchParams(params);
+    query.set('format', format);
+    return `${base}?${query}`;
+  };
+  return (
+    <>
+      <a href={href('csv')} className={linkClass}><Download className="w-3 h-3" /> CSV</a>
+      <a href={href('json')} className={linkClass}><Download className="w-3 h-3" /> JSON</a>
+      <a href={href('html')} target="_blank" rel="noreferrer" className={linkClass}><FileText className="w-3 h-3" /> Report</a>
+    </>
+  );
+}
+
+// Downloads of the whole filtered slate, and frozen snapshots of it that can
+// be reopened later by id.
+export default function ExportPanel({ params }: Props) {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [label, setLabel] = useState('');
+  const [freezing, setFreezing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const response = await fetch('/api/snapshots');
+      setSnapshots(await response.json());
+    } catch (err) {
+      console.error('Error fetching snapshots:', err);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const freeze = async () => {
+    setFreezing(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/snapshots', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...Object.fromEntries(params), label: label || undefined })
+      });
+      if (!response.ok) throw new Error((await response.json()).error);
+      setLabel('');
+      setShowSnapshots(true);
+      await load();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save snapshot');
+    } finally {
+      setFreezing(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mr-1">Export</span>
+        {formatLinks('/api/opportunities/export', params)}
+        <div className="flex-1" />
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Snapshot label"
+          className="bg-white/5 border border-white/10 rounded-full px-3 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+        />
+        <button onClick={freeze} disabled={freezing} className={`${linkClass} disabled:opacity-50`}>
+          {freezing ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Camera className="w-3 h-3" />} Freeze
+        </button>
+        <button onClick={() => setShowSnapshots(!showSnapshots)} className={linkClass}>
+          <History className="w-3 h-3" /> Snapshots ({snapshots.length})
+        </button>
+      </div>
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+
+      {showSnapshots && (
+        <div className="bg-white/5 border border-white/10 rounded-2xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black text-zinc-500 uppercase tracking-widest text-left">
+                <th className="px-4 py-3">Snapshot</th>
+                <th className="px-4 py-3">Taken</th>
+                <th className="px-4 py-3">Markets</th>
+                <th className="px-4 py-3 text-right">Picks</th>
+                <th className="px-4 py-3 text-right">Seed</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {snapshots.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-zinc-500">No snapshots yet.</td>
+                </tr>
+              )}
+              {snapshots.map(s => (
+                <tr key={s.id} className="border-t border-white/5">
+                  <td className="px-4 py-2 text-xs">
+                    <span className="font-mono text-zinc-400">{s.id}</span>
+                    {s.label && <span className="ml-2">{s.label}</span>}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-zinc-400">{new Date(s.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-xs text-zinc-400">{s.markets.length === 1 ? s.markets[0] : `${s.markets.length} markets`}</td>
+                  <td className="px-4 py-2 text-right font-mono">{s.total}</td>
+                  <td className="px-4 py-2 text-right font-mono text-xs text-zinc-500">{s.seed}</td>
+                  <td className="px-4 py-2">
+                    <div className="flex justify-end gap-2">{formatLinks(`/api/snapshots/${s.id}/export`)}</div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
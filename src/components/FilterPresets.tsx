@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Save, Trash2 } from 'lucide-react';
+import { FilterPreset } from '../types';
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500/50';
+
+interface Props {
+  current: FilterPreset['params'];
+  onApply: (params: FilterPreset['params']) => void;
+}
+
+// Saved Value Bets filters for the signed-in user.
+export default function FilterPresets({ current, onApply }: Props) {
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [selected, setSelected] = useState<number | ''>('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const response = await fetch('/api/me/filters');
+      setPresets(await response.json());
+    } catch (err) {
+      console.error('Error fetching filter presets:', err);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const apply = (id: number | '') => {
+    setSelected(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) onApply(preset.params);
+  };
+
+  const save = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/me/filters', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, params: current })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setName('');
+      await load();
+      setSelected(data.id);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const remove = async () => {
+    if (selected === '') return;
+    await fetch(`/api/me/filters/${selected}`, { method: 'DELETE' });
+    setSelected('');
+    await load();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Bookmark className="w-3.5 h-3.5 text-zinc-500" />
+      <select value={selected} onChange={(e) => apply(e.target.value === '' ? '' : Number(e.target.value))} className={inputClass}>
+        <option value="">Saved filters…</option>
+        {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      {selected !== '' && (
+        <button onClick={remove} className="p-2 text-zinc-400 hover:text-rose-400" title="Delete preset"><Trash2 className="w-3.5 h-3.5" /></button>
+      )}
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Preset name" className={inputClass} />
+      <button
+        onClick={save}
+        disabled={!name}
+        className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-xs font-bold uppercase tracking-wider disabled:opacity-50"
+      >
+        <Save className="w-3.5 h-3.5" /> Save current
+      </button>
+      {error && <span className="text-xs text-rose-400">{error}</span>}
+    </div>
+  );
+}
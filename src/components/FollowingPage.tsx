@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, Plus, Star, X } from 'lucide-react';
+import { EntityOption, Follows, WatchlistItem } from '../types';
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50';
+
+interface Props {
+  watchlist: WatchlistItem[];
+  onUnwatch: (matchId: number) => void;
+}
+
+// The signed-in user's watched matches and followed leagues and teams; the
+// "Followed only" filter on Value Bets narrows the slate to the latter.
+export default function FollowingPage({ watchlist, onUnwatch }: Props) {
+  const [follows, setFollows] = useState<Follows>({ leagues: [], teams: [] });
+  const [leagues, setLeagues] = useState<EntityOption[]>([]);
+  const [teams, setTeams] = useState<EntityOption[]>([]);
+  const [leagueId, setLeagueId] = useState<number | ''>('');
+  const [teamId, setTeamId] = useState<number | ''>('');
+
+  useEffect(() => {
+    Promise.all([fetch('/api/me/follows'), fetch('/api/entities/competition'), fetch('/api/entities/team')])
+      .then(responses => Promise.all(responses.map(r => r.json())))
+      .then(([followsData, leagueData, teamData]) => {
+        setFollows(followsData);
+        setLeagues(leagueData);
+        setTeams(teamData);
+      })
+      .catch(error => console.error('Error fetching follows:', error));
+  }, []);
+
+  const update = async (entity: 'league' | 'team', id: number, method: 'PUT' | 'DELETE') => {
+    const response = await fetch(`/api/me/follows/${entity}/${id}`, { method });
+    if (response.ok) setFollows(await response.json());
+  };
+
+  const followGroup = (
+    title: string,
+    entity: 'league' | 'team',
+    followed: { id: number; name: string }[],
+    options: EntityOption[],
+    selected: number | '',
+    setSelected: (id: number | '') => void
+  ) => (
+    <div className="p-6 rounded-2xl bg-white/5 border border-white/10 space-y-4">
+      <div className="flex items-center gap-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+        <Star className="w-3.5 h-3.5" /> {title} ({followed.length})
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {followed.length === 0 && <p className="text-xs text-zinc-500 italic">Nothing followed yet.</p>}
+        {followed.map(f => (
+          <span key={f.id} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-emerald-500/10 border border-emerald-500/20 text-xs text-emerald-400">
+            {f.name}
+            <button onClick={() => update(entity, f.id, 'DELETE')} className="p-0.5 text-zinc-400 hover:text-rose-400"><X className="w-3 h-3" /></button>
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <select value={selected} onChange={(e) => setSelected(e.target.value === '' ? '' : Number(e.target.value))} className={`flex-1 ${inputClass}`}>
+          <option value="">Follow…</option>
+          {options.filter(o => !followed.some(f => f.id === o.id)).map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+        </select>
+        <button
+          onClick={() => { if (selected !== '') update(entity, selected, 'PUT').then(() => setSelected('')); }}
+          disabled={selected === ''}
+          className="p-2 rounded-xl bg-emerald-500 text-black disabled:opacity-50"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {followGroup('Leagues', 'league', follows.leagues, leagues, leagueId, setLeagueId)}
+        {followGroup('Teams', 'team', follows.teams, teams, teamId, setTeamId)}
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+          <Eye className="w-3.5 h-3.5" /> Watchlist ({watchlist.length})
+        </div>
+        {watchlist.length === 0 ? (
+          <div className="text-center py-12 bg-white/5 rounded-3xl border border-dashed border-white/10">
+            <p className="text-zinc-500">Star a match on Value Bets to watch it.</p>
+          </div>
+        ) : (
+          <div className="bg-white/5 border border-white/10 rounded-2xl overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] font-black text-zinc-500 uppercase tracking-widest text-left">
+                  <th className="px-4 py-3">Match</th>
+                  <th className="px-4 py-3">League</th>
+                  <th className="px-4 py-3">Kickoff</th>
+                  <th className="px-4 py-3 text-right">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {watchlist.map(w => (
+                  <tr key={w.matchId} className="border-t border-white/5">
+                    <td className="px-4 py-2 font-semibold">{w.homeTeam} vs {w.awayTeam}</td>
+                    <td className="px-4 py-2 text-xs text-zinc-400">{w.league ?? '—'}</td>
+                    <td className="px-4 py-2 text-xs text-zinc-400">{new Date(w.date).toLocaleString()}</td>
+                    <td className="px-4 py-2 text-right text-xs font-mono">
+                      {w.homeScore !== null && w.awayScore !== null ? `${w.homeScore}–${w.awayScore}` : w.status}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button onClick={() => onUnwatch(w.matchId)} className="p-1.5 text-zinc-400 hover:text-rose-400"><X className="w-3.5 h-3.5" /></button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
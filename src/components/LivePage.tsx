@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Radio, X } from 'lucide-react';
+import { LiveMatch, Market, ModelChoice } from '../types';
+import { applyModel } from './ModelPicker';
+
+interface Props {
+  markets: Market[];
+  initialMarketId: string | null;
+  model: ModelChoice;
+}
+
+const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+// In-play view: the combo re-priced from the live score, minute and corners,
+// pushed by the server over Server-Sent Events.
+export default function LivePage({ markets, initialMarketId, model }: Props) {
+  const [marketId, setMarketId] = useState(
+    markets.some(m => m.id === initialMarketId) ? initialMarketId! : markets[0]?.id ?? ''
+  );
+  const [matches, setMatches] = useState<LiveMatch[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!marketId) return;
+    const source = new EventSource(`/api/live/stream?${applyModel(new URLSearchParams({ market: marketId }), model)}`);
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+    source.onmessage = (event) => setMatches(JSON.parse(event.data));
+    return () => source.close();
+  }, [marketId, model]);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          value={marketId}
+          onChange={(e) => setMarketId(e.target.value)}
+          className="bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+        >
+          {markets.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+        <div className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest ${connected ? 'text-emerald-400' : 'text-zinc-500'}`}>
+          <Radio className={`w-3.5 h-3.5 ${connected ? 'animate-pulse' : ''}`} />
+          {connected ? 'Live' : 'Connecting...'}
+        </div>
+      </div>
+
+      {matches.length === 0 ? (
+        <div className="text-center py-20 bg-white/5 rounded-3xl border border-dashed border-white/10">
+          <p className="text-zinc-500">No matches in play right now.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {matches.map(match => (
+            <div key={match.matchId} className="p-6 rounded-3xl bg-white/5 border border-white/10">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <div>
+                  <div className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-2">{match.league}</div>
+                  <div className="text-lg font-bold">
+                    {match.homeTeam} <span className="font-mono text-emerald-400">{match.score.home}–{match.score.away}</span> {match.awayTeam}
+                  </div>
+                  <div className="text-xs text-zinc-500 mt-1">
+                    HT {match.score.h1Home}–{match.score.h1Away}
+                    {match.corners && ` • Corners ${match.corners.home}–${match.corners.away}`}
+                  </div>
+                </div>
+                <div className="px-3 py-1 rounded-full bg-emerald-500/10 border border-emerald-500/30 text-emerald-400 text-xs font-black uppercase tracking-widest">
+                  {match.status === 'PAUSED' ? 'Half-time' : `${match.minute}'`}
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                {match.sides.map(side => (
+                  <div key={String(side.isTeamYHome)} className="p-4 rounded-2xl bg-black/20 border border-white/5">
+                    <div className="flex items-baseline justify-between mb-3">
+                      <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+                        Team Y: {side.isTeamYHome ? match.homeTeam : match.awayTeam}
+                      </div>
+                      <div className="text-right">
+                        <div className="text-xl font-mono font-bold text-white">{pct(side.probability)}</div>
+                        <div className="text-[10px] text-zinc-500">
+                          pre-match {pct(side.preMatchProbability)}
+                          {side.fairOdds !== null && ` • fair ${side.fairOdds.toFixed(2)}`}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="space-y-1.5">
+                      {side.legs.map(leg => (
+                        <div key={leg.label} className="flex items-center justify-between text-xs">
+                          <span className="flex items-center gap-1.5 text-zinc-400">
+                            {leg.settled && (leg.probability > 0.5
+                              ? <Check className="w-3 h-3 text-emerald-400" />
+                              : <X className="w-3 h-3 text-red-400" />)}
+                            {leg.label}
+                          </span>
+                          <span className={`font-mono ${leg.settled ? 'text-zinc-500' : 'text-zinc-200'}`}>{pct(leg.probability)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
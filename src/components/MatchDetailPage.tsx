@@ -0,0 +1,332 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, RefreshCw, RotateCcw } from 'lucide-react';
+import { ComboLinePoint, FormEntry, LineMovement, MatchDetail, ModelChoice, ModelInputs, PriceComparison } from '../types';
+import { applyModel } from './ModelPicker';
+
+interface Props {
+  matchId: number;
+  marketId: string;
+  model: ModelChoice;
+  onBack: () => void;
+}
+
+type InputKey = 'homeExpG' | 'awayExpG' | 'homeExpC' | 'awayExpC';
+
+const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+// Re-pricing waits until the slider has been still this long
+const DEBOUNCE_MS = 250;
+
+const SELECTION_LABELS: Record<string, string> = { home: 'Home', draw: 'Draw', away: 'Away', over: 'Over', under: 'Under' };
+
+function ScoreMatrix({ title, matrix, homeTeam, awayTeam }: { title: string; matrix: number[][]; homeTeam: string; awayTeam: string }) {
+  const max = Math.max(...matrix.flat());
+  const label = (i: number) => (i === matrix.length - 1 ? `${i}+` : `${i}`);
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-2xl p-4">
+      <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-3">{title}</div>
+      <table className="text-[10px] font-mono w-full">
+        <thead>
+          <tr>
+            <th className="text-left text-zinc-600 font-bold" title={`${homeTeam} (rows) vs ${awayTeam} (columns)`}>H\A</th>
+            {matrix[0].map((_, j) => <th key={j} className="px-1 pb-1 text-zinc-500">{label(j)}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.map((row, i) => (
+            <tr key={i}>
+              <td className="pr-1 text-zinc-500 font-bold">{label(i)}</td>
+              {row.map((p, j) => (
+                <td
+                  key={j}
+                  className="px-1 py-1 text-center text-zinc-200"
+                  style={{ backgroundColor: `rgba(16, 185, 129, ${max > 0 ? (p / max) * 0.6 : 0})` }}
+                >
+                  {(p * 100).toFixed(1)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PriceTable({ title, rows }: { title: string; rows: PriceComparison[] }) {
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-2xl p-4">
+      <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-3">{title}</div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[10px] text-zinc-500 uppercase tracking-widest">
+            <th className="text-left pb-2">Selection</th>
+            <th className="text-right pb-2">Model</th>
+            <th className="text-right pb-2">Fair</th>
+            <th className="text-right pb-2">Best Odd</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {rows.map(r => {
+            const value = r.bestOdd !== null && r.probModel * r.bestOdd > 1;
+            return (
+              <tr key={`${r.selection}-${r.point}`} className="border-t border-white/5">
+                <td className="py-1.5 font-sans">{SELECTION_LABELS[r.selection] ?? r.selection}{r.point !== null && ` ${r.point}`}</td>
+                <td className="py-1.5 text-right">{pct(r.probModel)}</td>
+                <td className="py-1.5 text-right text-zinc-400">{r.fairOdds !== null ? r.fairOdds.toFixed(2) : '–'}</td>
+                <td className={`py-1.5 text-right ${value ? 'text-emerald-400 font-bold' : 'text-zinc-300'}`} title={r.bookmaker ? `${r.bookmaker} (${r.books} books)` : 'Not offered'}>
+                  {r.bestOdd !== null ? r.bestOdd.toFixed(2) : '–'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function FormList({ team, entries }: { team: string; entries: FormEntry[] }) {
+  const colors = { W: 'bg-emerald-500 text-black', D: 'bg-zinc-600 text-white', L: 'bg-rose-500 text-black' };
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-2xl p-4">
+      <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-3">{team} · Recent Form</div>
+      {entries.length === 0 && <p className="text-xs text-zinc-500 italic">No finished matches stored.</p>}
+      <div className="space-y-1.5">
+        {entries.map(e => (
+          <div key={e.matchId} className="flex items-center gap-3 text-xs">
+            <span className={`w-5 h-5 rounded flex items-center justify-center text-[10px] font-black ${colors[e.result]}`}>{e.result}</span>
+            <span className="text-zinc-500 font-mono w-20">{new Date(e.date).toLocaleDateString()}</span>
+            <span className="text-zinc-500 w-4">{e.venue}</span>
+            <span className="flex-1 truncate">{e.opponent}</span>
+            <span className="font-mono">{e.scored}-{e.conceded}</span>
+            <span className="font-mono text-zinc-500 w-12 text-right" title="Total corners">{e.corners !== null ? `${e.corners}c` : ''}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Best (solid) and average (dashed) combo price over time, on a shared scale
+function Sparkline({ points }: { points: ComboLinePoint[] }) {
+  if (points.length < 2) {
+    return <div className="text-xs text-zinc-600">{points.length === 0 ? 'No price history' : `${points[0].best.toFixed(2)} (one snapshot)`}</div>;
+  }
+  const times = points.map(p => new Date(p.at).getTime());
+  const low = Math.min(...points.map(p => p.average));
+  const high = Math.max(...points.map(p => p.best));
+  const x = (t: number) => 2 + ((t - times[0]) / Math.max(1, times[times.length - 1] - times[0])) * 196;
+  const y = (price: number) => 38 - ((price - low) / Math.max(1e-9, high - low)) * 36;
+  const line = (key: 'best' | 'average') => points.map((p, i) => `${x(times[i])},${y(p[key])}`).join(' ');
+  const first = points[0].best;
+  const last = points[points.length - 1].best;
+
+  return (
+    <div>
+      <svg viewBox="0 0 200 40" className="w-full h-12" preserveAspectRatio="none">
+        <polyline points={line('average')} fill="none" stroke="currentColor" strokeWidth={1} strokeDasharray="3 2" className="text-zinc-500" />
+        <polyline points={line('best')} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-emerald-400" />
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-zinc-500">
+        <span>{first.toFixed(2)}</span>
+        <span>best · average (dashed)</span>
+        <span className={last >= first ? 'text-emerald-400' : 'text-rose-400'}>{last.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function MatchDetailPage({ matchId, marketId, model, onBack }: Props) {
+  const [detail, setDetail] = useState<MatchDetail | null>(null);
+  const [inputs, setInputs] = useState<ModelInputs | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [movement, setMovement] = useState<LineMovement | null>(null);
+
+  const load = async (overrides?: ModelInputs) => {
+    setLoading(true);
+    try {
+      const params = applyModel(new URLSearchParams({ market: marketId }), model);
+      if (overrides) {
+        for (const key of ['homeExpG', 'awayExpG', 'homeExpC', 'awayExpC'] as const) {
+          params.set(key, String(overrides[key]));
+        }
+      }
+      const response = await fetch(`/api/matches/${matchId}?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setDetail(data);
+      setError(null);
+      if (!overrides) setInputs(data.inputs);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load match');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    fetch(`/api/matches/${matchId}/odds?${new URLSearchParams({ market: marketId })}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(setMovement)
+      .catch(err => console.error('Error fetching price history:', err));
+  }, [matchId, marketId, model]);
+
+  // Re-price on every (debounced) tweak of the inputs
+  useEffect(() => {
+    if (!inputs || !detail || inputs === detail.inputs) return;
+    const timer = setTimeout(() => load(inputs), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [inputs]);
+
+  if (!detail || !inputs) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 gap-4">
+        {error ? <p className="text-rose-400">{error}</p> : <RefreshCw className="w-12 h-12 text-emerald-500 animate-spin" />}
+      </div>
+    );
+  }
+
+  const { match } = detail;
+  const tweaked = (['homeExpG', 'awayExpG', 'homeExpC', 'awayExpC'] as InputKey[])
+    .some(k => Math.abs(inputs[k] - detail.modelInputs[k]) > 1e-9);
+  const slider = (key: InputKey, label: string, max: number) => (
+    <div key={key} className="space-y-1">
+      <div className="flex justify-between text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+        <span>{label}</span>
+        <span className="font-mono text-zinc-300">
+          {inputs[key].toFixed(2)} <span className="text-zinc-600">(model {detail.modelInputs[key].toFixed(2)})</span>
+        </span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={max}
+        step={0.05}
+        value={inputs[key]}
+        onChange={(e) => setInputs({ ...inputs, [key]: Number(e.target.value) })}
+        className="w-full accent-emerald-500"
+      />
+    </div>
+  );
+
+  const maxCorner = Math.max(...detail.corners.map(c => c.probability));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between gap-4">
+        <button onClick={onBack} className="flex items-center gap-2 text-sm text-zinc-400 hover:text-zinc-200">
+          <ArrowLeft className="w-4 h-4" /> Back
+        </button>
+        {loading && <RefreshCw className="w-4 h-4 text-emerald-500 animate-spin" />}
+      </div>
+
+      <div>
+        <div className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-2">
+          {match.league} • {new Date(match.date).toLocaleString()} • {match.status}
+        </div>
+        <h2 className="text-2xl font-bold">
+          {match.homeTeam} <span className="text-zinc-500">vs</span> {match.awayTeam}
+          {match.score && <span className="ml-3 font-mono text-emerald-400">{match.score.home}-{match.score.away}</span>}
+        </h2>
+      </div>
+
+      {/* Inputs and combo */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Model Inputs</div>
+            {tweaked && (
+              <button onClick={() => setInputs(detail.modelInputs)} className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-zinc-400 hover:text-zinc-200">
+                <RotateCcw className="w-3 h-3" /> Reset
+              </button>
+            )}
+          </div>
+          {slider('homeExpG', `${match.homeTeam} xG`, 5)}
+          {slider('awayExpG', `${match.awayTeam} xG`, 5)}
+          {slider('homeExpC', `${match.homeTeam} corners`, 15)}
+          {slider('awayExpC', `${match.awayTeam} corners`, 15)}
+          {detail.adjustments.length > 0 && (
+            <div className="text-xs text-amber-400 space-y-1">
+              <div className="text-[10px] font-black uppercase tracking-widest">Includes team news adjustments</div>
+              {detail.adjustments.map(a => (
+                <div key={a.id}>
+                  {a.target} {a.kind === 'percent' ? `${a.value > 0 ? '+' : ''}${a.value}%` : `set to ${a.value}`}
+                  <span className="text-zinc-500"> (fitted {detail.fittedInputs[a.target].toFixed(2)}) — {a.reason}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-6">
+          <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4">Selected Combo</div>
+          <div className="grid grid-cols-2 gap-4">
+            {detail.combo.map(c => (
+              <div key={String(c.isTeamYHome)}>
+                <div className="text-xs text-zinc-400 mb-1">Team Y: {c.isTeamYHome ? match.homeTeam : match.awayTeam}</div>
+                <div className="text-2xl font-mono font-bold text-white">{pct(c.probability)}</div>
+                {c.value ? (
+                  <div className="text-xs font-mono text-zinc-400 mt-1">
+                    @ {c.value.bestOdd.toFixed(2)} ·{' '}
+                    <span className={c.value.ev > 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                      EV {c.value.ev > 0 ? '+' : ''}{c.value.ev.toFixed(2)}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="text-xs text-zinc-600 mt-1">No combo price stored</div>
+                )}
+                {movement && (
+                  <div className="mt-4">
+                    <Sparkline points={c.isTeamYHome ? movement.combo.home : movement.combo.away} />
+                    {(c.isTeamYHome ? movement.closing.home : movement.closing.away) !== null && (
+                      <div className="text-[10px] text-zinc-500 mt-1">
+                        Closing {(c.isTeamYHome ? movement.closing.home : movement.closing.away)!.toFixed(2)}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Score matrices */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <ScoreMatrix title="Full Time (%)" matrix={detail.matrices.fullTime} homeTeam={match.homeTeam} awayTeam={match.awayTeam} />
+        <ScoreMatrix title={`1st Half (%, ${(inputs.h1Share * 100).toFixed(0)}% of goals)`} matrix={detail.matrices.firstHalf} homeTeam={match.homeTeam} awayTeam={match.awayTeam} />
+        <ScoreMatrix title="2nd Half (%)" matrix={detail.matrices.secondHalf} homeTeam={match.homeTeam} awayTeam={match.awayTeam} />
+      </div>
+
+      {/* Corners */}
+      <div className="bg-white/5 border border-white/10 rounded-2xl p-6">
+        <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-4">
+          Total Corners (mean {(inputs.homeExpC + inputs.awayExpC).toFixed(1)})
+        </div>
+        <div className="flex items-end gap-1 h-32">
+          {detail.corners.filter(c => c.total <= 25).map(c => (
+            <div key={c.total} className="flex-1 flex flex-col items-center justify-end h-full" title={`${c.total}: ${pct(c.probability)}`}>
+              <div className="w-full bg-emerald-500/70 rounded-t" style={{ height: `${(c.probability / maxCorner) * 100}%` }} />
+              <div className="text-[9px] font-mono text-zinc-500 mt-1">{c.total}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Prices */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <PriceTable title="1X2" rows={detail.prices.result} />
+        <PriceTable title="Goals Over/Under" rows={detail.prices.goals} />
+        <PriceTable title="Corners Over/Under" rows={detail.prices.corners} />
+      </div>
+
+      {/* Form */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <FormList team={match.homeTeam} entries={detail.form.home} />
+        <FormList team={match.awayTeam} entries={detail.form.away} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Sigma } from 'lucide-react';
+import { CornerModel, GoalModel, ModelChoice } from '../types';
+
+const selectClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500/50';
+
+const GOAL_MODELS: [GoalModel, string][] = [
+  ['poisson', 'Independent Poisson'],
+  ['dixon-coles', 'Dixon-Coles'],
+  ['bivariate-poisson', 'Bivariate Poisson']
+];
+const CORNER_MODELS: [CornerModel, string][] = [
+  ['poisson', 'Poisson corners'],
+  ['negative-binomial', 'Negative binomial corners']
+];
+
+export const DEFAULT_MODEL: ModelChoice = { goals: 'poisson', corners: 'poisson', gameState: false };
+
+// Adds the model to a query, leaving out what matches the server default
+export function applyModel(params: URLSearchParams, model: ModelChoice) {
+  if (model.goals !== DEFAULT_MODEL.goals) params.set('goalModel', model.goals);
+  if (model.corners !== DEFAULT_MODEL.corners) params.set('cornerModel', model.corners);
+  if (model.gameState !== DEFAULT_MODEL.gameState) params.set('gameState', String(model.gameState));
+  return params;
+}
+
+export function modelLabel(model: ModelChoice) {
+  const goals = GOAL_MODELS.find(([id]) => id === model.goals)![1];
+  const corners = CORNER_MODELS.find(([id]) => id === model.corners)![1];
+  return `${goals}, ${corners.toLowerCase()}${model.gameState ? ', game-state' : ''}`;
+}
+
+interface Props {
+  model: ModelChoice;
+  onChange: (model: ModelChoice) => void;
+}
+
+// Goal and corner distributions to price a run with
+export default function ModelPicker({ model, onChange }: Props) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Sigma className="w-3.5 h-3.5 text-zinc-500" />
+      <select value={model.goals} onChange={(e) => onChange({ ...model, goals: e.target.value as GoalModel })} className={selectClass}>
+        {GOAL_MODELS.map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+      </select>
+      <select value={model.corners} onChange={(e) => onChange({ ...model, corners: e.target.value as CornerModel })} className={selectClass}>
+        {CORNER_MODELS.map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+      </select>
+      <label className="flex items-center gap-2 text-xs uppercase tracking-widest text-zinc-500 font-bold cursor-pointer">
+        <input
+          type="checkbox"
+          checked={model.gameState}
+          onChange={(e) => onChange({ ...model, gameState: e.target.checked })}
+          className="accent-emerald-500"
+        />
+        Game-state corners
+      </label>
+    </div>
+  );
+}
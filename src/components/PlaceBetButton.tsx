@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Check, Wallet } from 'lucide-react';
+import { Opportunity } from '../types';
+
+interface Props {
+  opportunity: Opportunity;
+  onPlaced: () => void;
+}
+
+// "Place bet" action on an opportunity card, prefilled with the best odd and the
+// stake the staking model suggests.
+export default function PlaceBetButton({ opportunity, onPlaced }: Props) {
+  const [open, setOpen] = useState(false);
+  const [stake, setStake] = useState(opportunity.suggestedStake);
+  const [odds, setOdds] = useState(Number(opportunity.bestOdd.toFixed(2)));
+  const [error, setError] = useState<string | null>(null);
+  const [placed, setPlaced] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const submit = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/bets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          matchId: opportunity.matchId,
+          marketId: opportunity.marketId,
+          isTeamYHome: opportunity.isTeamYHome,
+          odds,
+          stake,
+          probModel: opportunity.probModel
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setPlaced(true);
+      setOpen(false);
+      onPlaced();
+    } catch (err: any) {
+      setError(err.message || 'Failed to place bet');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (placed) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs font-bold text-emerald-400">
+        <Check className="w-3.5 h-3.5" /> Bet placed
+      </div>
+    );
+  }
+
+  return (
+    <div onClick={(e) => e.stopPropagation()} className="cursor-default">
+      {!open ? (
+        <button
+          onClick={() => setOpen(true)}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-emerald-500 hover:text-black border border-white/10 text-xs font-bold transition-all"
+        >
+          <Wallet className="w-3.5 h-3.5" />
+          Place bet{opportunity.suggestedStake > 0 && ` · ${opportunity.suggestedStake.toFixed(2)}`}
+        </button>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Stake</label>
+          <input
+            type="number"
+            min={0}
+            step="0.5"
+            value={stake}
+            onChange={(e) => setStake(Number(e.target.value))}
+            className="w-20 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+          />
+          <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">@</label>
+          <input
+            type="number"
+            min={1}
+            step="0.01"
+            value={odds}
+            onChange={(e) => setOdds(Number(e.target.value))}
+            className="w-20 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+          />
+          <button
+            onClick={submit}
+            disabled={saving || stake <= 0}
+            className="px-3 py-1 rounded-lg bg-emerald-500 text-black text-xs font-bold disabled:opacity-50"
+          >
+            Confirm
+          </button>
+          <button onClick={() => setOpen(false)} className="px-2 py-1 text-xs text-zinc-500 hover:text-zinc-300">
+            Cancel
+          </button>
+          {error && <span className="text-xs text-rose-400">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
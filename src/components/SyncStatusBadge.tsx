@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertCircle, Clock } from 'lucide-react';
+import { SyncStatus } from '../types';
+
+const POLL_INTERVAL_MS = 30000;
+
+// Last and next background sync for the header; `refreshKey` forces a reload
+// after a manual sync.
+export default function SyncStatusBadge({ refreshKey }: { refreshKey: number }) {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => {
+    const load = () =>
+      fetch('/api/sync/status')
+        .then(response => response.json())
+        .then((data: SyncStatus) => setStatus(data))
+        .catch(error => console.error('Error fetching sync status:', error));
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refreshKey]);
+
+  if (!status) return null;
+
+  const lastSuccess = status.jobs
+    .map(j => j.lastSuccessAt)
+    .filter((d): d is string => d !== null)
+    .sort()
+    .pop();
+  const next = status.jobs
+    .map(j => j.nextRunAt)
+    .filter((d): d is string => d !== null)
+    .sort()[0];
+  const failed = status.jobs.filter(j => j.lastRun?.status === 'error');
+  const details = [
+    ...status.jobs.map(j => `${j.job}: ${j.lastRun ? `${j.lastRun.status} ${formatDistanceToNow(new Date(j.lastRun.startedAt))} ago` : 'never run'}${j.lastRun?.error ? ` (${j.lastRun.error})` : ''}`),
+    `Fixtures from ${status.providers.fixtures}, odds from ${status.providers.odds} · schema v${status.schemaVersion}`
+  ].join('\n');
+
+  return (
+    <div className="hidden md:flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-zinc-500" title={details}>
+      {failed.length > 0 ? <AlertCircle className="w-3.5 h-3.5 text-rose-400" /> : <Clock className="w-3.5 h-3.5" />}
+      <span>
+        {status.running
+          ? 'Syncing now'
+          : `Last sync ${lastSuccess ? `${formatDistanceToNow(new Date(lastSuccess))} ago` : 'never'}`}
+        {next && ` · next in ${formatDistanceToNow(new Date(next))}`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,510 @@
+export interface ProbabilityBreakdown {
+  legs: { label: string; probability: number }[];
+  pairwise: number[][];
+  probability: number;
+  standardError: number;
+  independentProbability: number;
+  method: 'exact' | 'monte-carlo';
+  iterations: number;
+}
+
+export interface Uncertainty {
+  sampleSize: number;
+  standardDeviation: number;
+  lower: number;
+  upper: number;
+}
+
+// One match x market x Team Y side from /api/opportunities
+export interface Opportunity {
+  key: string;
+  matchId: number;
+  marketId: string;
+  marketName: string;
+  homeTeam: string;
+  awayTeam: string;
+  league: string;
+  date: string;
+  probModel: number;
+  // Before manual adjustments; null when the match has none
+  probUnadjusted: number | null;
+  oddAvg: number;
+  bestOdd: number;
+  fairOdds: number | null;
+  probImplied: number;
+  edge: number;
+  ev: number;
+  confidence: 'High' | 'Medium' | 'Low';
+  uncertainty: Uncertainty;
+  isTeamYHome: boolean;
+  breakdown: ProbabilityBreakdown;
+  suggestedStake: number;
+}
+
+export interface OpportunityPage {
+  items: Opportunity[];
+  total: number;
+  nextCursor: string | null;
+  leagues: string[];
+}
+
+export interface MarketLeg {
+  type: string;
+  label: string;
+}
+
+export interface Market {
+  id: string;
+  name: string;
+  legs: MarketLeg[];
+}
+
+export interface StakingConfig {
+  method: 'flat' | 'proportional' | 'kelly';
+  bankroll: number;
+  flatStake: number;
+  proportion: number;
+  kellyFraction: number;
+  maxStake: number;
+  maxMatchdayExposure: number;
+}
+
+export interface Bet {
+  id: number;
+  matchId: number;
+  homeTeam: string;
+  awayTeam: string;
+  league: string;
+  date: string;
+  marketId: string;
+  marketName: string;
+  legs: string[];
+  isTeamYHome: boolean;
+  bookmaker: string | null;
+  odds: number;
+  closingOdds: number | null;
+  clv: number | null;
+  stake: number;
+  probModel: number | null;
+  status: 'open' | 'won' | 'lost' | 'void';
+  profit: number | null;
+  placedAt: string;
+  settledAt: string | null;
+}
+
+export interface BankrollSummary {
+  config: StakingConfig;
+  startingBankroll: number;
+  currentBankroll: number;
+  openBets: number;
+  openStake: number;
+  settledBets: number;
+  wins: number;
+  staked: number;
+  profit: number;
+  roi: number;
+  clv: number | null;
+  clvBets: number;
+  history: { date: string; bankroll: number }[];
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  predictions: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationGroup {
+  predictions: number;
+  hits: number;
+  brier: number;
+  logLoss: number;
+  brierSkill: number;
+  baseRate: number;
+  meanPredicted: number;
+  reliability: ReliabilityBin[];
+}
+
+export interface MarketCalibration extends CalibrationGroup {
+  marketId: string;
+  name: string;
+  byLeague: Record<string, CalibrationGroup>;
+}
+
+export interface CalibrationReport {
+  model: ModelChoice;
+  fixtures: number;
+  overall: CalibrationGroup;
+  byLeague: Record<string, CalibrationGroup>;
+  markets: MarketCalibration[];
+  adjustments: { fixtures: number; adjusted: CalibrationGroup; unadjusted: CalibrationGroup } | null;
+}
+
+export interface SyncRun {
+  id: number;
+  job: string;
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'success' | 'partial' | 'error';
+  rows: number | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface SyncStatus {
+  running: boolean;
+  providers: { fixtures: string; odds: string };
+  schemaVersion: number;
+  jobs: {
+    job: string;
+    intervalMinutes: number;
+    running: boolean;
+    nextRunAt: string | null;
+    lastRun: SyncRun | null;
+    lastSuccessAt: string | null;
+  }[];
+  recentRuns: SyncRun[];
+}
+
+export interface ModelInputs {
+  homeExpG: number;
+  awayExpG: number;
+  homeExpC: number;
+  awayExpC: number;
+  rho: number;
+  h1Share: number;
+  goalCovariance: number;
+  cornerDispersion: number;
+}
+
+export type GoalModel = 'poisson' | 'bivariate-poisson' | 'dixon-coles';
+export type CornerModel = 'poisson' | 'negative-binomial';
+
+export interface ModelChoice {
+  goals: GoalModel;
+  corners: CornerModel;
+  gameState: boolean;
+}
+
+export interface PriceComparison {
+  market: string;
+  selection: string;
+  point: number | null;
+  probModel: number;
+  fairOdds: number | null;
+  bestOdd: number | null;
+  bookmaker: string | null;
+  books: number;
+}
+
+export interface FormEntry {
+  matchId: number;
+  date: string;
+  opponent: string;
+  venue: 'H' | 'A';
+  scored: number;
+  conceded: number;
+  result: 'W' | 'D' | 'L';
+  corners: number | null;
+}
+
+export interface MatchDetail {
+  match: {
+    id: number;
+    date: string;
+    status: string;
+    league: string | null;
+    homeTeam: string;
+    awayTeam: string;
+    score: { home: number; away: number } | null;
+    corners: number | null;
+  };
+  model: ModelChoice;
+  fittedInputs: ModelInputs;
+  adjustments: Adjustment[];
+  modelInputs: ModelInputs;
+  inputs: ModelInputs;
+  matrices: { fullTime: number[][]; firstHalf: number[][]; secondHalf: number[][] };
+  corners: { total: number; probability: number }[];
+  prices: { result: PriceComparison[]; goals: PriceComparison[]; corners: PriceComparison[] };
+  combo: {
+    isTeamYHome: boolean;
+    probability: number;
+    legs: number[];
+    value: { bestOdd: number; fairOdds: number | null; probImplied: number; edge: number; ev: number } | null;
+  }[];
+  form: { home: FormEntry[]; away: FormEntry[] };
+}
+
+export interface LiveLeg {
+  label: string;
+  probability: number;
+  settled: boolean;
+}
+
+export interface LiveSide {
+  isTeamYHome: boolean;
+  probability: number;
+  preMatchProbability: number;
+  fairOdds: number | null;
+  legs: LiveLeg[];
+}
+
+export interface LiveMatch {
+  matchId: number;
+  homeTeam: string;
+  awayTeam: string;
+  league: string;
+  date: string;
+  status: 'IN_PLAY' | 'PAUSED';
+  minute: number;
+  score: { home: number; away: number; h1Home: number; h1Away: number };
+  corners: { home: number; away: number } | null;
+  sides: LiveSide[];
+}
+
+export interface ComboLinePoint {
+  at: string;
+  best: number;
+  average: number;
+  books: number;
+}
+
+export interface LineMovement {
+  matchId: number;
+  kickoff: string;
+  closing: { home: number | null; away: number | null };
+  selections: { bookmaker: string; market: string; selection: string; point: number; points: { at: string; price: number }[] }[];
+  combo: { home: ComboLinePoint[]; away: ComboLinePoint[] };
+}
+
+export type DevigMethod = 'proportional' | 'shin' | 'power';
+
+export interface BookSelection {
+  selection: string;
+  bookmaker: string;
+  odds: number;
+  fairProbability: number;
+  fairOdds: number;
+}
+
+export interface MarketBook {
+  matchId: number;
+  homeTeam: string;
+  awayTeam: string;
+  league: string;
+  date: string;
+  market: string;
+  point: number;
+  selections: BookSelection[];
+  bestOverround: number;
+  overrounds: { bookmaker: string; overround: number }[];
+}
+
+export interface Arbitrage {
+  matchId: number;
+  homeTeam: string;
+  awayTeam: string;
+  league: string;
+  date: string;
+  market: string;
+  point: number;
+  profit: number;
+  legs: { selection: string; bookmaker: string; odds: number; stakeShare: number }[];
+}
+
+export interface ArbitrageScan {
+  devig: DevigMethod;
+  arbitrages: Arbitrage[];
+  bookmakers: { bookmaker: string; books: number; averageOverround: number }[];
+  books: MarketBook[];
+}
+
+export type AlertFormat = 'json' | 'telegram' | 'discord';
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  enabled: boolean;
+  format: AlertFormat;
+  url: string;
+  chatId: string | null;
+  market: string;
+  leagues: string[] | null;
+  minEdge: number;
+  minEv: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertDelivery {
+  id: number;
+  ruleId: number;
+  ruleName: string | null;
+  opportunityKey: string;
+  event: 'new' | 'price_improved';
+  bestOdd: number;
+  status: 'sent' | 'failed';
+  error: string | null;
+  sentAt: string;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  label: string | null;
+  createdAt: string;
+  markets: string[];
+  seed: number;
+  total: number;
+}
+
+export type EntityType = 'team' | 'competition';
+
+export interface EntityOption {
+  id: number;
+  name: string;
+  score?: number;
+}
+
+export interface EntityReview {
+  id: number;
+  entity: EntityType;
+  source: string;
+  name: string;
+  leagueId: number | null;
+  context: { kickoff?: string; homeTeam?: string; awayTeam?: string; matchId?: number };
+  candidateId: number | null;
+  candidateName: string | null;
+  score: number | null;
+  status: 'pending' | 'confirmed' | 'rejected';
+  resolvedId: number | null;
+  seen: number;
+  createdAt: string;
+  updatedAt: string;
+  candidates: EntityOption[];
+}
+
+export interface EntityAlias {
+  alias: string;
+  id: number;
+  name: string | null;
+  source: string | null;
+  status: 'confirmed' | 'auto';
+  score: number | null;
+  updatedAt: string | null;
+}
+
+export interface User {
+  id: number;
+  username: string;
+  role: 'admin' | 'user';
+  createdAt: string;
+}
+
+export interface FilterPreset {
+  id: number;
+  name: string;
+  params: Record<string, string | number | boolean>;
+  createdAt: string;
+}
+
+export interface Follows {
+  leagues: { id: number; name: string }[];
+  teams: { id: number; name: string; league: string | null }[];
+}
+
+export interface WatchlistItem {
+  matchId: number;
+  homeTeam: string;
+  awayTeam: string;
+  league: string | null;
+  date: string;
+  status: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  addedAt: string;
+}
+
+export type AdjustmentTarget = 'homeExpG' | 'awayExpG' | 'homeExpC' | 'awayExpC';
+export type AdjustmentKind = 'percent' | 'absolute';
+
+export interface AdjustmentState {
+  target: AdjustmentTarget;
+  kind: AdjustmentKind;
+  value: number;
+  active: boolean;
+}
+
+export interface Adjustment extends AdjustmentState {
+  id: number;
+  matchId: number;
+  reason: string;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdjustmentLogEntry {
+  id: number;
+  adjustmentId: number;
+  matchId: number;
+  action: 'create' | 'update' | 'delete';
+  user: string | null;
+  reason: string;
+  before: AdjustmentState | null;
+  after: AdjustmentState | null;
+  at: string;
+}
+
+export interface PortfolioSelection {
+  key: string;
+  matchId: number;
+  homeTeam: string;
+  awayTeam: string;
+  league: string;
+  date: string;
+  marketId: string;
+  marketName: string;
+  isTeamYHome: boolean;
+  probModel: number;
+  bestOdd: number;
+  fairOdds: number | null;
+  edge: number;
+  ev: number;
+  // Of the profit per unit staked
+  variance: number;
+  suggestedStake: number;
+}
+
+export interface Portfolio {
+  selections: PortfolioSelection[];
+  // Null for a single selection
+  accumulator: {
+    // Joint probability; legs from one match are priced together
+    probability: number;
+    independentProbability: number;
+    odds: number;
+    fairOdds: number | null;
+    ev: number;
+    variance: number;
+    suggestedStake: number;
+  } | null;
+  sameMatch: {
+    matchId: number;
+    keys: string[];
+    jointProbability: number;
+    independentProbability: number;
+  }[];
+  stakes: {
+    bankroll: number;
+    kellyFraction: number;
+    exposureLeft: Record<string, number>;
+    totalStake: number;
+    expectedProfit: number;
+    standardDeviation: number;
+    probabilityOfLoss: number;
+    expectedLogGrowth: number;
+  };
+}
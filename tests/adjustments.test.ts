@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "../server/db";
+import {
+  adjustmentsAsOf, applyAdjustments, createAdjustment, deleteAdjustment, updateAdjustment, type AdjustmentState
+} from "../server/adjustments";
+import { seedLeague, seedMatch, seedTeam, seedUser } from "./helpers";
+
+seedLeague();
+seedTeam(57, "Arsenal FC");
+seedTeam(66, "Manchester United FC");
+const userId = seedUser();
+seedMatch({ id: 800, utcDate: "2025-09-20T15:00:00.000Z", homeTeamId: 57, awayTeamId: 66 });
+seedMatch({ id: 801, utcDate: "2025-09-27T15:00:00.000Z", homeTeamId: 66, awayTeamId: 57 });
+
+// The log stamps changes with the current time; pin the latest one so the
+// replay can be checked at fixed moments between the changes
+const stampLatest = (at: string) =>
+  db.prepare("UPDATE adjustment_log SET at = ? WHERE id = (SELECT MAX(id) FROM adjustment_log)").run(at);
+
+test("replays an adjustment that was created, updated and deleted as of each moment", () => {
+  const created = createAdjustment(800, { target: "homeExpG", kind: "percent", value: 10, reason: "Striker back" }, userId);
+  stampLatest("2025-09-18T10:00:00.000Z");
+  updateAdjustment(created.id, { value: -20, reason: "Striker injured again" }, userId);
+  stampLatest("2025-09-19T10:00:00.000Z");
+  assert.equal(deleteAdjustment(created.id, "Lineup confirmed", userId), true);
+  stampLatest("2025-09-20T10:00:00.000Z");
+
+  const asOf = adjustmentsAsOf();
+  const values = (at: string) => asOf(800, at).map(a => a.value);
+  assert.deepEqual(values("2025-09-18T09:59:59.999Z"), []);
+  assert.deepEqual(values("2025-09-18T10:00:00.000Z"), [10]);
+  assert.deepEqual(values("2025-09-19T09:00:00.000Z"), [10]);
+  assert.deepEqual(values("2025-09-19T10:00:00.000Z"), [-20]);
+  assert.deepEqual(values("2025-09-20T09:00:00.000Z"), [-20]);
+  assert.deepEqual(values("2025-09-20T10:00:00.000Z"), []);
+  assert.deepEqual(asOf(802, "2025-09-19T12:00:00.000Z"), []);
+});
+
+test("leaves out an adjustment while it was switched off", () => {
+  const created = createAdjustment(801, { target: "awayExpC", kind: "absolute", value: 4, reason: "Wide players out" }, userId);
+  stampLatest("2025-09-18T12:00:00.000Z");
+  updateAdjustment(created.id, { active: false, reason: "Not sure yet" }, userId);
+  stampLatest("2025-09-19T12:00:00.000Z");
+
+  const asOf = adjustmentsAsOf();
+  assert.deepEqual(asOf(801, "2025-09-18T13:00:00.000Z").map(a => a.target), ["awayExpC"]);
+  assert.deepEqual(asOf(801, "2025-09-19T13:00:00.000Z"), []);
+});
+
+test("applies an absolute override before percentage changes, whatever the order they were made in", () => {
+  const inputs = { homeExpG: 1.5, awayExpG: 1.2, homeExpC: 5, awayExpC: 4.5 };
+  const override: AdjustmentState = { target: "homeExpG", kind: "absolute", value: 2, active: true };
+  const percent: AdjustmentState = { target: "homeExpG", kind: "percent", value: 10, active: true };
+  const corners: AdjustmentState = { target: "awayExpC", kind: "percent", value: -20, active: true };
+
+  for (const adjustments of [[override, percent, corners], [percent, corners, override]]) {
+    const adjusted = applyAdjustments(inputs, adjustments);
+    assert.ok(Math.abs(adjusted.homeExpG - 2.2) < 1e-9);
+    assert.equal(adjusted.awayExpG, 1.2);
+    assert.equal(adjusted.homeExpC, 5);
+    assert.ok(Math.abs(adjusted.awayExpC - 3.6) < 1e-9);
+  }
+  assert.equal(inputs.homeExpG, 1.5);
+
+  const later: AdjustmentState = { ...override, value: 1.8 };
+  assert.ok(Math.abs(applyAdjustments(inputs, [override, later, percent]).homeExpG - 1.98) < 1e-9);
+});
@@ -0,0 +1,124 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createAlertRule, listAlertDeliveries, runAlerts } from "../server/alerts";
+import { seedLeague, seedMatch, seedPrice, seedTeam } from "./helpers";
+import { Stub, startStub } from "./stub";
+
+// Webhook receivers are paths on one local stub; /slow answers after a delay
+// and /down always fails.
+const SLOW_MS = 200;
+let stub: Stub;
+let inFlight = 0;
+let maxInFlight = 0;
+
+const bodies = (path: string) => stub.requests.filter(r => r.url.pathname === path).map(r => JSON.parse(r.body));
+
+const seedPrices = (homeWin: number) => {
+  seedPrice(800, "williamhill", "h2h", "home", homeWin);
+  seedPrice(800, "williamhill", "h2h", "away", 6);
+  seedPrice(800, "williamhill", "h2h", "draw", 4);
+  seedPrice(800, "williamhill", "btts", "no", 3);
+  seedPrice(800, "williamhill", "totals_corners", "over", 3, 8.5);
+};
+
+before(async () => {
+  stub = await startStub(({ url }) => {
+    if (url.pathname === "/down") return { status: 500 };
+    if (url.pathname !== "/slow") return { body: { ok: true } };
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    setTimeout(() => inFlight--, SLOW_MS);
+    return { body: { ok: true }, delayMs: SLOW_MS };
+  });
+
+  seedLeague();
+  seedTeam(57, "Arsenal FC");
+  seedTeam(66, "Manchester United FC");
+  seedMatch({ id: 800, utcDate: new Date(Date.now() + 2 * 86400000).toISOString(), homeTeamId: 57, awayTeamId: 66 });
+  seedPrices(3);
+
+  const rule = { market: "teamy-win-btts-no-o85c" };
+  createAlertRule({ ...rule, name: "Generic", format: "json", url: `${stub.url}/generic` });
+  createAlertRule({ ...rule, name: "Telegram", format: "telegram", url: `${stub.url}/telegram`, chatId: "-1001" });
+  createAlertRule({ ...rule, name: "Discord", format: "discord", url: `${stub.url}/discord` });
+});
+
+after(() => stub.close());
+
+test("sends each matching pick to every rule in its format", async () => {
+  const result = await runAlerts();
+  assert.deepEqual(result.errors, []);
+
+  const generic = bodies("/generic");
+  assert.ok(generic.length > 0);
+  assert.equal(result.sent, generic.length * 3);
+  for (const body of generic) {
+    assert.equal(body.event, "new");
+    assert.equal(body.previousOdd, null);
+    assert.equal(body.rule.name, "Generic");
+    assert.equal(body.opportunity.matchId, 800);
+    assert.equal(body.opportunity.marketId, "teamy-win-btts-no-o85c");
+    assert.ok(body.opportunity.ev > 0);
+  }
+
+  const telegram = bodies("/telegram");
+  assert.equal(telegram.length, generic.length);
+  for (const body of telegram) {
+    assert.deepEqual(Object.keys(body).sort(), ["chat_id", "text"]);
+    assert.equal(body.chat_id, "-1001");
+    assert.match(body.text, /^New value pick: Arsenal FC vs Manchester United FC \(Premier League\)/);
+  }
+
+  const discord = bodies("/discord");
+  assert.equal(discord.length, generic.length);
+  for (const body of discord) {
+    assert.deepEqual(Object.keys(body), ["content"]);
+    assert.match(body.content, /^New value pick: /);
+  }
+});
+
+test("a pick already sent is not sent again", async () => {
+  const before = stub.requests.length;
+  const result = await runAlerts();
+  assert.equal(result.sent, 0);
+  assert.equal(stub.requests.length, before);
+});
+
+test("a better price is sent as a separate event", async () => {
+  const firstNew = bodies("/generic").find(b => b.opportunity.isTeamYHome)!;
+  seedPrices(3.3);
+  const result = await runAlerts();
+  // Only the home side's combo includes the home win price
+  assert.equal(result.sent, 3);
+
+  const improved = bodies("/generic").filter(b => b.event === "price_improved");
+  assert.equal(improved.length, 1);
+  assert.equal(improved[0].opportunity.key, firstNew.opportunity.key);
+  assert.equal(improved[0].previousOdd, firstNew.opportunity.bestOdd);
+  assert.ok(Math.abs(improved[0].opportunity.bestOdd - 3.3 * 3 * 3) < 1e-9);
+  assert.match(bodies("/telegram").at(-1).text, /^Price improved 27\.00 -> 29\.70/);
+  assert.match(bodies("/discord").at(-1).content, /^Price improved 27\.00 -> 29\.70/);
+});
+
+test("failed deliveries are logged and retried on the next run", async () => {
+  createAlertRule({ market: "teamy-win-btts-no-o85c", name: "Down", format: "json", url: `${stub.url}/down` });
+  const first = await runAlerts();
+  assert.equal(first.sent, 0);
+  assert.deepEqual(first.errors, ["Down: HTTP 500"]);
+  assert.ok(listAlertDeliveries().some(d => d.ruleName === "Down" && d.status === "failed"));
+
+  const attempts = bodies("/down").length;
+  await runAlerts();
+  assert.equal(bodies("/down").length, attempts * 2);
+});
+
+test("webhooks are sent in parallel, a few at a time", async () => {
+  for (let i = 0; i < 4; i++) {
+    createAlertRule({ market: "teamy-win-btts-no-o85c", name: `Slow ${i}`, format: "json", url: `${stub.url}/slow` });
+  }
+  await runAlerts();
+  const slow = bodies("/slow").length;
+  assert.ok(slow >= 4);
+  assert.ok(maxInFlight > 1);
+  assert.ok(maxInFlight <= 4);
+});
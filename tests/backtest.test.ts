@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BacktestOptionsError, parseBacktestOptions, runBacktest } from "../server/backtest";
+import { meetsMinEv, valueMetrics } from "../server/value";
+import { seedLeague, seedMatch, seedSnapshot, seedTeam } from "./helpers";
+
+test("parses numeric backtest options", () => {
+  const options = parseBacktestOptions({ minEdge: "0.02", minEv: "0.05", stake: "2", leadMinutes: "60", refitDays: "14", devig: "power" });
+  assert.equal(options.minEdge, 0.02);
+  assert.equal(options.minEv, 0.05);
+  assert.equal(options.stake, 2);
+  assert.equal(options.leadMinutes, 60);
+  assert.equal(options.refitDays, 14);
+  assert.equal(options.devig, "power");
+  assert.equal(parseBacktestOptions({ minEv: "" }).minEv, undefined);
+});
+
+test("rejects numbers that do not parse or are out of range", () => {
+  for (const params of [{ minEdge: "abc" }, { minEv: "5%" }, { stake: "0" }, { leadMinutes: "-5" }, { refitDays: "NaN" }]) {
+    assert.throws(() => parseBacktestOptions(params), BacktestOptionsError);
+  }
+});
+
+test("parses date bounds and league ids", () => {
+  const options = parseBacktestOptions({ from: "2024-08-01", to: "2024-09-14", leagues: "2021,2014" });
+  assert.equal(options.from, "2024-08-01T00:00:00.000Z");
+  // A date-only upper bound covers the whole day
+  assert.equal(options.to, "2024-09-14T23:59:59.999Z");
+  assert.deepEqual(options.leagues, [2021, 2014]);
+});
+
+test("rejects dates and league ids that do not parse", () => {
+  for (const params of [{ to: "yesterday" }, { from: "2024-13-45" }, { leagues: "2021,PL" }, { leagues: "2021," }]) {
+    assert.throws(() => parseBacktestOptions(params), BacktestOptionsError);
+  }
+});
+
+test("rejects an unknown devig method with the options error", () => {
+  assert.throws(() => parseBacktestOptions({ devig: "magic" }), BacktestOptionsError);
+});
+
+test("the EV threshold is inclusive, and positive EV is required without one", () => {
+  const value = valueMetrics(0.35, [3]);
+  assert.ok(Math.abs(value.ev - 0.05) < 1e-12);
+  assert.equal(meetsMinEv(value, value.ev), true);
+  assert.equal(meetsMinEv(value, value.ev + 1e-9), false);
+  assert.equal(meetsMinEv(valueMetrics(0.25, [4])), false);
+  assert.equal(meetsMinEv(value), true);
+});
+
+test("bets are taken before the close, so CLV is measured by default", async () => {
+  seedLeague();
+  seedTeam(57, "Arsenal FC");
+  seedTeam(66, "Manchester United FC");
+  seedMatch({ id: 700, utcDate: "2025-09-13T14:00:00.000Z", homeTeamId: 57, awayTeamId: 66, h1: [1, 0], h2: [1, 0], corners: 11 });
+  const early = "2025-09-13T11:00:00.000Z";
+  seedSnapshot(700, "williamhill", "h2h", "home", 3, early);
+  seedSnapshot(700, "williamhill", "h2h", "away", 3, early);
+  seedSnapshot(700, "williamhill", "btts", "no", 3, early);
+  seedSnapshot(700, "williamhill", "totals_corners", "over", 3, early, 8.5);
+  // The home win shortens ten minutes before kickoff
+  seedSnapshot(700, "williamhill", "h2h", "home", 2.5, "2025-09-13T13:50:00.000Z");
+
+  const params = { market: "teamy-win-btts-no-o85c", from: "2025-09-13", to: "2025-09-13", adjustments: "false" };
+  const report = await runBacktest(parseBacktestOptions(params));
+  const [bet] = report.history.filter(b => b.isTeamYHome);
+  assert.equal(bet.odds, 27);
+  assert.ok(Math.abs(bet.closingOdds! - 22.5) < 1e-9);
+  assert.ok(Math.abs(bet.clv! - 0.2) < 1e-9);
+  assert.ok(report.clv !== null && report.clv > 0);
+
+  // At no lead the bet is taken at the close: no CLV rather than a flat 0
+  const atClose = await runBacktest(parseBacktestOptions({ ...params, leadMinutes: "0" }));
+  assert.ok(atClose.history.length > 0);
+  assert.ok(atClose.history.every(b => b.closingOdds === null && b.clv === null));
+  assert.equal(atClose.clv, null);
+});
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CalibrationOptionsError, parseCalibrationOptions } from "../server/calibration";
+
+test("parses calibration options", () => {
+  const options = parseCalibrationOptions({ bins: "20", refitDays: "3.5" });
+  assert.equal(options.bins, 20);
+  assert.equal(options.refitDays, 3.5);
+});
+
+test("rejects bins and refitDays that do not parse or are out of range", () => {
+  for (const params of [{ bins: "1" }, { bins: "ten" }, { refitDays: "0" }, { refitDays: "weekly" }]) {
+    assert.throws(() => parseCalibrationOptions(params), CalibrationOptionsError);
+  }
+});
+
+test("parses date bounds, a date-only upper bound covering the whole day", () => {
+  const options = parseCalibrationOptions({ from: "2024-08-01T12:00:00Z", to: "2024-09-14" });
+  assert.equal(options.from, "2024-08-01T12:00:00.000Z");
+  assert.equal(options.to, "2024-09-14T23:59:59.999Z");
+});
+
+test("rejects dates and league ids that do not parse", () => {
+  for (const params of [{ to: "yesterday" }, { from: "soon" }, { leagues: "PL" }]) {
+    assert.throws(() => parseCalibrationOptions(params), CalibrationOptionsError);
+  }
+});
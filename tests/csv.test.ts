@@ -0,0 +1,45 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { db } from "../server/db";
+import { importCornersCsv } from "../server/csv";
+import { seedLeague, seedMatch, seedTeam } from "./helpers";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "corners-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const writeCsv = (rows: string[]) => {
+  const file = path.join(dir, "results.csv");
+  fs.writeFileSync(file, ["Div,Date,HomeTeam,AwayTeam,HTHG,HTAG,HC,AC", ...rows].join("\n"));
+  return file;
+};
+
+seedLeague();
+// football-data.co.uk's "EC" is the English National League, not this one
+seedLeague(2018, "European Championship", "EC");
+seedTeam(57, "Arsenal FC");
+seedTeam(66, "Manchester United FC");
+seedMatch({ id: 900, utcDate: "2024-09-14T14:00:00.000Z", homeTeamId: 57, awayTeamId: 66, h1: [1, 0], h2: [1, 1] });
+
+test("imports corners for a fixture in a known division", () => {
+  const result = importCornersCsv(writeCsv(["E0,14/09/2024,Arsenal,Man United,1,0,7,3"]));
+  assert.equal(result.updated, 1);
+  assert.equal((db.prepare("SELECT corners FROM matches WHERE id = 900").get() as any).corners, 10);
+});
+
+test("unknown divisions are not resolved or queued as competitions", () => {
+  const result = importCornersCsv(writeCsv([
+    "EC,14/09/2024,Wrexham,Notts County,0,0,5,5",
+    "SC0,14/09/2024,Arsenal,Man United,1,0,8,3"
+  ]));
+  const aliases = db.prepare("SELECT alias FROM competition_aliases").all() as any[];
+  const reviews = db.prepare("SELECT name FROM entity_reviews WHERE entity = 'competition'").all();
+  // Only E0's mapped code from the first import
+  assert.deepEqual(aliases.map(a => a.alias), ["pl"]);
+  assert.deepEqual(reviews, []);
+  // A fixture from an unmapped division still matches on teams and date
+  assert.equal(result.updated, 1);
+  assert.equal(result.unmatchedFixtures, 1);
+});
@@ -0,0 +1,64 @@
+import { db } from "../server/db";
+
+// Fixtures for tests: each test process runs on its own in-memory database
+// (DB_PATH=:memory:, see the test script), so ids only need to be unique
+// within one file.
+
+export function seedLeague(id = 2021, name = "Premier League", code = "PL") {
+  db.prepare("INSERT OR REPLACE INTO leagues (id, name, code) VALUES (?, ?, ?)").run(id, name, code);
+  return id;
+}
+
+export function seedTeam(id: number, name: string, leagueId = 2021) {
+  db.prepare("INSERT OR REPLACE INTO teams (id, name, league_id) VALUES (?, ?, ?)").run(id, name, leagueId);
+  return id;
+}
+
+export interface MatchFixture {
+  id: number;
+  utcDate: string;
+  status?: string;
+  leagueId?: number;
+  homeTeamId: number;
+  awayTeamId: number;
+  // [home, away] per half; omitted for matches not yet played
+  h1?: [number, number];
+  h2?: [number, number];
+  corners?: number | null;
+}
+
+export function seedMatch(m: MatchFixture) {
+  const played = m.h1 && m.h2;
+  db.prepare(`
+    INSERT OR REPLACE INTO matches (
+      id, utc_date, status, league_id, home_team_id, away_team_id, home_score_full, away_score_full,
+      home_score_h1, away_score_h1, home_score_h2, away_score_h2, corners
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    m.id, m.utcDate, m.status ?? (played ? "FINISHED" : "TIMED"), m.leagueId ?? 2021, m.homeTeamId, m.awayTeamId,
+    played ? m.h1![0] + m.h2![0] : null, played ? m.h1![1] + m.h2![1] : null,
+    m.h1?.[0] ?? null, m.h1?.[1] ?? null, m.h2?.[0] ?? null, m.h2?.[1] ?? null, m.corners ?? null
+  );
+  return m.id;
+}
+
+export function seedUser(username = "tester", role = "admin") {
+  const result = db.prepare(`
+    INSERT INTO users (username, password_hash, salt, role, created_at) VALUES (?, '', '', ?, ?)
+  `).run(username, role, new Date().toISOString());
+  return Number(result.lastInsertRowid);
+}
+
+// One bookmaker's current price for a selection, as the odds sync stores it
+export function seedPrice(matchId: number, bookmaker: string, market: string, selection: string, price: number, point = 0) {
+  db.prepare(`
+    INSERT OR REPLACE INTO odds (match_id, bookmaker, market, selection, point, price, last_update) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(matchId, bookmaker, market, selection, point, price, new Date().toISOString());
+}
+
+// A price as published at `at`, for replays that read the snapshot history
+export function seedSnapshot(matchId: number, bookmaker: string, market: string, selection: string, price: number, at: string, point = 0) {
+  db.prepare(`
+    INSERT INTO odds_snapshots (match_id, bookmaker, market, selection, point, price, last_update, fetched_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(matchId, bookmaker, market, selection, point, price, at, at);
+}
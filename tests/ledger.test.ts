@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "../server/db";
+import { LedgerError, getBet, placeBet, settleOpenBets } from "../server/ledger";
+import { seedLeague, seedMatch, seedTeam, seedUser } from "./helpers";
+
+seedLeague();
+seedTeam(57, "Arsenal FC");
+seedTeam(66, "Manchester United FC");
+const userId = seedUser();
+
+// Match ids well away from bet ids, so settling by the wrong id cannot pass by accident
+seedMatch({ id: 500, utcDate: "2025-09-01T15:00:00.000Z", homeTeamId: 57, awayTeamId: 66, h1: [1, 0], h2: [1, 0], corners: 10 });
+seedMatch({ id: 501, utcDate: "2025-09-08T15:00:00.000Z", homeTeamId: 66, awayTeamId: 57, h1: [1, 1], h2: [0, 0], corners: 7 });
+seedMatch({ id: 502, utcDate: "2099-01-01T15:00:00.000Z", homeTeamId: 57, awayTeamId: 66 });
+
+const bet = (matchId: number, isTeamYHome: boolean) =>
+  placeBet(userId, { matchId, marketId: "teamy-win-btts-no-o85c", isTeamYHome, odds: 5, stake: 10 })!;
+
+test("settles open bets on finished matches by bet id", () => {
+  const won = bet(500, true);
+  const lost = bet(501, true);
+  const pending = bet(502, true);
+
+  assert.equal(settleOpenBets(), 2);
+  assert.equal(getBet(won.id)!.status, "won");
+  assert.equal(getBet(won.id)!.profit, 40);
+  assert.equal(getBet(lost.id)!.status, "lost");
+  assert.equal(getBet(lost.id)!.profit, -10);
+  assert.equal(getBet(pending.id)!.status, "open");
+  // Nothing left to settle on a second run
+  assert.equal(settleOpenBets(), 0);
+});
+
+test("voids bets on cancelled matches", () => {
+  seedMatch({ id: 503, utcDate: "2025-09-15T15:00:00.000Z", status: "CANCELLED", homeTeamId: 57, awayTeamId: 66 });
+  const voided = bet(503, false);
+  settleOpenBets();
+  assert.equal(getBet(voided.id)!.status, "void");
+  assert.equal((db.prepare("SELECT COUNT(*) as n FROM bets WHERE status = 'open'").get() as any).n, 1);
+});
+
+const teamCorners = {
+  id: "custom",
+  name: "Team corners",
+  legs: [{ type: "team_corners", team: "teamY", side: "over", line: 4.5 }]
+};
+
+test("refuses bets that could never settle", () => {
+  assert.throws(
+    () => placeBet(userId, { matchId: 502, definition: teamCorners, isTeamYHome: true, odds: 3, stake: 5 }),
+    LedgerError
+  );
+});
+
+test("voids open bets on unsettleable markets once the match is over", () => {
+  seedMatch({ id: 504, utcDate: "2025-09-22T15:00:00.000Z", homeTeamId: 57, awayTeamId: 66, h1: [0, 0], h2: [0, 0], corners: 9 });
+  const legacy = bet(504, true);
+  db.prepare("UPDATE bets SET market_json = ? WHERE id = ?").run(JSON.stringify(teamCorners), legacy.id);
+  assert.equal(settleOpenBets(), 1);
+  assert.equal(getBet(legacy.id)!.status, "void");
+  assert.equal(getBet(legacy.id)!.profit, 0);
+});
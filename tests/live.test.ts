@@ -0,0 +1,82 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { db } from "../server/db";
+import { createFileFeed, livePrices, liveSnapshots, pollLiveFeed, subscribeLive } from "../server/live";
+import { findMarket } from "../server/markets";
+import { seedLeague, seedMatch, seedTeam } from "./helpers";
+import { fixturePath } from "./stub";
+
+// The scripted feed plays one match: 2-0 before half-time, 2-0 after it with
+// six home corners, then finished. Match 999 is unknown here and ignored.
+const feed = createFileFeed(fixturePath("live-feed.json"));
+const market = findMarket("u35-halves-teamy-half-o55c")!;
+let notified = 0;
+subscribeLive(() => notified++);
+
+before(() => {
+  seedLeague();
+  seedTeam(57, "Arsenal FC");
+  seedTeam(66, "Manchester United FC");
+  seedMatch({ id: 700, utcDate: new Date().toISOString(), homeTeamId: 57, awayTeamId: 66 });
+});
+
+const legsFor = async (isTeamYHome: boolean) =>
+  (await livePrices(market)).find(m => m.matchId === 700)!.sides.find(s => s.isTeamYHome === isTeamYHome)!.legs;
+
+test("a poll stores known matches, marks them in play and notifies subscribers", async () => {
+  assert.equal(await pollLiveFeed(feed), 1);
+  assert.deepEqual(liveSnapshots().map(s => s.matchId), [700]);
+  assert.equal((db.prepare("SELECT status FROM matches WHERE id = 700").get() as any).status, "IN_PLAY");
+  assert.equal(notified, 1);
+});
+
+test("legs still open before half-time are not settled", async () => {
+  const [h1Under, , halfWin, corners] = await legsFor(true);
+  // Two more goals before the break would still lose H1 under 3.5
+  assert.equal(h1Under.settled, false);
+  assert.ok(h1Under.probability > 0.5 && h1Under.probability < 1);
+  assert.equal(halfWin.settled, false);
+  assert.equal(corners.settled, false);
+});
+
+test("an unchanged frame does not notify subscribers", async () => {
+  await pollLiveFeed(feed);
+  assert.equal(notified, 1);
+});
+
+test("legs decided by the score are reported as settled", async () => {
+  await pollLiveFeed(feed);
+  assert.equal(notified, 2);
+
+  const [h1Under, h2Under, homeHalf, corners] = await legsFor(true);
+  assert.equal(h1Under.settled, true);
+  assert.ok(h1Under.probability > 0.99);
+  assert.equal(h2Under.settled, false);
+  // The home side won the first half 2-0, with seven corners already taken
+  assert.equal(homeHalf.settled, true);
+  assert.equal(corners.settled, true);
+
+  const [, , awayHalf] = await legsFor(false);
+  assert.equal(awayHalf.settled, false);
+});
+
+test("matches missing from the feed drop out of the live state", async () => {
+  assert.equal(await pollLiveFeed(feed), 0);
+  assert.deepEqual(liveSnapshots(), []);
+  assert.deepEqual(await livePrices(market), []);
+  assert.equal(notified, 3);
+});
+
+test("a match deleted since the last poll is skipped, not priced", async () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "live-")), "feed.json");
+  fs.writeFileSync(file, JSON.stringify([[{ matchId: 700, minute: 10 }, { matchId: 701, minute: 20 }]]));
+  seedMatch({ id: 701, utcDate: new Date().toISOString(), homeTeamId: 66, awayTeamId: 57 });
+  assert.equal(await pollLiveFeed(createFileFeed(file)), 2);
+  fs.rmSync(path.dirname(file), { recursive: true, force: true });
+
+  db.prepare("DELETE FROM matches WHERE id = 701").run();
+  assert.deepEqual((await livePrices(market)).map(m => m.matchId), [700]);
+});
@@ -0,0 +1,55 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DEFAULT_MARKET_ID, MARKETS, MarketDefinitionError, loadMarkets } from "../server/markets";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "markets-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const writeMarkets = (markets: unknown) => {
+  const file = path.join(dir, "markets.json");
+  fs.writeFileSync(file, typeof markets === "string" ? markets : JSON.stringify(markets));
+  return file;
+};
+
+const defaultMarket = {
+  id: DEFAULT_MARKET_ID,
+  name: "Default",
+  legs: [{ type: "goals", period: "ft", side: "under", line: 2.5 }]
+};
+
+test("the shipped catalogue loads with the default market", () => {
+  assert.deepEqual(MARKETS.map(m => m.id), [
+    "u35-halves-teamy-half-o55c",
+    "teamy-win-btts-no-o85c",
+    "btts-o25-o95c"
+  ]);
+});
+
+test("definitions are validated like posted ones", () => {
+  const [market] = loadMarkets(writeMarkets([{ ...defaultMarket, legs: [{ type: "btts", value: true }] }]));
+  // Defaults filled in by the validator
+  assert.deepEqual(market.legs, [{ type: "btts", period: "ft", value: true }]);
+
+  assert.throws(
+    () => loadMarkets(writeMarkets([{ ...defaultMarket, legs: [{ type: "goals", period: "ft", side: "over", line: -1 }] }])),
+    (error: Error) => error instanceof MarketDefinitionError &&
+      /market "u35-halves-teamy-half-o55c": Leg 1: line must be a non-negative number/.test(error.message)
+  );
+});
+
+test("rejects files that are not a usable catalogue", () => {
+  for (const contents of [
+    "{ not json",
+    [],
+    [defaultMarket, { legs: defaultMarket.legs }],
+    [defaultMarket, { ...defaultMarket }],
+    [{ ...defaultMarket, id: "other" }],
+    // Team corners can be priced but not settled
+    [defaultMarket, { id: "tc", name: "Team corners", legs: [{ type: "team_corners", team: "teamY", side: "over", line: 4.5 }] }]
+  ]) {
+    assert.throws(() => loadMarkets(writeMarkets(contents)), MarketDefinitionError);
+  }
+});
@@ -0,0 +1,93 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { Stub, readFixture, startStub } from "./stub";
+
+// The Odds API is replaced by a local stub serving recorded responses. The
+// provider reads its URL and key from the environment when first imported,
+// so the modules under test are imported once the stub is listening.
+const EVENT_ID = "e1a2b3c4d5e6f708192a3b4c5d6e7f80";
+let stub: Stub;
+let odds: typeof import("../server/odds");
+let markets: typeof import("../server/markets");
+let db: typeof import("../server/db").db;
+
+before(async () => {
+  stub = await startStub(({ url }) => {
+    if (url.searchParams.get("apiKey") !== "test-key") return { status: 401, body: { message: "Invalid API key" } };
+    if (url.pathname === "/v4/sports/soccer_epl/odds") return { body: readFixture("the-odds-api", "soccer_epl-odds.json") };
+    if (url.pathname === `/v4/sports/soccer_epl/events/${EVENT_ID}/odds`) {
+      return { body: readFixture("the-odds-api", `event-${EVENT_ID}-odds.json`) };
+    }
+    return { status: 404, body: { message: "Unknown event" } };
+  });
+  process.env.THE_ODDS_API_URL = `${stub.url}/v4`;
+  process.env.THE_ODDS_API_KEY = "test-key";
+  process.env.ODDS_PROVIDER = "the-odds-api";
+  odds = await import("../server/odds");
+  markets = await import("../server/markets");
+  db = (await import("../server/db")).db;
+  const { seedLeague, seedMatch, seedTeam } = await import("./helpers");
+
+  seedLeague(2021, "Premier League", "PL");
+  seedTeam(57, "Arsenal FC");
+  seedTeam(66, "Manchester United FC");
+  seedMatch({ id: 9100, utcDate: "2099-09-20T14:00:00.000Z", homeTeamId: 57, awayTeamId: 66 });
+});
+
+after(() => stub.close());
+
+test("syncs featured and per-event markets for matched fixtures", async () => {
+  const result = await odds.syncOdds();
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.matched, 1);
+  // Chelsea v Liverpool has no fixture here
+  assert.equal(result.unmatched, 1);
+  assert.equal(result.rows, 28);
+
+  const featured = stub.requests.find(r => r.url.pathname === "/v4/sports/soccer_epl/odds")!;
+  assert.equal(featured.url.searchParams.get("markets"), "h2h,totals");
+  assert.equal(featured.url.searchParams.get("oddsFormat"), "decimal");
+  assert.ok(stub.requests.some(r => r.url.pathname.endsWith(`/events/${EVENT_ID}/odds`)));
+
+  const prices = odds.loadMatchPrices(9100);
+  const hill = prices.get("williamhill")!;
+  assert.equal(hill.get(odds.priceKey("h2h", "home")), 1.8);
+  assert.equal(hill.get(odds.priceKey("h2h", "draw")), 3.8);
+  // Aliased markets share the main line's key
+  assert.equal(hill.get(odds.priceKey("h2h_h1", "home")), 2.4);
+  assert.equal(hill.get(odds.priceKey("totals_corners", "over", 8.5)), 1.62);
+  assert.equal(prices.get("bet365")!.get(odds.priceKey("btts", "no")), 2.1);
+});
+
+test("re-syncing unchanged prices adds no snapshots", async () => {
+  const count = () => (db.prepare("SELECT COUNT(*) as n FROM odds_snapshots").get() as any).n;
+  const before = count();
+  await odds.syncOdds();
+  assert.equal(count(), before);
+});
+
+test("prices combos from the stored legs, skipping bookmakers missing one", () => {
+  const prices = odds.loadMatchPrices(9100);
+  const winToNil = markets.findMarket("teamy-win-btts-no-o85c")!;
+  // Only William Hill prices corners: home win x BTTS no x over 8.5 corners
+  const [home] = odds.comboPrices(prices, winToNil, true);
+  assert.equal(odds.comboPrices(prices, winToNil, true).length, 1);
+  assert.ok(Math.abs(home - 1.8 * 2.05 * 1.62) < 1e-9);
+  const [away] = odds.comboPrices(prices, winToNil, false);
+  assert.ok(Math.abs(away - 4.5 * 2.05 * 1.62) < 1e-9);
+
+  // "Win either half" is built from the two half-time result prices
+  const halves = markets.findMarket("u35-halves-teamy-half-o55c")!;
+  const eitherHalf = 1 / (1 - (1 - 1 / 2.4) * (1 - 1 / 2.2));
+  const [combo] = odds.comboPrices(prices, halves, true);
+  assert.ok(Math.abs(combo - 1.02 * 1.04 * eitherHalf * 1.08) < 1e-9);
+});
+
+test("a league failing upstream is reported while the others still sync", async () => {
+  const { seedLeague } = await import("./helpers");
+  // The stub has no recording for the Bundesliga and answers 404
+  seedLeague(2002, "Bundesliga", "BL1");
+  const result = await odds.syncOdds();
+  assert.deepEqual(result.errors, ["BL1: HTTP 404"]);
+  assert.equal(result.matched, 1);
+});
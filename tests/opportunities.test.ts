@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { OpportunityQueryError, findAllOpportunities, findOpportunities, parseOpportunityQuery } from "../server/opportunities";
+import { seedLeague, seedMatch, seedPrice, seedTeam } from "./helpers";
+
+seedLeague();
+seedTeam(57, "Arsenal FC");
+seedTeam(66, "Manchester United FC");
+// An evening kickoff on the 14th and a lunchtime one on the 15th
+seedMatch({ id: 600, utcDate: "2099-09-14T19:45:00.000Z", homeTeamId: 57, awayTeamId: 66 });
+seedMatch({ id: 601, utcDate: "2099-09-15T12:30:00.000Z", homeTeamId: 66, awayTeamId: 57 });
+for (const matchId of [600, 601]) {
+  seedPrice(matchId, "williamhill", "h2h", "home", 4);
+  seedPrice(matchId, "williamhill", "h2h", "away", 4);
+  seedPrice(matchId, "williamhill", "btts", "no", 3);
+  seedPrice(matchId, "williamhill", "totals_corners", "over", 3, 8.5);
+}
+
+const matchIds = async (params: Record<string, string>) => {
+  const { items } = await findAllOpportunities(parseOpportunityQuery({ market: "teamy-win-btts-no-o85c", ...params }));
+  return [...new Set(items.map(o => o.matchId))].sort();
+};
+
+test("a date-only upper bound includes every kickoff that day", async () => {
+  assert.equal(parseOpportunityQuery({ to: "2099-09-14" }).to, "2099-09-14T23:59:59.999Z");
+  assert.deepEqual(await matchIds({ to: "2099-09-14" }), [600]);
+  assert.deepEqual(await matchIds({ from: "2099-09-15" }), [601]);
+  assert.deepEqual(await matchIds({ from: "2099-09-14", to: "2099-09-15" }), [600, 601]);
+});
+
+test("timestamps bound the slate to the instant", async () => {
+  assert.deepEqual(await matchIds({ to: "2099-09-14T19:00:00Z" }), []);
+  assert.deepEqual(await matchIds({ from: "2099-09-14T21:00:00+01:00" }), [601]);
+});
+
+test("rejects dates that do not parse", () => {
+  for (const params of [{ from: "tomorrow" }, { to: "2099-02-30x" }]) {
+    assert.throws(() => parseOpportunityQuery(params), OpportunityQueryError);
+  }
+});
+
+test("the whole slate matches the pages it would be served in, each row once", async () => {
+  const params = { market: "teamy-win-btts-no-o85c", minEv: "-1", sort: "date", order: "asc" };
+  const all = await findAllOpportunities(parseOpportunityQuery(params));
+  assert.equal(all.items.length, all.total);
+  assert.equal(new Set(all.items.map(o => o.key)).size, all.items.length);
+
+  const paged: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await findOpportunities(parseOpportunityQuery({ ...params, limit: "1", ...(cursor ? { cursor } : {}) }));
+    paged.push(...page.items.map(o => o.key));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  assert.deepEqual(all.items.map(o => o.key), paged);
+});
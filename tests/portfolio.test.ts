@@ -0,0 +1,107 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findMarket } from "../server/markets";
+import { jointOutcomes, logOptimalFractions } from "../server/portfolio";
+import { MatchRatings } from "../server/ratings";
+import { DEFAULT_MODEL } from "../server/simulation";
+import { valueMetrics } from "../server/value";
+
+// Fixed model inputs: any Monte Carlo run is seeded from them, so every
+// probability is the same from run to run
+const inputs: MatchRatings = {
+  homeExpG: 1.6,
+  awayExpG: 1.1,
+  homeExpC: 5.6,
+  awayExpC: 4.4,
+  rho: -0.05,
+  h1Share: 0.45,
+  goalCovariance: 0,
+  cornerDispersion: 0
+};
+
+const selection = (matchId: number, marketId: string, isTeamYHome: boolean) => ({
+  key: `${matchId}:${marketId}:${isTeamYHome ? "home" : "away"}`,
+  m: { id: matchId, utc_date: "2099-09-20T14:00:00.000Z" },
+  market: findMarket(marketId)!,
+  isTeamYHome,
+  inputs,
+  value: valueMetrics(0, [10])
+});
+
+const sum = (xs: number[]) => xs.reduce((s, x) => s + x, 0);
+
+test("legs from one match are priced jointly and the outcomes cover every case once", async () => {
+  const selections = [
+    selection(1, "teamy-win-btts-no-o85c", true),
+    selection(1, "u35-halves-teamy-half-o55c", true),
+    selection(2, "btts-o25-o95c", true)
+  ];
+  const { outcomes, sameMatch } = await jointOutcomes(selections, DEFAULT_MODEL);
+
+  assert.ok(Math.abs(sum(outcomes.map(o => o.p)) - 1) < 1e-9);
+  // 2 x 2 combinations on match 1 times 2 on match 2, less any impossible ones
+  assert.ok(outcomes.length <= 8);
+  assert.equal(new Set(outcomes.map(o => o.wins.join())).size, outcomes.length);
+
+  assert.equal(sameMatch.length, 1);
+  const [group] = sameMatch;
+  assert.deepEqual(group.keys, selections.slice(0, 2).map(s => s.key));
+  assert.ok(Math.abs(group.jointProbability - group.independentProbability) > 1e-3);
+  // The joint outcome distribution reproduces the simulated joint probability
+  const bothWin = sum(outcomes.filter(o => o.wins[0] && o.wins[1]).map(o => o.p));
+  assert.ok(Math.abs(bothWin - group.jointProbability) < 1e-9);
+});
+
+test("contradictory legs on one match can never both win", async () => {
+  // BTTS no against BTTS yes
+  const { outcomes, sameMatch } = await jointOutcomes([
+    selection(3, "teamy-win-btts-no-o85c", true),
+    selection(3, "btts-o25-o95c", true)
+  ], DEFAULT_MODEL);
+  assert.equal(sameMatch[0].jointProbability, 0);
+  assert.ok(sameMatch[0].independentProbability > 0);
+  assert.ok(outcomes.every(o => !(o.wins[0] && o.wins[1])));
+  assert.ok(Math.abs(sum(outcomes.map(o => o.p)) - 1) < 1e-9);
+});
+
+// Independent bets on their own outcomes: every win/lose combination
+const independent = (ps: number[]) =>
+  Array.from({ length: 1 << ps.length }, (_, mask) => ({
+    p: ps.reduce((p, q, i) => p * (mask & (1 << i) ? q : 1 - q), 1),
+    wins: ps.map((_, i) => (mask & (1 << i)) !== 0)
+  }));
+
+const bet = (i: number, odds: number, day: string) => ({ odds, day, wins: (o: { wins: boolean[] }) => o.wins[i] });
+
+test("a lone uncapped bet converges on the Kelly fraction", () => {
+  // p = 0.6 at odds 3: Kelly stakes (0.6 * 3 - 1) / (3 - 1) = 0.4
+  const [fraction] = logOptimalFractions([bet(0, 3, "2099-09-20")], independent([0.6]), 1, new Map([["2099-09-20", 1]]), 1);
+  assert.ok(Math.abs(fraction - 0.4) < 0.01);
+});
+
+test("stakes stay within the per-bet cap", () => {
+  const fractions = logOptimalFractions([bet(0, 3, "d1"), bet(1, 3, "d2")], independent([0.6, 0.6]), 0.05, new Map([["d1", 1], ["d2", 1]]), 1);
+  fractions.forEach(f => assert.ok(f <= 0.05 + 1e-12));
+  fractions.forEach(f => assert.ok(f > 0.04));
+});
+
+test("stakes on one day stay within the exposure left that day", () => {
+  const bets = [bet(0, 3, "d1"), bet(1, 3, "d1"), bet(2, 3, "d2")];
+  const fractions = logOptimalFractions(bets, independent([0.6, 0.6, 0.6]), 1, new Map([["d1", 0.1], ["d2", 0]]), 1);
+  assert.ok(fractions[0] + fractions[1] <= 0.1 + 1e-12);
+  assert.ok(fractions[0] + fractions[1] > 0.09);
+  assert.equal(fractions[2], 0);
+});
+
+test("the whole slip stays within the bankroll share cap", () => {
+  const days = ["d1", "d2", "d3", "d4"];
+  const bets = days.map((day, i) => bet(i, 5, day));
+  const fractions = logOptimalFractions(bets, independent([0.7, 0.7, 0.7, 0.7]), 1, new Map(days.map(d => [d, 1])), 0.5);
+  assert.ok(sum(fractions) <= 0.5 + 1e-12);
+  assert.ok(sum(fractions) > 0.45);
+});
+
+test("bets without an edge get nothing", () => {
+  const fractions = logOptimalFractions([bet(0, 1.5, "d1")], independent([0.5]), 1, new Map([["d1", 1]]), 1);
+  assert.equal(fractions[0], 0);
+});
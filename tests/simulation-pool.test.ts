@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MarketLeg, findMarket } from "../server/markets";
+import { walkForwardRatings, walkForwardRatingsInWorker } from "../server/ratings";
+import { simulateMatch } from "../server/simulation";
+import { SimulationJob, runInWorker, runSimulations } from "../server/simulation-pool";
+
+const market = findMarket("u35-halves-teamy-half-o55c")!;
+
+const job = (matchId: number): SimulationJob => ({
+  matchId,
+  homeExpG: 1.2 + (matchId % 7) / 10,
+  awayExpG: 1.1,
+  homeExpC: 5.4,
+  awayExpC: 4.6,
+  isTeamYHome: matchId % 2 === 0,
+  market,
+  options: { method: "exact" }
+});
+
+test("batches over the inline threshold run on workers with the same results", async () => {
+  const jobs = Array.from({ length: 80 }, (_, i) => job(i));
+  const results = await runSimulations(jobs);
+  jobs.forEach((j, i) => {
+    const inline = simulateMatch(j.homeExpG, j.awayExpG, j.homeExpC, j.awayExpC, j.isTeamYHome, j.market, j.options);
+    assert.equal(results[i].probability, inline.probability);
+  });
+});
+
+test("tasks beyond the pool size queue for a free worker", async () => {
+  const batches = await Promise.all(
+    Array.from({ length: 10 }, (_, b) => runInWorker({ kind: "simulate", jobs: [job(1000 + b)] }))
+  );
+  assert.equal(batches.length, 10);
+  batches.forEach(results => assert.equal(results.length, 1));
+});
+
+test("a failing task rejects without taking the pool down", async () => {
+  // A market whose only leg is missing fails inside the worker when sampled
+  const broken: SimulationJob = { ...job(1), market: { ...market, legs: new Array<MarketLeg>(1) }, options: { method: "monte-carlo" } };
+  await assert.rejects(runInWorker({ kind: "simulate", jobs: [broken] }), /reading 'type'/);
+  const [result] = await runInWorker({ kind: "simulate", jobs: [job(2)] });
+  assert.ok(result.probability > 0);
+});
+
+test("walk-forward refits on a worker match the inline fits", async () => {
+  const day = 86400000;
+  const start = Date.UTC(2024, 7, 1);
+  const history = Array.from({ length: 40 }, (_, i) => ({
+    utc_date: new Date(start + Math.floor(i / 2) * 3 * day).toISOString(),
+    league_id: 2021,
+    home_team_id: 1 + (i % 4),
+    away_team_id: 1 + ((i + 1) % 4),
+    home_score_full: i % 3,
+    away_score_full: (i + 1) % 2,
+    home_score_h1: i % 2,
+    away_score_h1: 0,
+    corners: 8 + (i % 5)
+  }));
+  const kickoffs = [10, 11, 20, 30, 31].map(d => start + d * day + 15 * 3600000);
+  const fromWorker = await walkForwardRatingsInWorker(history, 7, kickoffs);
+  const inline = walkForwardRatings(history, 7);
+  for (const kickoff of kickoffs) {
+    assert.deepEqual(fromWorker(kickoff), inline(kickoff));
+  }
+  // Kickoffs within one refit window share the fit
+  assert.equal(fromWorker(kickoffs[0]), fromWorker(kickoffs[1]));
+});
@@ -0,0 +1,55 @@
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import path from "path";
+
+// Kept apart from helpers.ts, which opens the database: tests that point
+// config at a stub must set the environment before anything imports config.
+
+// --- Local HTTP Stub ---
+// A server on a free local port that answers with `handle` and records every
+// request (method, URL and body) for assertions.
+export interface StubRequest {
+  method: string;
+  url: URL;
+  body: string;
+}
+
+export interface Stub {
+  url: string;
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+export async function startStub(
+  handle: (request: StubRequest) => { status?: number; body?: unknown; delayMs?: number }
+): Promise<Stub> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      const request = { method: req.method!, url: new URL(req.url!, "http://localhost"), body };
+      requests.push(request);
+      const reply = handle(request);
+      setTimeout(() => {
+        res.writeHead(reply.status ?? 200, { "Content-Type": "application/json" });
+        res.end(reply.body === undefined ? "" : JSON.stringify(reply.body));
+      }, reply.delayMs ?? 0);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+export const fixturePath = (...parts: string[]) => path.join(import.meta.dirname, "fixtures", ...parts);
+
+export const readFixture = (...parts: string[]) => JSON.parse(fs.readFileSync(fixturePath(...parts), "utf8"));